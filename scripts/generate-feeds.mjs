@@ -0,0 +1,28 @@
+// Writes the site, category and tag feeds into dist/ after `vite build`:
+//   VITE_SITE_URL=https://example.com npm run build:feeds
+import { describeOutDir, installSanitizerWindow, resolveOutDir, withViteModules, writeFiles } from './vite-modules.mjs'
+
+const outDir = resolveOutDir()
+
+await withViteModules(async (load) => {
+  // Feed links, ids and self references must be absolute, and outside the browser only
+  // VITE_SITE_URL provides the host
+  const { siteUrl } = await load('/src/lib/site.ts')
+  if (!siteUrl()) {
+    console.error('Set VITE_SITE_URL to the public site address, e.g. https://example.com')
+    process.exitCode = 1
+    return
+  }
+
+  // Full-content feeds carry sanitized article HTML; without a DOM they would quietly ship plain text
+  if (!(await installSanitizerWindow(load))) {
+    console.error('Feeds sanitize article HTML with jsdom, which is missing; install the dev dependencies with `npm install`')
+    process.exitCode = 1
+    return
+  }
+
+  const { feedService } = await load('/src/services/feedService.ts')
+  const files = await feedService.generateAllFeeds()
+  await writeFiles(outDir, files)
+  console.log(`Wrote ${files.length} feeds to ${describeOutDir(outDir)}`)
+})
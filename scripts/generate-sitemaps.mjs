@@ -0,0 +1,20 @@
+// Writes sitemap.xml, the category and author sitemaps and robots.txt into dist/ after `vite build`:
+//   VITE_SITE_URL=https://example.com npm run build:sitemaps
+import { describeOutDir, resolveOutDir, withViteModules, writeFiles } from './vite-modules.mjs'
+
+const outDir = resolveOutDir()
+
+await withViteModules(async (load) => {
+  // Sitemap URLs must be absolute, and outside the browser only VITE_SITE_URL provides the host
+  const { siteUrl } = await load('/src/lib/site.ts')
+  if (!siteUrl()) {
+    console.error('Set VITE_SITE_URL to the public site address, e.g. https://example.com')
+    process.exitCode = 1
+    return
+  }
+
+  const { sitemapService } = await load('/src/services/sitemapService.ts')
+  const files = await sitemapService.generateSitemaps()
+  await writeFiles(outDir, files)
+  console.log(`Wrote ${files.map(file => file.path.slice(1)).join(', ')} to ${describeOutDir(outDir)}`)
+})
@@ -0,0 +1,78 @@
+// Pre-renders the home page, category listings and published articles into dist/ after
+// `vite build`, so they load as HTML and hydrate instead of starting from a spinner:
+//   VITE_SITE_URL=https://example.com npm run build:prerender
+// After an article is published, edited or unpublished, rebuild just the pages it appears on:
+//   VITE_SITE_URL=https://example.com npm run build:prerender -- --article <slug-or-id>
+import { readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { describeOutDir, installSanitizerWindow, resolveOutDir, withViteModules, writeFiles } from './vite-modules.mjs'
+
+const { values, positionals } = parseArgs({
+  options: { article: { type: 'string' } },
+  allowPositionals: true
+})
+const outDir = resolveOutDir(positionals[0])
+
+// dist/index.html is replaced by the pre-rendered home page, so the untouched build output is
+// kept alongside it for later runs
+const SHELL_FILE = 'app-shell.html'
+
+await withViteModules(async (load) => {
+  // Canonical links, og:url and structured data are written into static HTML, so they must be
+  // absolute; outside the browser only VITE_SITE_URL provides the host
+  const { siteUrl } = await load('/src/lib/site.ts')
+  if (!siteUrl()) {
+    console.error('Set VITE_SITE_URL to the public site address, e.g. https://example.com')
+    process.exitCode = 1
+    return
+  }
+
+  // Pre-rendered articles are served as-is, so unsanitized markup must never reach them
+  if (!(await installSanitizerWindow(load))) {
+    console.error('Pre-rendering sanitizes article HTML with jsdom, which is missing; install the dev dependencies with `npm install`')
+    process.exitCode = 1
+    return
+  }
+
+  const { PRERENDER_DATA_ID, prerenderFilePath, renderDocument } = await load('/src/lib/prerender.ts')
+  const template = await loadTemplate(PRERENDER_DATA_ID)
+  if (!template) {
+    console.error(`No app shell found in ${describeOutDir(outDir)}; run \`vite build\` first`)
+    process.exitCode = 1
+    return
+  }
+
+  const { prerenderService } = await load('/src/services/prerenderService.ts')
+  const { renderApp } = await load('/src/entry-server.tsx')
+
+  const update = values.article
+    ? await prerenderService.buildArticleUpdate(values.article)
+    : { pages: await prerenderService.buildAllPages(), stalePaths: [] }
+
+  await writeFiles(outDir, update.pages.map(page => ({
+    path: prerenderFilePath(page.path),
+    body: renderDocument(template, { appHtml: renderApp(page.data), meta: page.meta, data: page.data })
+  })))
+  // Only article pages go stale, each in its own directory
+  const staleDirs = update.stalePaths
+    .map(stalePath => path.join(outDir, path.dirname(prerenderFilePath(stalePath))))
+    .filter(dir => dir.startsWith(path.join(outDir, 'article') + path.sep))
+  for (const dir of staleDirs) {
+    await rm(dir, { recursive: true, force: true })
+  }
+
+  const removed = staleDirs.length ? `, removed ${staleDirs.length}` : ''
+  console.log(`Pre-rendered ${update.pages.length} pages${removed} in ${describeOutDir(outDir)}`)
+})
+
+async function loadTemplate(dataId) {
+  const shellPath = path.join(outDir, SHELL_FILE)
+  const saved = await readFile(shellPath, 'utf8').catch(() => null)
+  if (saved) return saved
+
+  const built = await readFile(path.join(outDir, 'index.html'), 'utf8').catch(() => null)
+  if (!built || built.includes(`id="${dataId}"`)) return null
+  await writeFile(shellPath, built)
+  return built
+}
@@ -0,0 +1,55 @@
+// Shared by the build scripts: loads app modules through Vite so they resolve exactly as
+// they do in the app (aliases, import.meta.env), then writes generated files into dist/.
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { createServer } from 'vite'
+
+export async function withViteModules(run) {
+  const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    // Nothing is served to a browser, so skip scanning index.html for dependencies to pre-bundle
+    optimizeDeps: { noDiscovery: true, include: [] },
+    // react-router-dom's CommonJS build hides its named exports (StaticRouter) from Node; the
+    // module-sync condition picks its ES module build, as Node itself would
+    ssr: { resolve: { externalConditions: ['module-sync'] } }
+  })
+
+  try {
+    return await run((id) => server.ssrLoadModule(id))
+  } finally {
+    await server.close()
+  }
+}
+
+export async function writeFiles(outDir, files) {
+  for (const file of files) {
+    const target = path.join(outDir, file.path)
+    await mkdir(path.dirname(target), { recursive: true })
+    await writeFile(target, file.body)
+  }
+}
+
+export function resolveOutDir(arg = process.argv[2]) {
+  return path.resolve(arg || 'dist')
+}
+
+export function describeOutDir(outDir) {
+  return path.relative(process.cwd(), outDir) || '.'
+}
+
+// DOMPurify needs a DOM to sanitize article HTML, which jsdom (a dev dependency) provides outside
+// the browser. Returns false when it is missing, e.g. after `npm install --omit=dev`, so the
+// scripts can stop rather than let sanitizeHtml fall back to plain text.
+export async function installSanitizerWindow(load) {
+  let JSDOM
+  try {
+    ({ JSDOM } = await import('jsdom'))
+  } catch {
+    return false
+  }
+  const { setSanitizerWindow } = await load('/src/lib/sanitizeHtml.ts')
+  setSanitizerWindow(new JSDOM('').window)
+  return true
+}
@@ -1,17 +1,29 @@
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
-import { useState, useEffect } from 'react'
+import { Routes, Route } from 'react-router-dom'
+import { useState, useEffect, useContext } from 'react'
 import { blink } from './blink/client'
 import HomePage from './pages/HomePage'
 import ArticlePage from './pages/ArticlePage'
 import AdminDashboard from './pages/AdminDashboard'
 import CreatePost from './pages/CreatePost'
+import ReadingListPage from './pages/ReadingListPage'
+import AuthorPage from './pages/AuthorPage'
+import TagPage from './pages/TagPage'
 import Header from './components/layout/Header'
 import Footer from './components/layout/Footer'
+import RequirePermission from './components/auth/RequirePermission'
 import { Toaster } from './components/ui/toaster'
+import { PrerenderContext } from './hooks/use-prerender-data'
+import { publishScheduler } from './services/publishScheduler'
+import { reactionService } from './services/reactionService'
+import { roleService } from './services/roleService'
+import type { Actor } from './lib/permissions'
 
 function App() {
+  // Pre-rendered pages are public, so they render straight away while sign-in state loads
+  const prerendered = useContext(PrerenderContext) !== null
   const [user, setUser] = useState(null)
   const [loading, setLoading] = useState(true)
+  const [actor, setActor] = useState<Actor | null>(null)
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
@@ -21,7 +33,36 @@ function App() {
     return unsubscribe
   }, [])
 
-  if (loading) {
+  // Only signed-in sessions can write, so they are the ones that flip scheduled posts live
+  useEffect(() => {
+    if (!user) return
+    publishScheduler.start()
+    return () => publishScheduler.stop()
+  }, [user])
+
+  // Likes and bookmarks made while signed out move onto the account
+  const userId = (user as { id?: string } | null)?.id
+  useEffect(() => {
+    if (userId) {
+      reactionService.mergeLocalReactions(userId)
+    }
+  }, [userId])
+
+  // Roles live in our own table, so every sign-in looks the role up before admin pages render
+  useEffect(() => {
+    if (user) {
+      loadActor(user)
+    }
+  }, [user])
+
+  const loadActor = async (signedInUser: { id: string, email?: string, displayName?: string }) => {
+    setActor(await roleService.resolveActor(signedInUser))
+  }
+
+  const currentActor = actor && actor.id === userId ? actor : null
+  const actorLoading = loading || (!!userId && !currentActor)
+
+  if (loading && !prerendered) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
@@ -30,22 +71,36 @@ function App() {
   }
 
   return (
-    <Router>
-      <div className="min-h-screen bg-background flex flex-col">
-        <Header user={user} />
-        <main className="flex-1">
-          <Routes>
-            <Route path="/" element={<HomePage />} />
-            <Route path="/article/:id" element={<ArticlePage />} />
-            <Route path="/admin" element={<AdminDashboard user={user} />} />
-            <Route path="/admin/create" element={<CreatePost user={user} />} />
-            <Route path="/admin/edit/:id" element={<CreatePost user={user} />} />
-          </Routes>
-        </main>
-        <Footer />
-        <Toaster />
-      </div>
-    </Router>
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header user={user} actor={currentActor} />
+      <main className="flex-1">
+        <Routes>
+          <Route path="/" element={<HomePage />} />
+          <Route path="/category/:slug" element={<HomePage />} />
+          <Route path="/article/:slug" element={<ArticlePage user={user} actor={currentActor} />} />
+          <Route path="/reading-list" element={<ReadingListPage user={user} />} />
+          <Route path="/author/:slug" element={<AuthorPage />} />
+          <Route path="/tag/:slug" element={<TagPage />} />
+          <Route path="/admin" element={
+            <RequirePermission actor={currentActor} loading={actorLoading} permission="dashboard:view">
+              {(signedIn) => <AdminDashboard actor={signedIn} />}
+            </RequirePermission>
+          } />
+          <Route path="/admin/create" element={
+            <RequirePermission actor={currentActor} loading={actorLoading} permission="article:create">
+              {(signedIn) => <CreatePost actor={signedIn} />}
+            </RequirePermission>
+          } />
+          <Route path="/admin/edit/:id" element={
+            <RequirePermission actor={currentActor} loading={actorLoading} permission="article:create">
+              {(signedIn) => <CreatePost actor={signedIn} />}
+            </RequirePermission>
+          } />
+        </Routes>
+      </main>
+      <Footer />
+      <Toaster />
+    </div>
   )
 }
 
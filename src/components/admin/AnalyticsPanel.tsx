@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react'
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '../ui/chart'
+import { analyticsService, READ_DEPTH_MILESTONES, type AnalyticsSummary } from '../../services/analyticsService'
+import { articleService } from '../../services/articleService'
+
+const viewsChartConfig = {
+  views: { label: 'Views', color: 'hsl(var(--chart-1))' }
+} satisfies ChartConfig
+
+const topArticlesChartConfig = {
+  views: { label: 'Views', color: 'hsl(var(--chart-2))' }
+} satisfies ChartConfig
+
+const referrersChartConfig = {
+  views: { label: 'Views', color: 'hsl(var(--chart-3))' }
+} satisfies ChartConfig
+
+const REFERRER_LABELS: Record<string, string> = {
+  direct: 'Direct',
+  internal: 'Internal'
+}
+
+export default function AnalyticsPanel() {
+  const [days, setDays] = useState('30')
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null)
+  const [titles, setTitles] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadSummary(Number(days))
+  }, [days])
+
+  const loadSummary = async (periodDays: number) => {
+    setLoading(true)
+    try {
+      const summaryData = await analyticsService.getSummary(periodDays)
+      const articles = await Promise.all(
+        summaryData.topArticles.map(({ articleId }) => articleService.getArticleById(articleId))
+      )
+      setTitles(Object.fromEntries(
+        summaryData.topArticles.map(({ articleId }, index) => [articleId, articles[index]?.title || 'Deleted article'])
+      ))
+      setSummary(summaryData)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatDay = (day: string) => {
+    return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+  }
+
+  const truncate = (text: string, length: number = 32) => {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text
+  }
+
+  const topArticles = (summary?.topArticles || []).map(({ articleId, views }) => ({
+    title: truncate(titles[articleId] || articleId),
+    views
+  }))
+
+  const referrers = (summary?.referrers || []).map(({ source, views }) => ({
+    source: REFERRER_LABELS[source] || source,
+    views
+  }))
+
+  return (
+    <div className="grid gap-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Views Over Time</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {loading ? 'Loading...' : `${(summary?.totalViews || 0).toLocaleString()} views in the last ${days} days`}
+            </p>
+          </div>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={viewsChartConfig} className="h-64 w-full aspect-auto">
+            <AreaChart data={summary?.viewsByDay || []} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={formatDay} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(String(value))} />} />
+              <Area dataKey="views" type="monotone" fill="var(--color-views)" fillOpacity={0.2} stroke="var(--color-views)" />
+            </AreaChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Articles</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {topArticles.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No views recorded in this period.</p>
+            ) : (
+              <ChartContainer config={topArticlesChartConfig} className="h-72 w-full aspect-auto">
+                <BarChart data={topArticles} layout="vertical" margin={{ left: 0, right: 12 }}>
+                  <XAxis type="number" hide allowDecimals={false} />
+                  <YAxis type="category" dataKey="title" tickLine={false} axisLine={false} width={180} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="views" fill="var(--color-views)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Referrers</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {referrers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No referrers recorded in this period.</p>
+            ) : (
+              <ChartContainer config={referrersChartConfig} className="h-72 w-full aspect-auto">
+                <BarChart data={referrers} layout="vertical" margin={{ left: 0, right: 12 }}>
+                  <XAxis type="number" hide allowDecimals={false} />
+                  <YAxis type="category" dataKey="source" tickLine={false} axisLine={false} width={140} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="views" fill="var(--color-views)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Read Depth</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {READ_DEPTH_MILESTONES.map((depth) => {
+              const readers = summary?.readDepth[depth] || 0
+              const share = summary?.totalViews ? Math.round((readers / summary.totalViews) * 100) : 0
+              return (
+                <div key={depth} className="rounded-lg border p-4">
+                  <div className="text-sm text-muted-foreground">Scrolled {depth}%</div>
+                  <div className="text-2xl font-bold">{readers.toLocaleString()}</div>
+                  <div className="text-xs text-muted-foreground">{share}% of views</div>
+                </div>
+              )
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,354 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Plus, Edit, Trash2, Users, ExternalLink } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import { isValidSlug, slugify } from '../../lib/slugify'
+import { authorService, isWebUrl, SOCIAL_NETWORKS, type Author, type AuthorSocials } from '../../services/authorService'
+import { roleService, type UserRole } from '../../services/roleService'
+
+const NO_USER = 'none'
+
+const SOCIAL_LABELS: Record<typeof SOCIAL_NETWORKS[number], string> = {
+  website: 'Website',
+  twitter: 'X / Twitter',
+  github: 'GitHub',
+  linkedin: 'LinkedIn',
+  mastodon: 'Mastodon'
+}
+
+const emptyForm = {
+  name: '',
+  slug: '',
+  bio: '',
+  avatarUrl: '',
+  socials: {} as AuthorSocials,
+  userId: NO_USER
+}
+
+export default function AuthorsPanel() {
+  const [authors, setAuthors] = useState<Author[]>([])
+  const [articleCounts, setArticleCounts] = useState<Record<string, number>>({})
+  const [users, setUsers] = useState<UserRole[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [migrating, setMigrating] = useState(false)
+
+  useEffect(() => {
+    loadAuthors()
+    roleService.getUsers().then(setUsers)
+  }, [])
+
+  const loadAuthors = async () => {
+    try {
+      const authorsData = await authorService.getAuthors()
+      const counts = await Promise.all(authorsData.map(author => authorService.countArticles(author.id)))
+      setAuthors(authorsData)
+      setArticleCounts(Object.fromEntries(authorsData.map((author, index) => [author.id, counts[index]])))
+    } catch (error) {
+      console.error('Error loading authors:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingId(null)
+    setFormData(emptyForm)
+    setDialogOpen(true)
+  }
+
+  const openEditDialog = (author: Author) => {
+    setEditingId(author.id)
+    setFormData({
+      name: author.name,
+      slug: author.slug,
+      bio: author.bio,
+      avatarUrl: author.avatarUrl,
+      socials: author.socials,
+      userId: author.userId || NO_USER
+    })
+    setDialogOpen(true)
+  }
+
+  const handleInputChange = (field: string, value: any) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: value
+    }))
+  }
+
+  const handleSocialChange = (network: string, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      socials: { ...prev.socials, [network]: value }
+    }))
+  }
+
+  const validateForm = () => {
+    if (!formData.name.trim()) {
+      alert('Please enter a name')
+      return false
+    }
+    if (formData.slug.trim() && !isValidSlug(formData.slug.trim())) {
+      alert('Slugs may only contain lowercase letters, numbers and single dashes')
+      return false
+    }
+    for (const url of [formData.avatarUrl, ...Object.values(formData.socials)]) {
+      if (!url?.trim()) continue
+      if (!isWebUrl(url)) {
+        alert(`Please enter a valid http or https URL: ${url}`)
+        return false
+      }
+    }
+    // Linking a user who already has a profile would give them two bylines
+    const linked = authors.find(author => author.userId === formData.userId && author.id !== editingId)
+    if (formData.userId !== NO_USER && linked) {
+      alert(`That user is already linked to ${linked.name}`)
+      return false
+    }
+    return true
+  }
+
+  const handleSave = async () => {
+    if (!validateForm()) return
+
+    setSaving(true)
+    try {
+      const authorData: Partial<Author> = {
+        name: formData.name.trim(),
+        slug: formData.slug.trim() || undefined,
+        bio: formData.bio.trim(),
+        avatarUrl: formData.avatarUrl.trim(),
+        socials: formData.socials,
+        userId: formData.userId === NO_USER ? null : formData.userId
+      }
+
+      const result = editingId
+        ? await authorService.updateAuthor(editingId, authorData)
+        : await authorService.createAuthor(authorData)
+
+      if (result) {
+        setDialogOpen(false)
+        await loadAuthors()
+      } else {
+        alert('Failed to save author. Please try again.')
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (author: Author) => {
+    if (articleCounts[author.id] > 0) {
+      alert(`${author.name} is credited on ${articleCounts[author.id]} articles. Reassign them before deleting.`)
+      return
+    }
+    if (window.confirm('Are you sure you want to delete this author?')) {
+      await authorService.deleteAuthor(author.id)
+      await loadAuthors()
+    }
+  }
+
+  const handleMigrate = async () => {
+    if (!window.confirm('Link every original article without an author profile to a profile with the same name? Missing profiles will be created.')) return
+
+    setMigrating(true)
+    try {
+      const result = await authorService.migrateFreeTextAuthors()
+      alert(`Linked ${result.articlesLinked} articles and created ${result.authorsCreated} author profiles.`)
+      await loadAuthors()
+    } finally {
+      setMigrating(false)
+    }
+  }
+
+  const getUserLabel = (userId: string | null) => {
+    if (!userId) return '—'
+    const user = users.find(u => u.userId === userId)
+    return user ? user.displayName || user.email || user.userId : userId
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Authors</CardTitle>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={handleMigrate} disabled={migrating}>
+            <Users className="mr-2 h-4 w-4" />
+            {migrating ? 'Migrating...' : 'Migrate free-text authors'}
+          </Button>
+          <Button size="sm" onClick={openCreateDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Author
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading authors...</p>
+        ) : authors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No author profiles yet. Add one, or migrate the bylines already on your articles.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Author</TableHead>
+                <TableHead>Linked User</TableHead>
+                <TableHead>Articles</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {authors.map((author) => (
+                <TableRow key={author.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <Avatar className="h-8 w-8">
+                        {author.avatarUrl && <AvatarImage src={author.avatarUrl} alt={author.name} />}
+                        <AvatarFallback>{author.name.charAt(0).toUpperCase()}</AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <div className="font-medium">{author.name}</div>
+                        <div className="text-sm text-muted-foreground">/author/{author.slug}</div>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {author.userId ? (
+                      <Badge variant="secondary">{getUserLabel(author.userId)}</Badge>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{articleCounts[author.id] || 0}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link to={`/author/${author.slug}`}>
+                          <ExternalLink className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openEditDialog(author)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(author)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Author' : 'Add Author'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="authorName">Name</Label>
+              <Input
+                id="authorName"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                placeholder="e.g., Jane Doe"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="authorSlug">Slug</Label>
+              <Input
+                id="authorSlug"
+                value={formData.slug}
+                onChange={(e) => handleInputChange('slug', e.target.value)}
+                placeholder={slugify(formData.name) || 'generated-from-name'}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="authorBio">Bio</Label>
+              <Textarea
+                id="authorBio"
+                value={formData.bio}
+                onChange={(e) => handleInputChange('bio', e.target.value)}
+                rows={3}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="authorAvatar">Avatar URL</Label>
+              <Input
+                id="authorAvatar"
+                value={formData.avatarUrl}
+                onChange={(e) => handleInputChange('avatarUrl', e.target.value)}
+                placeholder="https://..."
+                className="mt-1"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {SOCIAL_NETWORKS.map((network) => (
+                <div key={network}>
+                  <Label htmlFor={`social-${network}`}>{SOCIAL_LABELS[network]}</Label>
+                  <Input
+                    id={`social-${network}`}
+                    value={formData.socials[network] || ''}
+                    onChange={(e) => handleSocialChange(network, e.target.value)}
+                    placeholder="https://..."
+                    className="mt-1"
+                  />
+                </div>
+              ))}
+            </div>
+            <div>
+              <Label htmlFor="authorUser">Linked User</Label>
+              <Select value={formData.userId} onValueChange={(value) => handleInputChange('userId', value)}>
+                <SelectTrigger id="authorUser" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_USER}>No linked user</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.userId} value={user.userId}>
+                      {user.displayName || user.email || user.userId}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
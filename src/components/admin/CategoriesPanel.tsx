@@ -0,0 +1,358 @@
+import { useState, useEffect } from 'react'
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, RefreshCw } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import { isValidSlug, slugify } from '../../lib/slugify'
+import type { Actor } from '../../lib/permissions'
+import {
+  buildCategoryTree,
+  categoryService,
+  DEFAULT_CATEGORY_COLOR,
+  flattenCategoryTree,
+  getDescendantIds,
+  isValidColor,
+  type Category
+} from '../../services/categoryService'
+
+const NO_PARENT = 'none'
+
+const emptyForm = {
+  name: '',
+  slug: '',
+  description: '',
+  color: DEFAULT_CATEGORY_COLOR,
+  parentId: NO_PARENT
+}
+
+interface CategoriesPanelProps {
+  actor: Actor
+}
+
+export default function CategoriesPanel({ actor }: CategoriesPanelProps) {
+  const [categories, setCategories] = useState<Category[]>([])
+  const [articleCounts, setArticleCounts] = useState<Record<string, number>>({})
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [syncing, setSyncing] = useState(false)
+
+  useEffect(() => {
+    loadCategories()
+  }, [])
+
+  const loadCategories = async () => {
+    try {
+      const categoriesData = await categoryService.getCategories()
+      const counts = await Promise.all(categoriesData.map(cat => categoryService.countArticles(cat.id)))
+      setCategories(categoriesData)
+      setArticleCounts(Object.fromEntries(categoriesData.map((cat, index) => [cat.id, counts[index]])))
+    } catch (error) {
+      console.error('Error loading categories:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const rows = flattenCategoryTree(buildCategoryTree(categories))
+
+  // Siblings in display order, used for the up/down buttons
+  const getSiblings = (category: Category) =>
+    rows.map(row => row.category).filter(cat => cat.parentId === category.parentId)
+
+  // A category can't be nested under itself or anything below it
+  const parentOptions = editingId
+    ? rows.filter(row => !getDescendantIds(categories, editingId).includes(row.category.id))
+    : rows
+
+  const openCreateDialog = () => {
+    setEditingId(null)
+    setFormData(emptyForm)
+    setDialogOpen(true)
+  }
+
+  const openEditDialog = (category: Category) => {
+    setEditingId(category.id)
+    setFormData({
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      color: category.color,
+      parentId: category.parentId || NO_PARENT
+    })
+    setDialogOpen(true)
+  }
+
+  const handleInputChange = (field: string, value: any) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: value
+    }))
+  }
+
+  const validateForm = () => {
+    if (!formData.name.trim()) {
+      alert('Please enter a name')
+      return false
+    }
+    if (formData.slug.trim() && !isValidSlug(formData.slug.trim())) {
+      alert('Slugs may only contain lowercase letters, numbers and single dashes')
+      return false
+    }
+    if (!isValidColor(formData.color.trim())) {
+      alert('Please enter a color as a hex value, e.g. #2563eb')
+      return false
+    }
+    return true
+  }
+
+  const handleSave = async () => {
+    if (!validateForm()) return
+
+    setSaving(true)
+    try {
+      const categoryData: Partial<Category> = {
+        name: formData.name.trim(),
+        slug: formData.slug.trim() || undefined,
+        description: formData.description.trim(),
+        color: formData.color.trim(),
+        parentId: formData.parentId === NO_PARENT ? null : formData.parentId
+      }
+
+      const result = editingId
+        ? await categoryService.updateCategory(editingId, categoryData)
+        : await categoryService.createCategory({ ...categoryData, userId: actor.id })
+
+      if (result) {
+        setDialogOpen(false)
+        await loadCategories()
+      } else {
+        alert('Failed to save category. Please try again.')
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (category: Category) => {
+    if (articleCounts[category.id] > 0) {
+      alert(`${category.name} has ${articleCounts[category.id]} articles. Move them to another category before deleting.`)
+      return
+    }
+    if (categories.some(cat => cat.parentId === category.id)) {
+      alert(`${category.name} has subcategories. Move or delete them first.`)
+      return
+    }
+    if (window.confirm('Are you sure you want to delete this category?')) {
+      await categoryService.deleteCategory(category.id)
+      await loadCategories()
+    }
+  }
+
+  const handleMove = async (category: Category, offset: number) => {
+    const siblings = getSiblings(category)
+    const from = siblings.findIndex(cat => cat.id === category.id)
+    const to = from + offset
+    if (to < 0 || to >= siblings.length) return
+
+    const ordered = siblings.map(cat => cat.id)
+    ordered.splice(from, 1)
+    ordered.splice(to, 0, category.id)
+
+    const saved = await categoryService.reorderCategories(category.parentId, ordered)
+    if (!saved) {
+      alert('Failed to reorder categories. Please try again.')
+    }
+    await loadCategories()
+  }
+
+  // Renames and recolors already propagate on save; this repairs anything that drifted before that
+  const handleSync = async () => {
+    setSyncing(true)
+    try {
+      const result = await categoryService.syncArticleFields()
+      alert(`Checked ${result.articlesChecked} articles and updated ${result.articlesUpdated}.`)
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Categories</CardTitle>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={handleSync} disabled={syncing}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
+            {syncing ? 'Syncing...' : 'Sync article labels'}
+          </Button>
+          <Button size="sm" onClick={openCreateDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Category
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading categories...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No categories yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Slug</TableHead>
+                <TableHead>Articles</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ category, depth }) => {
+                const siblings = getSiblings(category)
+                const index = siblings.findIndex(cat => cat.id === category.id)
+                return (
+                  <TableRow key={category.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                        <div
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: category.color }}
+                        />
+                        <span className="font-medium">{category.name}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{category.slug}</TableCell>
+                    <TableCell>{articleCounts[category.id] || 0}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleMove(category, -1)}
+                          disabled={index === 0}
+                          aria-label="Move up"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleMove(category, 1)}
+                          disabled={index === siblings.length - 1}
+                          aria-label="Move down"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openEditDialog(category)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(category)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Category' : 'Add Category'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="categoryName">Name</Label>
+              <Input
+                id="categoryName"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                placeholder="e.g., Machine Learning"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="categorySlug">Slug</Label>
+              <Input
+                id="categorySlug"
+                value={formData.slug}
+                onChange={(e) => handleInputChange('slug', e.target.value)}
+                placeholder={slugify(formData.name) || 'generated-from-name'}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="categoryDescription">Description</Label>
+              <Textarea
+                id="categoryDescription"
+                value={formData.description}
+                onChange={(e) => handleInputChange('description', e.target.value)}
+                rows={2}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="categoryColor">Color</Label>
+              <div className="flex items-center gap-2 mt-1">
+                <input
+                  type="color"
+                  aria-label="Pick a color"
+                  value={isValidColor(formData.color) ? formData.color : DEFAULT_CATEGORY_COLOR}
+                  onChange={(e) => handleInputChange('color', e.target.value)}
+                  className="h-10 w-12 rounded-md border bg-background p-1"
+                />
+                <Input
+                  id="categoryColor"
+                  value={formData.color}
+                  onChange={(e) => handleInputChange('color', e.target.value)}
+                  placeholder="#2563eb"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="categoryParent">Parent Category</Label>
+              <Select value={formData.parentId} onValueChange={(value) => handleInputChange('parentId', value)}>
+                <SelectTrigger id="categoryParent" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                  {parentOptions.map(({ category, depth }) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      <span style={{ paddingLeft: `${depth}rem` }}>{category.name}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
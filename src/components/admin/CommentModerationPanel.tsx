@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react'
+import { Ban, Check, RotateCcw, Save, X } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import { Textarea } from '../ui/textarea'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import { formatComment } from '../../lib/commentFormat'
+import type { Actor } from '../../lib/permissions'
+import { articleService } from '../../services/articleService'
+import {
+  commentService,
+  DEFAULT_COMMENT_SETTINGS,
+  type Comment,
+  type CommentBan,
+  type CommentSettings
+} from '../../services/commentService'
+
+type NumberSetting = 'maxLinks' | 'rateLimitCount' | 'rateLimitMinutes' | 'editWindowMinutes' | 'deleteWindowMinutes'
+
+const NUMBER_FIELDS: { key: NumberSetting, label: string }[] = [
+  { key: 'maxLinks', label: 'Max links' },
+  { key: 'rateLimitCount', label: 'Comments per user' },
+  { key: 'rateLimitMinutes', label: 'Rate window (minutes)' },
+  { key: 'editWindowMinutes', label: 'Edit window (minutes)' },
+  { key: 'deleteWindowMinutes', label: 'Delete window (minutes)' }
+]
+
+interface CommentModerationPanelProps {
+  actor: Actor
+}
+
+export default function CommentModerationPanel({ actor }: CommentModerationPanelProps) {
+  const [queue, setQueue] = useState<Comment[]>([])
+  const [titles, setTitles] = useState<Record<string, string>>({})
+  const [bans, setBans] = useState<CommentBan[]>([])
+  const [settings, setSettings] = useState<CommentSettings>(DEFAULT_COMMENT_SETTINGS)
+  const [blocklistText, setBlocklistText] = useState(DEFAULT_COMMENT_SETTINGS.blocklist.join('\n'))
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadModeration()
+  }, [])
+
+  const loadModeration = async () => {
+    try {
+      const [queueData, bansData, settingsData] = await Promise.all([
+        commentService.getModerationQueue(),
+        commentService.getBannedUsers(),
+        commentService.getSettings()
+      ])
+
+      const articleIds = Array.from(new Set(queueData.map(comment => comment.articleId)))
+      const articles = await Promise.all(articleIds.map(id => articleService.getArticleById(id)))
+      setTitles(Object.fromEntries(articleIds.map((id, index) => [id, articles[index]?.title || 'Deleted article'])))
+
+      setQueue(queueData)
+      setBans(bansData)
+      setSettings(settingsData)
+      setBlocklistText(settingsData.blocklist.join('\n'))
+    } catch (error) {
+      console.error('Error loading moderation queue:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleApprove = async (comment: Comment) => {
+    if (await commentService.approveComment(comment.id, actor)) {
+      setQueue(prev => prev.filter(c => c.id !== comment.id))
+    } else {
+      alert('Failed to approve comment. Please try again.')
+    }
+  }
+
+  const handleReject = async (comment: Comment) => {
+    if (await commentService.rejectComment(comment.id, actor)) {
+      setQueue(prev => prev.filter(c => c.id !== comment.id))
+    } else {
+      alert('Failed to reject comment. Please try again.')
+    }
+  }
+
+  const handleBan = async (comment: Comment) => {
+    if (!window.confirm(`Ban ${comment.authorName} from commenting? Their pending comments will be rejected.`)) return
+
+    if (await commentService.banUser(comment.userId, comment.authorName, actor, comment.spamReasons.join('; '))) {
+      await loadModeration()
+    } else {
+      alert('Failed to ban user. Please try again.')
+    }
+  }
+
+  const handleUnban = async (userId: string) => {
+    if (await commentService.unbanUser(userId, actor)) {
+      setBans(prev => prev.filter(ban => ban.userId !== userId))
+    } else {
+      alert('Failed to unban user. Please try again.')
+    }
+  }
+
+  const handleSave = async () => {
+    if (NUMBER_FIELDS.some(({ key }) => !Number.isInteger(settings[key]) || settings[key] < 0)) {
+      alert('Limits must be whole numbers of 0 or more.')
+      return
+    }
+    if (settings.rateLimitCount < 1 || settings.rateLimitMinutes < 1) {
+      alert('The rate limit needs at least 1 comment per 1 minute.')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const blocklist = blocklistText
+        .split('\n')
+        .map(word => word.trim())
+        .filter(Boolean)
+      const saved = await commentService.saveSettings({ ...settings, blocklist }, actor)
+      if (!saved) {
+        alert('Failed to save comment settings. Please try again.')
+        return
+      }
+      setSettings(prev => ({ ...prev, blocklist }))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = () => {
+    setSettings(DEFAULT_COMMENT_SETTINGS)
+    setBlocklistText(DEFAULT_COMMENT_SETTINGS.blocklist.join('\n'))
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
+
+  return (
+    <div className="grid gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Moderation Queue ({queue.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading comments...</p>
+          ) : queue.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No comments waiting for moderation.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Comment</TableHead>
+                  <TableHead>Article</TableHead>
+                  <TableHead>Flags</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.map((comment) => (
+                  <TableRow key={comment.id}>
+                    <TableCell className="max-w-md align-top">
+                      <div className="text-sm font-medium">
+                        {comment.authorName}
+                        <span className="ml-2 font-normal text-muted-foreground">{formatDate(comment.createdAt)}</span>
+                      </div>
+                      <div
+                        className="comment-body mt-1 text-sm break-words"
+                        dangerouslySetInnerHTML={{ __html: formatComment(comment.body) }}
+                      />
+                    </TableCell>
+                    <TableCell className="max-w-48 align-top text-sm">
+                      <span className="line-clamp-2">{titles[comment.articleId] || comment.articleId}</span>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div className="flex flex-wrap gap-1">
+                        {comment.spamReasons.map((reason) => (
+                          <Badge key={reason} variant="outline">{reason}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleApprove(comment)} title="Approve">
+                          <Check className="h-4 w-4 text-green-600" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleReject(comment)} title="Reject">
+                          <X className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleBan(comment)} title="Ban user" className="text-destructive hover:text-destructive">
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Spam Settings</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {NUMBER_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`comment-${key}`}>{label}</Label>
+                <Input
+                  id={`comment-${key}`}
+                  type="number"
+                  min={0}
+                  value={settings[key]}
+                  onChange={(e) => setSettings(prev => ({ ...prev, [key]: parseInt(e.target.value, 10) || 0 }))}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="comment-blocklist">Blocklisted words (one per line)</Label>
+            <Textarea
+              id="comment-blocklist"
+              rows={5}
+              value={blocklistText}
+              onChange={(e) => setBlocklistText(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="comment-holdFirst"
+              checked={settings.holdFirstComment}
+              onCheckedChange={(checked) => setSettings(prev => ({ ...prev, holdFirstComment: checked }))}
+            />
+            <Label htmlFor="comment-holdFirst">Hold first comments from new users for moderation</Label>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Comments over the link limit or containing a blocklisted word wait in the queue. Users over the rate limit are turned away.
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="mr-2 h-4 w-4" />
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+            <Button variant="ghost" onClick={handleReset}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset to defaults
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Banned Users</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {bans.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No banned users.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Banned</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bans.map((ban) => (
+                  <TableRow key={ban.userId}>
+                    <TableCell className="font-medium">{ban.userName}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{ban.reason || '—'}</TableCell>
+                    <TableCell className="text-sm">{formatDate(ban.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => handleUnban(ban.userId)}>
+                        Unban
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react'
+import { Rss, Save, Eye } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import type { FeedFormat } from '../../lib/feedParser'
+import { categoryService, type Category } from '../../services/categoryService'
+import { tagService, type Tag } from '../../services/tagService'
+import {
+  DEFAULT_FEED_SETTINGS,
+  FEED_FORMATS,
+  feedPath,
+  feedService,
+  type FeedMode,
+  type FeedScope,
+  type FeedSettings
+} from '../../services/feedService'
+
+const SITE_SCOPE = 'site'
+
+const FORMAT_LABELS: Record<FeedFormat, string> = {
+  rss: 'RSS 2.0',
+  atom: 'Atom',
+  json: 'JSON Feed'
+}
+
+export default function FeedSettingsPanel() {
+  const [settings, setSettings] = useState<FeedSettings>(DEFAULT_FEED_SETTINGS)
+  const [categories, setCategories] = useState<Category[]>([])
+  const [tags, setTags] = useState<Tag[]>([])
+  const [scopeKey, setScopeKey] = useState(SITE_SCOPE)
+  const [format, setFormat] = useState<FeedFormat>('rss')
+  const [preview, setPreview] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [generating, setGenerating] = useState(false)
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const loadSettings = async () => {
+    try {
+      const [savedSettings, categoriesData, tagsData] = await Promise.all([
+        feedService.getFeedSettings(),
+        categoryService.getCategories(),
+        tagService.getTags()
+      ])
+      setSettings(savedSettings)
+      setCategories(categoriesData)
+      setTags(tagsData.filter(tag => tag.usageCount > 0))
+    } catch (error) {
+      console.error('Error loading feed settings:', error)
+    }
+  }
+
+  // Scope keys are "site", "category:<id>" or "tag:<id>"
+  const resolveScope = (key: string): FeedScope => {
+    const [type, id] = key.split(':')
+    const category = type === 'category' ? categories.find(cat => cat.id === id) : undefined
+    if (category) return { type: 'category', category }
+    const tag = type === 'tag' ? tags.find(item => item.id === id) : undefined
+    if (tag) return { type: 'tag', tag }
+    return { type: 'site' }
+  }
+
+  const handleSave = async () => {
+    if (settings.itemLimit < 1 || settings.itemLimit > 100) {
+      alert('Feeds must list between 1 and 100 articles.')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const saved = await feedService.saveFeedSettings(settings)
+      if (!saved) {
+        alert('Failed to save feed settings. Please try again.')
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    setGenerating(true)
+    try {
+      setPreview(await feedService.generateFeed(resolveScope(scopeKey), format, settings))
+    } catch (error) {
+      console.error('Error generating feed preview:', error)
+      alert('Failed to generate the feed. Please try again.')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <div className="grid gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Rss className="h-4 w-4" />
+            Feed Settings
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="feedMode">Content</Label>
+              <Select
+                value={settings.mode}
+                onValueChange={(value) => setSettings(prev => ({ ...prev, mode: value as FeedMode }))}
+              >
+                <SelectTrigger id="feedMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Full articles</SelectItem>
+                  <SelectItem value="excerpt">Excerpts only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="feedItemLimit">Articles per feed</Label>
+              <Input
+                id="feedItemLimit"
+                type="number"
+                min={1}
+                max={100}
+                value={settings.itemLimit}
+                onChange={(e) => setSettings(prev => ({ ...prev, itemLimit: parseInt(e.target.value, 10) || 0 }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="feedIncludeAggregated">Include aggregated articles</Label>
+              <div className="flex h-10 items-center">
+                <Switch
+                  id="feedIncludeAggregated"
+                  checked={settings.includeAggregated}
+                  onCheckedChange={(checked) => setSettings(prev => ({ ...prev, includeAggregated: checked }))}
+                />
+              </div>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Aggregated articles always link to the original and only carry their excerpt, even in full mode.
+            Feeds are written to the site by <code>npm run build:feeds</code> after each build.
+          </p>
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Preview</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-2">
+            <Select value={scopeKey} onValueChange={setScopeKey}>
+              <SelectTrigger className="md:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SITE_SCOPE}>Whole site</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={`category:${category.id}`}>
+                    Category: {category.name}
+                  </SelectItem>
+                ))}
+                {tags.map((tag) => (
+                  <SelectItem key={tag.id} value={`tag:${tag.id}`}>
+                    Tag: {tag.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={format} onValueChange={(value) => setFormat(value as FeedFormat)}>
+              <SelectTrigger className="md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FEED_FORMATS.map((feedFormat) => (
+                  <SelectItem key={feedFormat} value={feedFormat}>
+                    {FORMAT_LABELS[feedFormat]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handlePreview} disabled={generating}>
+              <Eye className="mr-2 h-4 w-4" />
+              {generating ? 'Generating...' : 'Generate'}
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Published at <code>{feedPath(resolveScope(scopeKey), format)}</code>
+          </p>
+          {preview && (
+            <pre className="max-h-96 overflow-auto rounded-md border bg-muted p-4 text-xs whitespace-pre-wrap break-all">
+              {preview}
+            </pre>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
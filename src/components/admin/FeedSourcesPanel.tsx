@@ -0,0 +1,363 @@
+import { useState, useEffect, useRef } from 'react'
+import { Plus, Edit, Trash2, Pause, Play, RefreshCw, AlertCircle } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import { articleService, type Category } from '../../services/articleService'
+import { feedSourceService, type FeedSource } from '../../services/feedSourceService'
+import { feedIngestionService } from '../../services/feedIngestionService'
+
+const POLL_CHECK_INTERVAL_MS = 60 * 1000
+
+const emptyForm = {
+  name: '',
+  url: '',
+  category: '',
+  pollIntervalMinutes: 60,
+  autoPublish: false
+}
+
+export default function FeedSourcesPanel() {
+  const [sources, setSources] = useState<FeedSource[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loading, setLoading] = useState(true)
+  const [fetchingId, setFetchingId] = useState<string | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  // Set while any ingest runs so a slow fetch is never started again on top of itself
+  const ingesting = useRef(false)
+
+  useEffect(() => {
+    loadSources()
+    articleService.getCategories().then(setCategories)
+  }, [])
+
+  // Poll while the dashboard is open; each source decides for itself whether it is due
+  useEffect(() => {
+    const timer = window.setInterval(async () => {
+      if (ingesting.current) return
+      ingesting.current = true
+      try {
+        const results = await feedIngestionService.ingestDueSources()
+        if (results.length > 0) {
+          loadSources()
+        }
+      } finally {
+        ingesting.current = false
+      }
+    }, POLL_CHECK_INTERVAL_MS)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  const loadSources = async () => {
+    try {
+      const sourcesData = await feedSourceService.getFeedSources()
+      setSources(sourcesData)
+    } catch (error) {
+      console.error('Error loading feed sources:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingId(null)
+    setFormData({ ...emptyForm, category: categories[0]?.id || '' })
+    setDialogOpen(true)
+  }
+
+  const openEditDialog = (source: FeedSource) => {
+    setEditingId(source.id)
+    setFormData({
+      name: source.name,
+      url: source.url,
+      category: source.category,
+      pollIntervalMinutes: source.pollIntervalMinutes,
+      autoPublish: source.autoPublish
+    })
+    setDialogOpen(true)
+  }
+
+  const handleInputChange = (field: string, value: any) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: value
+    }))
+  }
+
+  const validateForm = () => {
+    if (!formData.name.trim()) {
+      alert('Please enter a source name')
+      return false
+    }
+    try {
+      new URL(formData.url.trim())
+    } catch {
+      alert('Please enter a valid feed URL')
+      return false
+    }
+    if (!formData.category) {
+      alert('Please select a default category')
+      return false
+    }
+    if (!Number.isInteger(formData.pollIntervalMinutes) || formData.pollIntervalMinutes < 5) {
+      alert('Polling interval must be at least 5 minutes')
+      return false
+    }
+    return true
+  }
+
+  const handleSave = async () => {
+    if (!validateForm()) return
+
+    setSaving(true)
+    try {
+      const sourceData: Partial<FeedSource> = {
+        name: formData.name.trim(),
+        url: formData.url.trim(),
+        category: formData.category,
+        pollIntervalMinutes: formData.pollIntervalMinutes,
+        autoPublish: formData.autoPublish
+      }
+
+      const result = editingId
+        ? await feedSourceService.updateFeedSource(editingId, sourceData)
+        : await feedSourceService.createFeedSource(sourceData)
+
+      if (result) {
+        setDialogOpen(false)
+        await loadSources()
+      } else {
+        alert('Failed to save feed source. Please try again.')
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleTogglePaused = async (source: FeedSource) => {
+    await feedSourceService.updateFeedSource(source.id, { isActive: !source.isActive })
+    await loadSources()
+  }
+
+  const handleFetchNow = async (source: FeedSource) => {
+    if (ingesting.current) {
+      alert('A fetch is already running. Try again once it finishes.')
+      return
+    }
+    ingesting.current = true
+    setFetchingId(source.id)
+    try {
+      await feedIngestionService.ingestSource(source)
+      await loadSources()
+    } finally {
+      ingesting.current = false
+      setFetchingId(null)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    if (window.confirm('Are you sure you want to delete this feed source?')) {
+      await feedSourceService.deleteFeedSource(id)
+      await loadSources()
+    }
+  }
+
+  const formatDateTime = (dateString?: string) => {
+    if (!dateString) return 'Never'
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
+
+  const getCategoryName = (categoryId: string) => {
+    return categories.find(cat => cat.id === categoryId)?.name || categoryId
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Feed Sources</CardTitle>
+        <Button size="sm" onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Source
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading sources...</p>
+        ) : sources.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No feed sources yet. Add an RSS, Atom or JSON Feed URL to start aggregating.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Interval</TableHead>
+                <TableHead>Mode</TableHead>
+                <TableHead>Last Fetch</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sources.map((source) => (
+                <TableRow key={source.id}>
+                  <TableCell>
+                    <div>
+                      <div className="font-medium flex items-center gap-2">
+                        {source.name}
+                        {!source.isActive && <Badge variant="secondary">Paused</Badge>}
+                      </div>
+                      <div className="text-sm text-muted-foreground line-clamp-1">
+                        {source.url}
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>{getCategoryName(source.category)}</TableCell>
+                  <TableCell>{source.pollIntervalMinutes} min</TableCell>
+                  <TableCell>
+                    <Badge variant={source.autoPublish ? 'default' : 'outline'}>
+                      {source.autoPublish ? 'Auto-publish' : 'Review queue'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{formatDateTime(source.lastFetchedAt)}</div>
+                    {source.lastError && (
+                      <div className="flex items-center gap-1 text-xs text-destructive">
+                        <AlertCircle className="h-3 w-3" />
+                        <span className="line-clamp-1">{source.lastError}</span>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{source.itemCount}</div>
+                    {source.lastFetchedAt && (
+                      <div className="text-xs text-muted-foreground">
+                        Last: {source.lastCreatedCount} new, {source.lastSkippedCount} skipped
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleFetchNow(source)}
+                        disabled={fetchingId === source.id}
+                      >
+                        <RefreshCw className={`h-4 w-4 ${fetchingId === source.id ? 'animate-spin' : ''}`} />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleTogglePaused(source)}>
+                        {source.isActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openEditDialog(source)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(source.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Feed Source' : 'Add Feed Source'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="sourceName">Name</Label>
+              <Input
+                id="sourceName"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                placeholder="e.g., Vercel Blog"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="sourceFeedUrl">Feed URL</Label>
+              <Input
+                id="sourceFeedUrl"
+                value={formData.url}
+                onChange={(e) => handleInputChange('url', e.target.value)}
+                placeholder="https://example.com/feed.xml"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="sourceCategory">Default Category</Label>
+              <Select value={formData.category} onValueChange={(value) => handleInputChange('category', value)}>
+                <SelectTrigger id="sourceCategory" className="mt-1">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="pollInterval">Polling Interval (minutes)</Label>
+              <Input
+                id="pollInterval"
+                type="number"
+                min={5}
+                value={formData.pollIntervalMinutes}
+                onChange={(e) => handleInputChange('pollIntervalMinutes', Number(e.target.value))}
+                className="mt-1"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="autoPublish"
+                checked={formData.autoPublish}
+                onCheckedChange={(checked) => handleInputChange('autoPublish', checked)}
+              />
+              <Label htmlFor="autoPublish">
+                {formData.autoPublish ? 'Auto-publish new items' : 'Send new items to review queue'}
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Source'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react'
+import { History, RotateCcw, GitCompare } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Checkbox } from '../ui/checkbox'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog'
+import { ScrollArea } from '../ui/scroll-area'
+import { diffLines, type DiffRow } from '../../lib/diff'
+import type { Actor } from '../../lib/permissions'
+import { articleService, type Article } from '../../services/articleService'
+import { revisionService, type ArticleRevision } from '../../services/revisionService'
+
+const DIFF_FIELDS = [
+  { key: 'title', label: 'Title' },
+  { key: 'excerpt', label: 'Excerpt' },
+  { key: 'content', label: 'Content' }
+] as const
+
+interface RevisionHistoryPanelProps {
+  articleId: string
+  editor?: Actor
+  onRestored: (article: Article) => void
+}
+
+export default function RevisionHistoryPanel({ articleId, editor, onRestored }: RevisionHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<ArticleRevision[]>([])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [compareOpen, setCompareOpen] = useState(false)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadRevisions(articleId)
+  }, [articleId])
+
+  const loadRevisions = async (revisionArticleId: string) => {
+    const revisionsData = await revisionService.getRevisions(revisionArticleId)
+    setRevisions(revisionsData)
+    // Default comparison: the previous revision against the latest one
+    setSelectedIds(revisionsData.slice(0, 2).map(r => r.id).reverse())
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(selected => selected !== id)
+      return [...prev, id].slice(-2)
+    })
+  }
+
+  const handleRestore = async (revision: ArticleRevision) => {
+    if (!window.confirm('Restore this revision? The current version stays in the history.')) return
+
+    setRestoringId(revision.id)
+    try {
+      const restored = await articleService.restoreRevision(revision, editor)
+      if (restored) {
+        onRestored(restored)
+        await loadRevisions(articleId)
+      } else {
+        alert('Failed to restore revision. Please try again.')
+      }
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
+
+  // Older revision always goes on the left
+  const [left, right] = revisions
+    .filter(r => selectedIds.includes(r.id))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+  const rowClassName = (row: DiffRow, side: 'left' | 'right') => {
+    if (row.type === 'same') return ''
+    if (side === 'left' && row.left !== null) return 'bg-red-50 text-red-900'
+    if (side === 'right' && row.right !== null) return 'bg-green-50 text-green-900'
+    return 'bg-muted/50'
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          History
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!left || !right}
+          onClick={() => setCompareOpen(true)}
+        >
+          <GitCompare className="mr-2 h-4 w-4" />
+          Compare
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {revisions.map((revision, index) => (
+              <div key={revision.id} className="flex items-start gap-3">
+                <Checkbox
+                  checked={selectedIds.includes(revision.id)}
+                  onCheckedChange={() => toggleSelected(revision.id)}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium">
+                    {formatDateTime(revision.createdAt)}
+                    {index === 0 && <Badge variant="secondary" className="ml-2">Current</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {revision.editorName || revision.editorId}
+                    {revision.note && ` • ${revision.note}`}
+                  </div>
+                  {revision.changedFields.length > 0 && index < revisions.length - 1 && (
+                    <div className="text-xs text-muted-foreground line-clamp-1">
+                      Changed: {revision.changedFields.join(', ')}
+                    </div>
+                  )}
+                </div>
+                {index > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoringId !== null}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={compareOpen} onOpenChange={setCompareOpen}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Compare Revisions</DialogTitle>
+          </DialogHeader>
+          {left && right && (
+            <ScrollArea className="max-h-[70vh] pr-4">
+              <div className="grid grid-cols-2 gap-4 mb-4 text-sm font-medium">
+                <div>{formatDateTime(left.createdAt)} • {left.editorName || left.editorId}</div>
+                <div>{formatDateTime(right.createdAt)} • {right.editorName || right.editorId}</div>
+              </div>
+              <div className="space-y-6">
+                {DIFF_FIELDS.map(({ key, label }) => {
+                  const rows = diffLines(left.snapshot[key] || '', right.snapshot[key] || '')
+                  const unchanged = rows.every(row => row.type === 'same')
+
+                  return (
+                    <div key={key}>
+                      <h4 className="font-semibold mb-2 flex items-center gap-2">
+                        {label}
+                        {unchanged && <Badge variant="outline">Unchanged</Badge>}
+                      </h4>
+                      <div className="grid grid-cols-2 gap-4 font-mono text-xs">
+                        {rows.map((row, rowIndex) => (
+                          <div key={rowIndex} className="contents">
+                            <div className={`px-2 py-1 rounded whitespace-pre-wrap break-words ${rowClassName(row, 'left')}`}>
+                              {row.left ?? ''}
+                            </div>
+                            <div className={`px-2 py-1 rounded whitespace-pre-wrap break-words ${rowClassName(row, 'right')}`}>
+                              {row.right ?? ''}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,55 @@
+import { truncateText, SEO_TITLE_LIMIT, type PageMeta } from '../../lib/seo'
+
+interface SeoPreviewProps {
+  meta: PageMeta
+}
+
+function displayHost(url: string) {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
+
+// Approximations of a search result and a large social card, so authors can see truncation
+export default function SeoPreview({ meta }: SeoPreviewProps) {
+  const image = meta.openGraph['og:image']
+  const url = meta.openGraph['og:url'] || meta.canonical
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-xs font-medium text-muted-foreground uppercase mb-2">Search result</p>
+        <div className="rounded-md border p-4 bg-background">
+          <p className="text-xs text-muted-foreground truncate">{url}</p>
+          <p className="text-lg text-blue-700 dark:text-blue-400 leading-snug">
+            {truncateText(meta.title, SEO_TITLE_LIMIT)}
+          </p>
+          <p className="text-sm text-muted-foreground line-clamp-2">{meta.description}</p>
+          {meta.noindex && (
+            <p className="text-xs text-destructive mt-2">Hidden from search engines</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-muted-foreground uppercase mb-2">Social card</p>
+        <div className="rounded-md border overflow-hidden bg-background max-w-md">
+          {image ? (
+            <img src={image} alt="" className="w-full aspect-[1.91/1] object-cover" />
+          ) : (
+            <div className="w-full aspect-[1.91/1] bg-muted flex items-center justify-center text-sm text-muted-foreground">
+              No image
+            </div>
+          )}
+          <div className="p-3 border-t">
+            <p className="text-xs text-muted-foreground uppercase">{displayHost(url)}</p>
+            <p className="font-semibold line-clamp-1">{meta.openGraph['og:title']}</p>
+            <p className="text-sm text-muted-foreground line-clamp-2">{meta.openGraph['og:description']}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
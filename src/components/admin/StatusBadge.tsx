@@ -0,0 +1,14 @@
+import { Badge } from '../ui/badge'
+import { STATUS_LABELS, type ArticleStatus } from '../../services/articleService'
+
+const statusClassNames: Record<ArticleStatus, string> = {
+  draft: 'bg-slate-100 text-slate-700 hover:bg-slate-100',
+  in_review: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+  scheduled: 'bg-blue-100 text-blue-800 hover:bg-blue-100',
+  published: 'bg-green-100 text-green-800 hover:bg-green-100',
+  archived: 'bg-zinc-200 text-zinc-600 hover:bg-zinc-200'
+}
+
+export default function StatusBadge({ status }: { status: ArticleStatus }) {
+  return <Badge className={statusClassNames[status]}>{STATUS_LABELS[status]}</Badge>
+}
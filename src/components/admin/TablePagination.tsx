@@ -0,0 +1,72 @@
+import type { MouseEvent } from 'react'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '../ui/pagination'
+
+interface TablePaginationProps {
+  page: number
+  pageCount: number
+  onPageChange: (page: number) => void
+}
+
+// First, last and the pages around the current one; null marks a gap
+function visiblePages(page: number, pageCount: number): (number | null)[] {
+  const pages: (number | null)[] = []
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p)
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null)
+    }
+  }
+  return pages
+}
+
+export default function TablePagination({ page, pageCount, onPageChange }: TablePaginationProps) {
+  if (pageCount <= 1) return null
+
+  const goTo = (target: number) => (event: MouseEvent) => {
+    event.preventDefault()
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target)
+    }
+  }
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(page - 1)}
+            className={page === 1 ? 'pointer-events-none opacity-50' : ''}
+          />
+        </PaginationItem>
+        {visiblePages(page, pageCount).map((p, index) => (
+          <PaginationItem key={p ?? `gap-${index}`}>
+            {p === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                {p}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(page + 1)}
+            className={page === pageCount ? 'pointer-events-none opacity-50' : ''}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  )
+}
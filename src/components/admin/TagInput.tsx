@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Badge } from '../ui/badge'
+import { Input } from '../ui/input'
+import { slugify } from '../../lib/slugify'
+import { matchTags, tagMatchesSlug, type Tag } from '../../services/tagService'
+
+interface TagInputProps {
+  value: string[]
+  tags: Tag[]
+  onChange: (tags: string[]) => void
+}
+
+export default function TagInput({ value, tags, onChange }: TagInputProps) {
+  const [query, setQuery] = useState('')
+  const [open, setOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const selectedSlugs = value.map(name => slugify(name))
+  const isSelected = (tag: Tag) => selectedSlugs.some(slug => tagMatchesSlug(tag, slug))
+  const suggestions = matchTags(tags, query).filter(tag => !isSelected(tag))
+  const querySlug = slugify(query)
+  // Offer to create a tag only when nothing existing already answers to the typed slug
+  const canCreate = !!querySlug
+    && !selectedSlugs.includes(querySlug)
+    && !tags.some(tag => tagMatchesSlug(tag, querySlug))
+  const options = [...suggestions.map(tag => tag.name), ...(canCreate ? [query.trim()] : [])]
+
+  const addTag = (name: string) => {
+    const slug = slugify(name)
+    if (slug && !selectedSlugs.includes(slug)) {
+      // Aliases are swapped for the tag's own name so the list shows what will be saved
+      const existing = tags.find(tag => tagMatchesSlug(tag, slug))
+      onChange([...value, existing ? existing.name : name.trim()])
+    }
+    setQuery('')
+    setHighlighted(0)
+  }
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setOpen(true)
+      setHighlighted(prev => Math.min(prev + 1, options.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlighted(prev => Math.max(prev - 1, 0))
+    } else if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      if (options[highlighted]) addTag(options[highlighted])
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      removeTag(value[value.length - 1])
+    } else if (e.key === 'Escape') {
+      setOpen(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setHighlighted(0)
+            setOpen(true)
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          placeholder="Add tag..."
+          role="combobox"
+          aria-expanded={open && options.length > 0}
+          aria-autocomplete="list"
+        />
+        {open && options.length > 0 && (
+          <ul
+            role="listbox"
+            className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {suggestions.map((tag, index) => (
+              <li
+                key={tag.id}
+                role="option"
+                aria-selected={index === highlighted}
+                // Keep focus in the input so the list doesn't close before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag.name)}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`flex items-center justify-between rounded-sm px-2 py-1.5 text-sm cursor-pointer ${
+                  index === highlighted ? 'bg-accent text-accent-foreground' : ''
+                }`}
+              >
+                <span>{tag.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {tag.usageCount} published
+                </span>
+              </li>
+            ))}
+            {canCreate && (
+              <li
+                role="option"
+                aria-selected={highlighted === suggestions.length}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(query)}
+                onMouseEnter={() => setHighlighted(suggestions.length)}
+                className={`flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm cursor-pointer ${
+                  highlighted === suggestions.length ? 'bg-accent text-accent-foreground' : ''
+                }`}
+              >
+                <Plus className="h-3 w-3" />
+                Create "{query.trim()}"
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {value.map((tag) => (
+          <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+            {tag}
+            <X
+              className="h-3 w-3 cursor-pointer"
+              onClick={() => removeTag(tag)}
+            />
+          </Badge>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,312 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Edit, Trash2, Merge, Tags, ExternalLink } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import { isValidSlug, slugify } from '../../lib/slugify'
+import { tagService, type Tag } from '../../services/tagService'
+
+const emptyForm = {
+  name: '',
+  slug: '',
+  aliases: ''
+}
+
+export default function TagsPanel() {
+  const [tags, setTags] = useState<Tag[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState('')
+  const [editing, setEditing] = useState<Tag | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [merging, setMerging] = useState<Tag | null>(null)
+  const [mergeTarget, setMergeTarget] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [migrating, setMigrating] = useState(false)
+
+  useEffect(() => {
+    loadTags()
+  }, [])
+
+  const loadTags = async () => {
+    try {
+      const tagsData = await tagService.getTags()
+      setTags(tagsData.sort((a, b) => b.usageCount - a.usageCount || a.name.localeCompare(b.name)))
+    } catch (error) {
+      console.error('Error loading tags:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const visibleTags = filter.trim()
+    ? tags.filter(tag => tag.name.toLowerCase().includes(filter.trim().toLowerCase()))
+    : tags
+
+  const openEditDialog = (tag: Tag) => {
+    setEditing(tag)
+    setFormData({
+      name: tag.name,
+      slug: tag.slug,
+      aliases: tag.aliases.join(', ')
+    })
+  }
+
+  const openMergeDialog = (tag: Tag) => {
+    setMerging(tag)
+    setMergeTarget('')
+  }
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: value
+    }))
+  }
+
+  const handleSave = async () => {
+    if (!editing) return
+    if (!formData.name.trim()) {
+      alert('Please enter a name')
+      return
+    }
+    if (formData.slug.trim() && !isValidSlug(formData.slug.trim())) {
+      alert('Slugs may only contain lowercase letters, numbers and single dashes')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const updated = await tagService.updateTag(editing.id, {
+        name: formData.name.trim(),
+        slug: formData.slug.trim() || undefined,
+        aliases: formData.aliases.split(',').map(alias => alias.trim()).filter(Boolean)
+      })
+
+      if (updated) {
+        setEditing(null)
+        await loadTags()
+      } else {
+        alert('Failed to save tag. The slug or an alias may already belong to another tag.')
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleMerge = async () => {
+    if (!merging || !mergeTarget) return
+    const target = tags.find(tag => tag.id === mergeTarget)
+    if (!window.confirm(`Merge "${merging.name}" into "${target?.name}"? Articles tagged ${merging.name} will be retagged.`)) return
+
+    setSaving(true)
+    try {
+      const merged = await tagService.mergeTags(merging.id, mergeTarget)
+      if (merged) {
+        setMerging(null)
+        await loadTags()
+      } else {
+        alert('Failed to merge tags. Please try again.')
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (tag: Tag) => {
+    if (window.confirm('Are you sure you want to delete this tag?')) {
+      // Drafts and archived articles keep a tag in use even when none of its articles are live
+      if (!(await tagService.deleteTag(tag.id))) {
+        alert(`${tag.name} is still used on articles. Merge it into another tag instead.`)
+      }
+      await loadTags()
+    }
+  }
+
+  const handleMigrate = async () => {
+    if (!window.confirm('Convert the tags on existing articles into tag entries? Articles already converted are skipped.')) return
+
+    setMigrating(true)
+    try {
+      const result = await tagService.migrateLegacyTags()
+      alert(`Updated ${result.articlesUpdated} articles and created ${result.tagsCreated} tags.`)
+      await loadTags()
+    } finally {
+      setMigrating(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Tags</CardTitle>
+        <div className="flex gap-2">
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter tags..."
+            className="h-9 w-48"
+          />
+          <Button size="sm" variant="outline" onClick={handleMigrate} disabled={migrating}>
+            <Tags className="mr-2 h-4 w-4" />
+            {migrating ? 'Migrating...' : 'Migrate existing tags'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading tags...</p>
+        ) : visibleTags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {filter.trim() ? 'No tags match that filter.' : 'No tags yet. They are created as articles are tagged.'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tag</TableHead>
+                <TableHead>Aliases</TableHead>
+                <TableHead>Published</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleTags.map((tag) => (
+                <TableRow key={tag.id}>
+                  <TableCell>
+                    <div className="font-medium">{tag.name}</div>
+                    <div className="text-sm text-muted-foreground">/tag/{tag.slug}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {tag.aliases.length === 0 && <span className="text-muted-foreground">—</span>}
+                      {tag.aliases.map((alias) => (
+                        <Badge key={alias} variant="outline">{alias}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{tag.usageCount}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link to={`/tag/${tag.slug}`}>
+                          <ExternalLink className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openEditDialog(tag)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openMergeDialog(tag)} aria-label="Merge">
+                        <Merge className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(tag)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Tag</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="tagName">Name</Label>
+              <Input
+                id="tagName"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tagSlug">Slug</Label>
+              <Input
+                id="tagSlug"
+                value={formData.slug}
+                onChange={(e) => handleInputChange('slug', e.target.value)}
+                placeholder={slugify(formData.name)}
+                className="mt-1"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                The old slug is kept as an alias so existing links still work.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="tagAliases">Aliases</Label>
+              <Input
+                id="tagAliases"
+                value={formData.aliases}
+                onChange={(e) => handleInputChange('aliases', e.target.value)}
+                placeholder="e.g., js, ecmascript"
+                className="mt-1"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Comma-separated. Tagging an article with an alias applies this tag instead.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!merging} onOpenChange={(open) => !open && setMerging(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge "{merging?.name}"</DialogTitle>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="mergeTarget">Merge into</Label>
+            <Select value={mergeTarget} onValueChange={setMergeTarget}>
+              <SelectTrigger id="mergeTarget" className="mt-1">
+                <SelectValue placeholder="Select a tag" />
+              </SelectTrigger>
+              <SelectContent>
+                {tags.filter(tag => tag.id !== merging?.id).map((tag) => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    {tag.name} ({tag.usageCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-2">
+              {merging?.name} becomes an alias of the selected tag and is removed.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMerging(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={saving || !mergeTarget}>
+              {saving ? 'Merging...' : 'Merge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
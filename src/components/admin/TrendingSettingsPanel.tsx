@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react'
+import { Pin, RotateCcw, Save, RefreshCw } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import { DEFAULT_TRENDING_SETTINGS, type EngagementCounts, type TrendingSettings } from '../../lib/trending'
+import { articleService, type TrendingArticle } from '../../services/articleService'
+
+const AUTOMATIC = 'automatic'
+
+const WEIGHT_FIELDS: { key: keyof EngagementCounts, label: string }[] = [
+  { key: 'views', label: 'Views' },
+  { key: 'likes', label: 'Likes' },
+  { key: 'bookmarks', label: 'Bookmarks' },
+  { key: 'shares', label: 'Shares' }
+]
+
+export default function TrendingSettingsPanel() {
+  const [settings, setSettings] = useState<TrendingSettings>(DEFAULT_TRENDING_SETTINGS)
+  const [ranking, setRanking] = useState<TrendingArticle[]>([])
+  const [pinnedId, setPinnedId] = useState<string>(AUTOMATIC)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const loadSettings = async () => {
+    try {
+      const [savedSettings, pinned] = await Promise.all([
+        articleService.getTrendingSettings(),
+        articleService.getPinnedFeaturedId()
+      ])
+      setSettings(savedSettings)
+      setPinnedId(pinned || AUTOMATIC)
+      setRanking(await articleService.getTrendingRanking(savedSettings))
+    } catch (error) {
+      console.error('Error loading trending settings:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    setLoading(true)
+    try {
+      setRanking(await articleService.getTrendingRanking(settings))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (settings.gravity <= 0 || settings.windowDays < 1) {
+      alert('Gravity must be above 0 and the window at least 1 day.')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const saved = await articleService.saveTrendingSettings(settings)
+      if (!saved) {
+        alert('Failed to save trending settings. Please try again.')
+        return
+      }
+      await handlePreview()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePinChange = async (value: string) => {
+    const saved = await articleService.pinFeaturedArticle(value === AUTOMATIC ? null : value)
+    if (saved) {
+      setPinnedId(value)
+    } else {
+      alert('Failed to update the featured article. Please try again.')
+    }
+  }
+
+  const setWeight = (key: keyof EngagementCounts, value: string) => {
+    setSettings(prev => ({ ...prev, weights: { ...prev.weights, [key]: Number(value) || 0 } }))
+  }
+
+  // Any recent published article can be pinned; the ranking already loaded them
+  const pinOptions = ranking.map(({ article }) => article)
+
+  return (
+    <div className="grid gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Pin className="h-4 w-4" />
+            Featured Article
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Select value={pinnedId} onValueChange={handlePinChange}>
+            <SelectTrigger className="max-w-xl">
+              <SelectValue placeholder="Choose the featured article" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTOMATIC}>Automatic (newest published article)</SelectItem>
+              {/* An older pinned article is no longer a candidate but must stay selectable */}
+              {pinnedId !== AUTOMATIC && !pinOptions.some(article => article.id === pinnedId) && (
+                <SelectItem value={pinnedId}>Pinned article ({pinnedId})</SelectItem>
+              )}
+              {pinOptions.map((article) => (
+                <SelectItem key={article.id} value={article.id}>
+                  {article.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            A pinned article stays featured on the home page until it is unpinned or no longer published.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Trending Weights</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {WEIGHT_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`weight-${key}`}>{label}</Label>
+                <Input
+                  id={`weight-${key}`}
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={settings.weights[key]}
+                  onChange={(e) => setWeight(key, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="gravity">Gravity</Label>
+              <Input
+                id="gravity"
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={settings.gravity}
+                onChange={(e) => setSettings(prev => ({ ...prev, gravity: Number(e.target.value) || 0 }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="windowDays">Window (days)</Label>
+              <Input
+                id="windowDays"
+                type="number"
+                min={1}
+                value={settings.windowDays}
+                onChange={(e) => setSettings(prev => ({ ...prev, windowDays: parseInt(e.target.value, 10) || 0 }))}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Score = weighted engagement within the window ÷ (hours since publishing + 2)<sup>gravity</sup>.
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="mr-2 h-4 w-4" />
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+            <Button variant="outline" onClick={handlePreview} disabled={loading}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Preview
+            </Button>
+            <Button variant="ghost" onClick={() => setSettings(DEFAULT_TRENDING_SETTINGS)}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset to defaults
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Ranking</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading ranking...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Title</TableHead>
+                  {WEIGHT_FIELDS.map(({ key, label }) => (
+                    <TableHead key={key} className="text-right">{label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Score</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ranking.slice(0, 10).map(({ article, engagement, score }, index) => (
+                  <TableRow key={article.id}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell className="font-medium line-clamp-1">{article.title}</TableCell>
+                    {WEIGHT_FIELDS.map(({ key }) => (
+                      <TableCell key={key} className="text-right">{engagement[key]}</TableCell>
+                    ))}
+                    <TableCell className="text-right">{score.toFixed(3)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
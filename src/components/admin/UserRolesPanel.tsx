@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import { ROLE_LABELS, ROLES, type Actor, type Role } from '../../lib/permissions'
+import { roleService, type UserRole } from '../../services/roleService'
+
+interface UserRolesPanelProps {
+  actor: Actor
+}
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  reader: 'Can comment, like and save articles',
+  contributor: 'Can write drafts and submit them for review',
+  editor: 'Can edit, publish and delete any article and moderate comments',
+  admin: 'Everything, plus site settings and user roles'
+}
+
+export default function UserRolesPanel({ actor }: UserRolesPanelProps) {
+  const [users, setUsers] = useState<UserRole[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadUsers()
+  }, [])
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await roleService.getUsers())
+    } catch (error) {
+      console.error('Error loading users:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRoleChange = async (user: UserRole, role: Role) => {
+    if (user.userId === actor.id && role !== 'admin'
+      && !window.confirm('You will lose access to this page. Continue?')) {
+      return
+    }
+
+    const saved = await roleService.setRole(user.userId, role, actor)
+    if (saved) {
+      setUsers(prev => prev.map(u => u.userId === user.userId ? { ...u, role } : u))
+    } else {
+      alert('Failed to update role. The site needs at least one admin, and configured admins keep their role.')
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    })
+  }
+
+  return (
+    <div className="grid gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Users & Roles</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading users...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead>Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user.userId}>
+                    <TableCell>
+                      <div className="font-medium">{user.displayName || user.email || user.userId}</div>
+                      {user.displayName && user.email && (
+                        <div className="text-sm text-muted-foreground">{user.email}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(user.createdAt)}</TableCell>
+                    <TableCell>
+                      <Select value={user.role} onValueChange={(value) => handleRoleChange(user, value as Role)}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Roles</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {ROLES.map((role) => (
+            <div key={role} className="flex items-center justify-between text-sm">
+              <span className="font-medium">{ROLE_LABELS[role]}</span>
+              <span className="text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
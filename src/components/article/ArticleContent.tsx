@@ -0,0 +1,45 @@
+import type { MouseEvent } from 'react'
+import { renderArticleHtml, type RenderableContent } from '../../lib/articleRenderer'
+import 'highlight.js/styles/github-dark.css'
+
+interface ArticleContentProps {
+  article: RenderableContent
+  className?: string
+}
+
+export default function ArticleContent({ article, className = '' }: ArticleContentProps) {
+  const html = renderArticleHtml(article)
+
+  // Copy buttons are plain markup inside the rendered HTML, so clicks are handled by delegation
+  const handleClick = async (event: MouseEvent<HTMLDivElement>) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>('[data-copy-code]')
+    const code = button?.closest('.code-block')?.querySelector('code')
+    if (!button || !code) return
+
+    try {
+      await navigator.clipboard.writeText(code.textContent || '')
+      button.textContent = 'Copied'
+    } catch (error) {
+      console.error('Error copying code:', error)
+      button.textContent = 'Failed'
+    }
+    setTimeout(() => { button.textContent = 'Copy' }, 2000)
+  }
+
+  return (
+    <div 
+      className={`prose prose-lg max-w-none 
+        prose-headings:font-bold prose-headings:text-foreground
+        prose-h1:text-3xl prose-h2:text-2xl prose-h3:text-xl 
+        prose-p:text-muted-foreground prose-p:leading-relaxed prose-p:mb-4
+        prose-blockquote:border-l-4 prose-blockquote:border-primary 
+        prose-blockquote:pl-4 prose-blockquote:italic prose-blockquote:text-muted-foreground
+        prose-ul:text-muted-foreground prose-ol:text-muted-foreground
+        prose-li:mb-2 prose-strong:text-foreground
+        prose-a:text-primary prose-a:no-underline hover:prose-a:underline
+        prose-table:text-sm prose-th:text-foreground ${className}`}
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  )
+}
@@ -0,0 +1,35 @@
+import { AtSign, Github, Globe, Linkedin, Twitter } from 'lucide-react'
+import { Button } from '../ui/button'
+import { isWebUrl, SOCIAL_NETWORKS, type AuthorSocials, type SocialNetwork } from '../../services/authorService'
+
+const SOCIAL_ICONS: Record<SocialNetwork, typeof Globe> = {
+  website: Globe,
+  twitter: Twitter,
+  github: Github,
+  linkedin: Linkedin,
+  mastodon: AtSign
+}
+
+interface AuthorSocialLinksProps {
+  socials: AuthorSocials
+}
+
+export default function AuthorSocialLinks({ socials }: AuthorSocialLinksProps) {
+  const links = SOCIAL_NETWORKS.filter(network => isWebUrl(socials[network] || ''))
+  if (links.length === 0) return null
+
+  return (
+    <div className="flex items-center gap-1">
+      {links.map((network) => {
+        const Icon = SOCIAL_ICONS[network]
+        return (
+          <Button key={network} variant="ghost" size="icon" className="h-8 w-8" asChild>
+            <a href={socials[network]} target="_blank" rel="me noopener noreferrer" aria-label={network}>
+              <Icon className="h-4 w-4" />
+            </a>
+          </Button>
+        )
+      })}
+    </div>
+  )
+}
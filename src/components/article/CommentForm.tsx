@@ -0,0 +1,67 @@
+import { useState } from 'react'
+import { Button } from '../ui/button'
+import { Textarea } from '../ui/textarea'
+import { MAX_COMMENT_LENGTH } from '../../services/commentService'
+
+interface CommentFormProps {
+  initialBody?: string
+  submitLabel: string
+  placeholder?: string
+  autoFocus?: boolean
+  // Resolves to an error message, or null once the comment is saved
+  onSubmit: (body: string) => Promise<string | null>
+  onCancel?: () => void
+}
+
+export default function CommentForm({ initialBody = '', submitLabel, placeholder, autoFocus, onSubmit, onCancel }: CommentFormProps) {
+  const [body, setBody] = useState(initialBody)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!body.trim()) return
+
+    setSubmitting(true)
+    setError(null)
+    try {
+      const submitError = await onSubmit(body)
+      if (submitError) {
+        setError(submitError)
+      } else if (!initialBody) {
+        setBody('')
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        autoFocus={autoFocus}
+        rows={3}
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          **bold**, *italic*, `code` and [links](https://…) are supported.
+        </p>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" size="sm" disabled={submitting || !body.trim()}>
+            {submitting ? 'Posting...' : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react'
+import { Pencil, Reply, Trash2 } from 'lucide-react'
+import { Avatar, AvatarFallback } from '../ui/avatar'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import CommentForm from './CommentForm'
+import { formatComment } from '../../lib/commentFormat'
+import { isWithinWindow, MAX_THREAD_DEPTH, type CommentNode, type CommentSettings } from '../../services/commentService'
+
+interface CommentItemProps {
+  comment: CommentNode
+  depth: number
+  viewerId: string | null
+  settings: CommentSettings
+  onReply: (parentId: string, body: string) => Promise<string | null>
+  onEdit: (commentId: string, body: string) => Promise<string | null>
+  onDelete: (commentId: string) => Promise<void>
+}
+
+export default function CommentItem({ comment, depth, viewerId, settings, onReply, onEdit, onDelete }: CommentItemProps) {
+  const [mode, setMode] = useState<'view' | 'reply' | 'edit'>('view')
+  const isOwner = !!viewerId && comment.userId === viewerId && !comment.deletedAt
+  const canEdit = isOwner && isWithinWindow(comment, settings.editWindowMinutes)
+  const canDelete = isOwner && isWithinWindow(comment, settings.deleteWindowMinutes)
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
+
+  const handleReply = async (body: string) => {
+    const error = await onReply(comment.id, body)
+    if (!error) setMode('view')
+    return error
+  }
+
+  const handleEdit = async (body: string) => {
+    const error = await onEdit(comment.id, body)
+    if (!error) setMode('view')
+    return error
+  }
+
+  const handleDelete = async () => {
+    if (window.confirm('Are you sure you want to delete this comment?')) {
+      await onDelete(comment.id)
+    }
+  }
+
+  return (
+    <div className={depth > 0 ? 'pl-4 md:pl-6 border-l' : ''}>
+      <div className="flex gap-3 py-3">
+        <Avatar className="h-8 w-8">
+          <AvatarFallback>{comment.authorName.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">{comment.authorName}</span>
+            <span className="text-muted-foreground">{formatDate(comment.createdAt)}</span>
+            {comment.editedAt && !comment.deletedAt && (
+              <span className="text-muted-foreground">(edited)</span>
+            )}
+            {comment.status === 'pending' && (
+              <Badge variant="outline">Awaiting moderation</Badge>
+            )}
+          </div>
+
+          {comment.deletedAt ? (
+            <p className="mt-1 text-sm italic text-muted-foreground">This comment was deleted.</p>
+          ) : mode === 'edit' ? (
+            <div className="mt-2">
+              <CommentForm
+                initialBody={comment.body}
+                submitLabel="Save"
+                autoFocus
+                onSubmit={handleEdit}
+                onCancel={() => setMode('view')}
+              />
+            </div>
+          ) : (
+            <div
+              className="comment-body mt-1 text-sm break-words"
+              dangerouslySetInnerHTML={{ __html: formatComment(comment.body) }}
+            />
+          )}
+
+          {mode === 'view' && !comment.deletedAt && (
+            <div className="mt-1 flex items-center gap-1 -ml-2">
+              {viewerId && comment.status === 'approved' && (
+                <Button variant="ghost" size="sm" onClick={() => setMode('reply')}>
+                  <Reply className="h-3.5 w-3.5 mr-1" />
+                  Reply
+                </Button>
+              )}
+              {canEdit && (
+                <Button variant="ghost" size="sm" onClick={() => setMode('edit')}>
+                  <Pencil className="h-3.5 w-3.5 mr-1" />
+                  Edit
+                </Button>
+              )}
+              {canDelete && (
+                <Button variant="ghost" size="sm" onClick={handleDelete} className="text-destructive hover:text-destructive">
+                  <Trash2 className="h-3.5 w-3.5 mr-1" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          )}
+
+          {mode === 'reply' && (
+            <div className="mt-2">
+              <CommentForm
+                submitLabel="Reply"
+                placeholder={`Reply to ${comment.authorName}...`}
+                autoFocus
+                onSubmit={handleReply}
+                onCancel={() => setMode('view')}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {comment.replies.length > 0 && (
+        <div>
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              depth={Math.min(depth + 1, MAX_THREAD_DEPTH - 1)}
+              viewerId={viewerId}
+              settings={settings}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react'
+import { MessageSquare } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card } from '../ui/card'
+import CommentForm from './CommentForm'
+import CommentItem from './CommentItem'
+import { blink } from '../../blink/client'
+import {
+  buildCommentTree,
+  commentService,
+  DEFAULT_COMMENT_SETTINGS,
+  type Comment,
+  type CommentSettings
+} from '../../services/commentService'
+
+interface CommentSectionProps {
+  articleId: string
+  user: any
+}
+
+export default function CommentSection({ articleId, user }: CommentSectionProps) {
+  const [comments, setComments] = useState<Comment[]>([])
+  const [settings, setSettings] = useState<CommentSettings>(DEFAULT_COMMENT_SETTINGS)
+  const [loading, setLoading] = useState(true)
+  const [notice, setNotice] = useState<string | null>(null)
+  const userId: string | null = user?.id || null
+
+  useEffect(() => {
+    loadComments(articleId, userId)
+  }, [articleId, userId])
+
+  const loadComments = async (id: string, viewerId: string | null) => {
+    setLoading(true)
+    try {
+      const [commentData, settingsData] = await Promise.all([
+        commentService.getComments(id, viewerId),
+        commentService.getSettings()
+      ])
+      setComments(commentData)
+      setSettings(settingsData)
+    } catch (error) {
+      console.error('Error loading comments:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const author = () => ({
+    id: user.id,
+    name: user.displayName || user.email?.split('@')[0] || 'Reader'
+  })
+
+  const handlePost = async (body: string, parentId: string | null = null) => {
+    const result = await commentService.addComment(articleId, body, author(), parentId)
+    if (result.error !== undefined) return result.error
+
+    const saved = result.comment
+    setComments(prev => [...prev, saved])
+    setNotice(saved.status === 'pending'
+      ? 'Thanks! Your comment will appear once a moderator has approved it.'
+      : null)
+    return null
+  }
+
+  const handleEdit = async (commentId: string, body: string) => {
+    const result = await commentService.editComment(commentId, body, user.id)
+    if (result.error !== undefined) return result.error
+
+    const saved = result.comment
+    setComments(prev => prev.map(c => c.id === saved.id ? saved : c))
+    return null
+  }
+
+  const handleDelete = async (commentId: string) => {
+    const result = await commentService.deleteComment(commentId, user.id)
+    if (result.error !== undefined) {
+      alert(result.error)
+      return
+    }
+
+    const saved = result.comment
+    setComments(prev => prev.map(c => c.id === saved.id ? saved : c))
+  }
+
+  const thread = buildCommentTree(comments)
+  const visibleCount = comments.filter(c => c.status === 'approved' && !c.deletedAt).length
+
+  return (
+    <section className="mt-12 pt-8 border-t">
+      <h3 className="font-semibold mb-6 flex items-center gap-2">
+        <MessageSquare className="h-5 w-5" />
+        Comments {visibleCount > 0 && <span className="text-muted-foreground font-normal">({visibleCount})</span>}
+      </h3>
+
+      {user ? (
+        <div className="mb-6">
+          <CommentForm
+            submitLabel="Post Comment"
+            placeholder="Share your thoughts..."
+            onSubmit={(body) => handlePost(body)}
+          />
+          {notice && <p className="mt-2 text-sm text-muted-foreground">{notice}</p>}
+        </div>
+      ) : (
+        <Card className="mb-6 p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">Sign in to join the discussion.</p>
+          <Button size="sm" onClick={() => blink.auth.login()}>Sign In</Button>
+        </Card>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading comments...</p>
+      ) : thread.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet. Be the first to comment!</p>
+      ) : (
+        <div className="divide-y">
+          {thread.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              depth={0}
+              viewerId={userId}
+              settings={settings}
+              onReply={(parentId, body) => handlePost(body, parentId)}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,19 @@
+import type { HighlightSegment } from '../../lib/searchIndex'
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[]
+}
+
+export default function HighlightedText({ segments }: HighlightedTextProps) {
+  return (
+    <>
+      {segments.map((segment, index) => segment.match ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ))}
+    </>
+  )
+}
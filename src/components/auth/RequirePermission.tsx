@@ -0,0 +1,53 @@
+import { Link } from 'react-router-dom'
+import { ArrowLeft, Lock } from 'lucide-react'
+import { Button } from '../ui/button'
+import { blink } from '../../blink/client'
+import { hasPermission, type Actor, type Permission } from '../../lib/permissions'
+
+interface RequirePermissionProps {
+  actor: Actor | null
+  // True while the signed-in user's role is still being looked up
+  loading: boolean
+  permission: Permission
+  children: (actor: Actor) => React.ReactNode
+}
+
+// Route guard: renders the page only for users whose role grants the permission
+export default function RequirePermission({ actor, loading, permission, children }: RequirePermissionProps) {
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (actor && hasPermission(actor, permission)) {
+    return <>{children(actor)}</>
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="text-center max-w-md px-4">
+        <Lock className="h-10 w-10 mx-auto mb-4 text-muted-foreground" />
+        <h1 className="text-2xl font-bold mb-2">
+          {actor ? 'Access denied' : 'Sign in required'}
+        </h1>
+        <p className="text-muted-foreground mb-6">
+          {actor
+            ? "Your account doesn't have permission to view this page. Ask an admin if you need access."
+            : 'Please sign in to continue.'}
+        </p>
+        <div className="flex justify-center gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Articles
+            </Link>
+          </Button>
+          {!actor && <Button onClick={() => blink.auth.login()}>Sign In</Button>}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,20 @@
+import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
-import { Github, Twitter, Linkedin, Mail } from 'lucide-react'
+import { Github, Twitter, Linkedin, Mail, Rss } from 'lucide-react'
+import { usePrerenderData } from '../../hooks/use-prerender-data'
+import { categoryPath } from '../../lib/articleUrl'
+import { categoryService, type CategoryNode } from '../../services/categoryService'
+
+const FOOTER_CATEGORY_LIMIT = 6
 
 export default function Footer() {
+  const prerendered = usePrerenderData()
+  const [categories, setCategories] = useState<CategoryNode[]>(prerendered?.categories || [])
+
+  useEffect(() => {
+    categoryService.getCategoryTree().then(setCategories)
+  }, [])
+
   return (
     <footer className="border-t bg-muted/50">
       <div className="container mx-auto px-4 py-12">
@@ -25,6 +38,9 @@ export default function Footer() {
               <a href="#" className="text-muted-foreground hover:text-primary">
                 <Mail className="h-5 w-5" />
               </a>
+              <a href="/feed.xml" className="text-muted-foreground hover:text-primary" aria-label="RSS feed">
+                <Rss className="h-5 w-5" />
+              </a>
             </div>
           </div>
 
@@ -32,10 +48,11 @@ export default function Footer() {
           <div className="space-y-4">
             <h4 className="font-semibold">Categories</h4>
             <ul className="space-y-2 text-sm">
-              <li><Link to="/?category=ai" className="text-muted-foreground hover:text-primary">Artificial Intelligence</Link></li>
-              <li><Link to="/?category=web-dev" className="text-muted-foreground hover:text-primary">Web Development</Link></li>
-              <li><Link to="/?category=mobile" className="text-muted-foreground hover:text-primary">Mobile Development</Link></li>
-              <li><Link to="/?category=cloud" className="text-muted-foreground hover:text-primary">Cloud Computing</Link></li>
+              {categories.slice(0, FOOTER_CATEGORY_LIMIT).map((cat) => (
+                <li key={cat.id}>
+                  <Link to={categoryPath(cat)} className="text-muted-foreground hover:text-primary">{cat.name}</Link>
+                </li>
+              ))}
             </ul>
           </div>
 
@@ -45,6 +62,7 @@ export default function Footer() {
             <ul className="space-y-2 text-sm">
               <li><a href="#" className="text-muted-foreground hover:text-primary">About</a></li>
               <li><a href="#" className="text-muted-foreground hover:text-primary">Contact</a></li>
+              <li><a href="/feed.xml" className="text-muted-foreground hover:text-primary">RSS Feed</a></li>
               <li><a href="#" className="text-muted-foreground hover:text-primary">Privacy Policy</a></li>
               <li><a href="#" className="text-muted-foreground hover:text-primary">Terms of Service</a></li>
             </ul>
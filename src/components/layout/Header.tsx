@@ -1,26 +1,42 @@
+import { useState, useEffect } from 'react'
 import { Link, useLocation } from 'react-router-dom'
-import { Search, Menu, User, PenTool } from 'lucide-react'
+import { Search, Menu, User, PenTool, Bookmark } from 'lucide-react'
 import { Button } from '../ui/button'
 import { Input } from '../ui/input'
 import { Sheet, SheetContent, SheetTrigger } from '../ui/sheet'
 import { Avatar, AvatarFallback } from '../ui/avatar'
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../ui/dropdown-menu'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from '../ui/dropdown-menu'
+import NotificationBell from './NotificationBell'
 import { blink } from '../../blink/client'
+import { usePrerenderData } from '../../hooks/use-prerender-data'
+import { categoryPath } from '../../lib/articleUrl'
+import { hasPermission, ROLE_LABELS, type Actor } from '../../lib/permissions'
+import { categoryService, type CategoryNode } from '../../services/categoryService'
+
+// Top-level categories beyond this only show up on the home page sidebar
+const NAV_CATEGORY_LIMIT = 5
 
 interface HeaderProps {
   user: any
+  actor: Actor | null
 }
 
-export default function Header({ user }: HeaderProps) {
+export default function Header({ user, actor }: HeaderProps) {
   const location = useLocation()
+  const prerendered = usePrerenderData()
+  const [categories, setCategories] = useState<CategoryNode[]>(prerendered?.categories || [])
+
+  useEffect(() => {
+    categoryService.getCategoryTree().then(setCategories)
+  }, [])
 
   const navigation = [
-    { name: 'Home', href: '/' },
-    { name: 'AI', href: '/?category=ai' },
-    { name: 'Web Dev', href: '/?category=web-dev' },
-    { name: 'Mobile', href: '/?category=mobile' },
-    { name: 'Cloud', href: '/?category=cloud' },
-    { name: 'DevOps', href: '/?category=devops' }
+    { name: 'Home', href: '/', active: location.pathname === '/' },
+    ...categories.slice(0, NAV_CATEGORY_LIMIT).map(cat => ({
+      name: cat.name,
+      href: categoryPath(cat),
+      active: location.pathname === categoryPath(cat)
+    }))
   ]
 
   const handleSignOut = () => {
@@ -46,7 +62,7 @@ export default function Header({ user }: HeaderProps) {
                 key={item.name}
                 to={item.href}
                 className={`text-sm font-medium transition-colors hover:text-primary ${
-                  location.pathname === item.href || location.search.includes(item.href.split('=')[1] || '')
+                  item.active
                     ? 'text-primary'
                     : 'text-muted-foreground'
                 }`}
@@ -69,6 +85,12 @@ export default function Header({ user }: HeaderProps) {
 
           {/* User Menu */}
           <div className="flex items-center space-x-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/reading-list" aria-label="Reading list">
+                <Bookmark className="h-5 w-5" />
+              </Link>
+            </Button>
+            {user && <NotificationBell userId={user.id} />}
             {user ? (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -81,11 +103,24 @@ export default function Header({ user }: HeaderProps) {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent className="w-56" align="end" forceMount>
+                  {actor && (
+                    <DropdownMenuLabel className="font-normal">
+                      <div className="text-sm font-medium truncate">{actor.name}</div>
+                      <div className="text-xs text-muted-foreground">{ROLE_LABELS[actor.role]}</div>
+                    </DropdownMenuLabel>
+                  )}
+                  {hasPermission(actor, 'dashboard:view') && (
+                    <DropdownMenuItem asChild>
+                      <Link to="/admin">Admin Dashboard</Link>
+                    </DropdownMenuItem>
+                  )}
+                  {hasPermission(actor, 'article:create') && (
+                    <DropdownMenuItem asChild>
+                      <Link to="/admin/create">Create Post</Link>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem asChild>
-                    <Link to="/admin">Admin Dashboard</Link>
-                  </DropdownMenuItem>
-                  <DropdownMenuItem asChild>
-                    <Link to="/admin/create">Create Post</Link>
+                    <Link to="/reading-list">Reading List</Link>
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleSignOut}>
                     Sign out
@@ -122,6 +157,12 @@ export default function Header({ user }: HeaderProps) {
                         {item.name}
                       </Link>
                     ))}
+                    <Link
+                      to="/reading-list"
+                      className="text-sm font-medium py-2 px-3 rounded-md hover:bg-accent transition-colors"
+                    >
+                      Reading List
+                    </Link>
                   </nav>
                 </div>
               </SheetContent>
@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Bell } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover'
+import { notificationService, type Notification } from '../../services/notificationService'
+
+interface NotificationBellProps {
+  userId: string
+}
+
+export default function NotificationBell({ userId }: NotificationBellProps) {
+  const [notifications, setNotifications] = useState<Notification[]>([])
+
+  useEffect(() => {
+    loadNotifications(userId)
+  }, [userId])
+
+  const loadNotifications = async (id: string) => {
+    setNotifications(await notificationService.getNotifications(id))
+  }
+
+  const unreadCount = notifications.filter(n => !n.readAt).length
+
+  // Opening the list counts as reading it
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || unreadCount === 0) return
+    if (await notificationService.markAllRead(userId)) {
+      const readAt = new Date().toISOString()
+      setNotifications(prev => prev.map(n => n.readAt ? n : { ...n, readAt }))
+    }
+  }
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-primary text-[10px] leading-4 text-primary-foreground">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b px-4 py-3 font-semibold text-sm">Notifications</div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-muted-foreground">No notifications yet.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map((notification) => (
+              <Link
+                key={notification.id}
+                to={`/article/${notification.articleId}`}
+                className={`block px-4 py-3 text-sm hover:bg-accent transition-colors ${notification.readAt ? '' : 'bg-accent/50'}`}
+              >
+                <p>
+                  <span className="font-medium">{notification.actorName}</span> replied to your comment
+                </p>
+                <p className="mt-1 text-muted-foreground line-clamp-2">{notification.message}</p>
+              </Link>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,22 @@
+import { StrictMode } from 'react'
+import { renderToString } from 'react-dom/server'
+import { StaticRouter } from 'react-router-dom'
+import { Toaster } from 'react-hot-toast'
+import App from './App'
+import { PrerenderContext } from './hooks/use-prerender-data'
+import type { PrerenderData } from './lib/prerender'
+
+// Build-time counterpart of main.tsx, used by scripts/prerender.mjs. Effects don't run here, so
+// every page renders from the data it is given, exactly as the client's first render will.
+export function renderApp(data: PrerenderData): string {
+  return renderToString(
+    <StrictMode>
+      <PrerenderContext.Provider value={data}>
+        <StaticRouter location={data.path}>
+          <Toaster position="top-right" />
+          <App />
+        </StaticRouter>
+      </PrerenderContext.Provider>
+    </StrictMode>
+  )
+}
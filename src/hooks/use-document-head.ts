@@ -0,0 +1,50 @@
+import * as React from "react"
+import { serializeJsonLd, type PageMeta } from "../lib/seo"
+
+const MANAGED_ATTRIBUTE = "data-page-head"
+
+// Writes the page's title, meta tags, canonical link and JSON-LD into <head> and removes them
+// again on unmount, restoring the previous title. Pass null while the page is still loading.
+export function useDocumentHead(meta: PageMeta | null) {
+  // Callers build a fresh object every render; only re-apply when the content changes
+  const key = meta ? JSON.stringify(meta) : ""
+
+  React.useEffect(() => {
+    if (!key) return
+    const page: PageMeta = JSON.parse(key)
+
+    const previousTitle = document.title
+    document.title = page.title
+
+    const elements: HTMLElement[] = []
+    const add = (tag: string, attributes: Record<string, string>, text?: string) => {
+      const element = document.createElement(tag)
+      for (const [name, value] of Object.entries(attributes)) {
+        element.setAttribute(name, value)
+      }
+      if (text !== undefined) element.textContent = text
+      element.setAttribute(MANAGED_ATTRIBUTE, "")
+      document.head.appendChild(element)
+      elements.push(element)
+    }
+
+    // Tags left behind by a pre-rendered page are replaced rather than duplicated
+    document.head.querySelectorAll(`[${MANAGED_ATTRIBUTE}]`).forEach((element) => element.remove())
+
+    add("meta", { name: "description", content: page.description })
+    add("link", { rel: "canonical", href: page.canonical })
+    if (page.noindex) add("meta", { name: "robots", content: "noindex" })
+    for (const [property, content] of Object.entries(page.openGraph)) {
+      add("meta", { property, content })
+    }
+    for (const [name, content] of Object.entries(page.twitter)) {
+      add("meta", { name, content })
+    }
+    if (page.jsonLd) add("script", { type: "application/ld+json" }, serializeJsonLd(page.jsonLd))
+
+    return () => {
+      elements.forEach((element) => element.remove())
+      document.title = previousTitle
+    }
+  }, [key])
+}
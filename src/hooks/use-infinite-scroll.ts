@@ -0,0 +1,30 @@
+import * as React from "react"
+
+// Calls onLoadMore whenever the sentinel element (attach the returned callback ref) scrolls into view.
+// Pass enabled=false while a page is loading: re-enabling re-observes, so a sentinel still on screen loads again.
+// Without IntersectionObserver nothing fires and the page's "Load more" button is the only trigger.
+export function useInfiniteScroll<T extends Element>(onLoadMore: () => void, enabled: boolean) {
+  const [sentinel, setSentinel] = React.useState<T | null>(null)
+  const onLoadMoreRef = React.useRef(onLoadMore)
+
+  React.useEffect(() => {
+    onLoadMoreRef.current = onLoadMore
+  }, [onLoadMore])
+
+  React.useEffect(() => {
+    if (!enabled || !sentinel || typeof IntersectionObserver === "undefined") return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current()
+        }
+      },
+      { rootMargin: "400px 0px" }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [enabled, sentinel])
+
+  return setSentinel
+}
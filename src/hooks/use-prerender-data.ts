@@ -0,0 +1,15 @@
+import * as React from "react"
+import { useLocation } from "react-router-dom"
+import type { PrerenderData } from "../lib/prerender"
+
+// Set when the page being shown was pre-rendered; null for pages rendered only in the browser
+export const PrerenderContext = React.createContext<PrerenderData | null>(null)
+
+// The pre-rendered data for the current location. Pages use it for their first render so it
+// matches the static markup, then refresh in the background as usual. After navigating to
+// another path it is no longer returned.
+export function usePrerenderData(): PrerenderData | null {
+  const data = React.useContext(PrerenderContext)
+  const location = useLocation()
+  return data && data.path === location.pathname ? data : null
+}
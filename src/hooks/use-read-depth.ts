@@ -0,0 +1,52 @@
+import * as React from "react"
+
+// Reports each percentage milestone once per key (e.g. article id) as the bottom of the viewport passes
+// that far through the attached element. Attach the returned callback ref to the content element.
+export function useReadDepth<T extends HTMLElement>(
+  key: string | undefined,
+  milestones: readonly number[],
+  onMilestone: (milestone: number) => void
+) {
+  const [element, setElement] = React.useState<T | null>(null)
+  const onMilestoneRef = React.useRef(onMilestone)
+
+  React.useEffect(() => {
+    onMilestoneRef.current = onMilestone
+  }, [onMilestone])
+
+  React.useEffect(() => {
+    if (!key || !element) return
+
+    const reached = new Set<number>()
+    let frame = 0
+
+    const measure = () => {
+      frame = 0
+      const rect = element.getBoundingClientRect()
+      if (rect.height <= 0) return
+
+      const progress = ((window.innerHeight - rect.top) / rect.height) * 100
+      for (const milestone of milestones) {
+        if (progress >= milestone && !reached.has(milestone)) {
+          reached.add(milestone)
+          onMilestoneRef.current(milestone)
+        }
+      }
+    }
+
+    const onScroll = () => {
+      if (!frame) frame = window.requestAnimationFrame(measure)
+    }
+
+    measure()
+    window.addEventListener("scroll", onScroll, { passive: true })
+    window.addEventListener("resize", onScroll)
+    return () => {
+      window.removeEventListener("scroll", onScroll)
+      window.removeEventListener("resize", onScroll)
+      if (frame) window.cancelAnimationFrame(frame)
+    }
+  }, [key, element, milestones])
+
+  return setElement
+}
@@ -0,0 +1,51 @@
+import { Marked } from 'marked'
+import { highlightCodeBlocks, parseFenceInfo } from './highlightCode'
+import { sanitizeHtml } from './sanitizeHtml'
+
+export type ContentFormat = 'html' | 'markdown'
+
+export interface RenderableContent {
+  content: string
+  contentFormat?: ContentFormat
+  contentMarkdown?: string
+}
+
+const markdown = new Marked({
+  gfm: true,
+  renderer: {
+    // Raw HTML inside Markdown is shown as text; authors who need markup use the HTML format
+    html({ text }) {
+      return escapeHtml(text)
+    },
+    // Keeps the fence's {3-5} annotation so highlighting can mark those lines after sanitizing
+    code({ text, lang }) {
+      const { language, highlightLines } = parseFenceInfo(lang)
+      const preAttributes = highlightLines ? ` data-highlight-lines="${highlightLines}"` : ''
+      const codeAttributes = language ? ` class="language-${escapeHtml(language)}"` : ''
+      return `<pre${preAttributes}><code${codeAttributes}>${escapeHtml(text)}\n</code></pre>\n`
+    }
+  }
+})
+
+export function renderMarkdown(source: string): string {
+  return markdown.parse(source, { async: false })
+}
+
+// Single entry point for turning stored article content into HTML, shared by the editor preview and ArticlePage.
+// Content is sanitized on write too, but rows written before that (or edited elsewhere) are cleaned again here.
+// Code highlighting runs last: its markup is generated from escaped text, never from the stored HTML.
+export function renderArticleHtml(article: RenderableContent): string {
+  const html = article.contentFormat === 'markdown' && article.contentMarkdown
+    ? renderMarkdown(article.contentMarkdown)
+    : article.content
+  return highlightCodeBlocks(sanitizeHtml(html))
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
@@ -0,0 +1,9 @@
+// Articles without a slug yet are still reachable by id; ArticlePage redirects once they get one
+export function articlePath(article: { id: string, slug?: string }): string {
+  return `/article/${article.slug || article.id}`
+}
+
+// Category listings have their own path so they can be pre-rendered; "all" is the home page
+export function categoryPath(category: { slug: string }): string {
+  return category.slug === 'all' ? '/' : `/category/${category.slug}`
+}
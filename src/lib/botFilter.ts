@@ -0,0 +1,25 @@
+// Crawlers, link unfurlers, uptime monitors and headless browsers; none of them count as readers
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|headless|phantomjs|puppeteer|playwright|selenium|lighthouse|pagespeed|preview|facebookexternalhit|embedly|quora link|whatsapp|pingdom|uptime|monitor|curl|wget|python-requests|axios|node-fetch|go-http-client/i
+
+export interface ClientSignals {
+  userAgent: string
+  webdriver?: boolean
+}
+
+export function isLikelyBot({ userAgent, webdriver }: ClientSignals): boolean {
+  if (webdriver) return true
+  if (!userAgent) return true
+  return BOT_USER_AGENT.test(userAgent)
+}
+
+// Reduces a referrer to its host; same-site navigation and an empty referrer get their own buckets
+export function referrerSource(referrer: string, currentHost: string): string {
+  if (!referrer) return 'direct'
+  try {
+    const host = new URL(referrer).hostname.toLowerCase().replace(/^www\./, '')
+    if (host === currentHost.toLowerCase().replace(/^www\./, '')) return 'internal'
+    return host
+  } catch {
+    return 'direct'
+  }
+}
@@ -0,0 +1,47 @@
+import { escapeHtml } from './articleRenderer'
+import { sanitizeHtml } from './sanitizeHtml'
+
+const URL_PATTERN = /https?:\/\/[^\s<]+[^\s<.,;:!?)"']/g
+
+// Markdown-lite for comments: **bold**, *italic*, `code`, [links](https://…), bare URLs and paragraphs.
+// The text is escaped before any markup is added, so nothing the commenter types becomes HTML.
+export function formatComment(body: string): string {
+  const paragraphs = body
+    .trim()
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${formatInline(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('')
+
+  return sanitizeHtml(paragraphs)
+}
+
+function formatInline(text: string): string {
+  const codeSpans: string[] = []
+  let html = escapeHtml(text)
+    // Code spans are set aside so their contents are not formatted
+    .replace(/`([^`\n]+)`/g, (_match, code: string) => {
+      codeSpans.push(`<code>${code}</code>`)
+      return `\uE000${codeSpans.length - 1}\uE000`
+    })
+
+  const links: string[] = []
+  html = html
+    .replace(/\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g, (_match, label: string, url: string) => {
+      links.push(`<a href="${url}" target="_blank" rel="nofollow ugc noopener noreferrer">${label}</a>`)
+      return `\uE001${links.length - 1}\uE001`
+    })
+    .replace(URL_PATTERN, (url) => {
+      links.push(`<a href="${url}" target="_blank" rel="nofollow ugc noopener noreferrer">${url}</a>`)
+      return `\uE001${links.length - 1}\uE001`
+    })
+    .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\n]+)\*/g, '$1<em>$2</em>')
+
+  return html
+    .replace(/\uE001(\d+)\uE001/g, (_match, index: string) => links[Number(index)])
+    .replace(/\uE000(\d+)\uE000/g, (_match, index: string) => codeSpans[Number(index)])
+}
+
+export function countLinks(body: string): number {
+  return (body.match(URL_PATTERN) || []).length
+}
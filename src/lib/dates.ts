@@ -0,0 +1,14 @@
+// Dates are formatted in UTC with a fixed locale so Node (pre-rendering) and every browser produce
+// the same text; otherwise hydrating a pre-rendered page would find mismatched markup
+const SHORT_FORMAT = new Intl.DateTimeFormat('en-US', { timeZone: 'UTC' })
+const LONG_FORMAT = new Intl.DateTimeFormat('en-US', { timeZone: 'UTC', year: 'numeric', month: 'long', day: 'numeric' })
+
+export function formatShortDate(value: string): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? '' : SHORT_FORMAT.format(date)
+}
+
+export function formatLongDate(value: string): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? '' : LONG_FORMAT.format(date)
+}
@@ -0,0 +1,71 @@
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref_src)$/i
+
+const FNV_OFFSET = 0xcbf29ce484222325n
+const FNV_PRIME = 0x100000001b3n
+const MASK_64 = (1n << 64n) - 1n
+
+export function normalizeUrl(url: string): string {
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    return url.trim().toLowerCase()
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '')
+  const path = parsed.pathname.replace(/\/+$/, '')
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : ''
+
+  // Scheme and fragment never identify a different story, so they are dropped
+  return `${host}${path}${query}`
+}
+
+export function simhash(text: string): string {
+  const words = text
+    .toLowerCase()
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  const shingles = words.length < 3
+    ? words
+    : words.slice(0, -2).map((word, i) => `${word} ${words[i + 1]} ${words[i + 2]}`)
+
+  const weights = new Array<number>(64).fill(0)
+  for (const shingle of shingles) {
+    const hash = fnv1a64(shingle)
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1
+    }
+  }
+
+  let fingerprint = 0n
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) fingerprint |= 1n << BigInt(bit)
+  }
+
+  return fingerprint.toString(16).padStart(16, '0')
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`)
+  let count = 0
+  while (diff > 0n) {
+    diff &= diff - 1n
+    count++
+  }
+  return count
+}
+
+function fnv1a64(value: string): bigint {
+  let hash = FNV_OFFSET
+  for (let i = 0; i < value.length; i++) {
+    hash ^= BigInt(value.charCodeAt(i))
+    hash = (hash * FNV_PRIME) & MASK_64
+  }
+  return hash
+}
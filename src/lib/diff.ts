@@ -0,0 +1,75 @@
+export type DiffRowType = 'same' | 'added' | 'removed' | 'changed'
+
+export interface DiffRow {
+  type: DiffRowType
+  left: string | null
+  right: string | null
+}
+
+// Block-level closing tags start a new line so single-line HTML still diffs paragraph by paragraph
+const LINE_BREAK = /\n|(?<=<\/(?:p|h[1-6]|li|ul|ol|pre|blockquote|div|table|tr)>)/
+
+export function splitLines(text: string): string[] {
+  return text.split(LINE_BREAK).map(line => line.trimEnd()).filter(line => line.trim() !== '')
+}
+
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = splitLines(before)
+  const b = splitLines(after)
+
+  // Longest common subsequence table, filled from the end so the walk below can go forwards
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const rows: DiffRow[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      rows.push({ type: 'same', left: a[i], right: b[j] })
+      i++
+      j++
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      rows.push({ type: 'removed', left: a[i], right: null })
+      i++
+    } else {
+      rows.push({ type: 'added', left: null, right: b[j] })
+      j++
+    }
+  }
+
+  return pairChanges(rows)
+}
+
+// Collapses a run of removals followed by additions into side-by-side "changed" rows
+function pairChanges(rows: DiffRow[]): DiffRow[] {
+  const result: DiffRow[] = []
+  let k = 0
+  while (k < rows.length) {
+    if (rows[k].type !== 'removed') {
+      result.push(rows[k])
+      k++
+      continue
+    }
+
+    const removed: string[] = []
+    while (k < rows.length && rows[k].type === 'removed') removed.push(rows[k++].left!)
+    const added: string[] = []
+    while (k < rows.length && rows[k].type === 'added') added.push(rows[k++].right!)
+
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = removed[n] ?? null
+      const right = added[n] ?? null
+      result.push({
+        type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added',
+        left,
+        right
+      })
+    }
+  }
+  return result
+}
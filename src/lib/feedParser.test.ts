@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { parseFeed } from './feedParser'
+import rssFixture from '../test/fixtures/rss.xml?raw'
+import atomFixture from '../test/fixtures/atom.xml?raw'
+import jsonFixture from '../test/fixtures/feed.json?raw'
+
+describe('parseFeed', () => {
+  it('parses RSS 2.0 with content:encoded, dc:creator and image enclosures', () => {
+    const feed = parseFeed(rssFixture)
+
+    expect(feed.format).toBe('rss')
+    expect(feed.title).toBe('Example Engineering')
+    expect(feed.link).toBe('https://engineering.example.com/')
+    expect(feed.items).toHaveLength(2)
+
+    const [first, second] = feed.items
+    expect(first).toEqual({
+      guid: 'example-post-101',
+      title: 'Scaling Postgres & keeping it boring',
+      link: 'https://engineering.example.com/posts/scaling-postgres',
+      content: '<p>How we <em>sharded</em> without downtime.</p><p>It took three quarters.</p>',
+      summary: '<p>How we <em>sharded</em> without downtime.</p>',
+      author: 'Ada Lovelace',
+      publishedAt: '2026-03-03T14:30:15.000Z',
+      categories: ['Databases', 'Postgres'],
+      image: 'https://engineering.example.com/img/postgres.png'
+    })
+
+    // No guid falls back to the link; no content:encoded falls back to the description
+    expect(second.guid).toBe('https://engineering.example.com/posts/release-4-2')
+    expect(second.content).toBe('Bug fixes and a faster build.')
+    expect(second.author).toBe('releases@example.com')
+    expect(second.publishedAt).toBe('2026-03-02T08:05:00.000Z')
+    expect(second.image).toBe('https://engineering.example.com/img/release.jpg')
+  })
+
+  it('parses Atom 1.0 entries, preferring the alternate link and falling back to the feed author', () => {
+    const feed = parseFeed(atomFixture)
+
+    expect(feed.format).toBe('atom')
+    expect(feed.title).toBe('Frontend Notes')
+    expect(feed.link).toBe('https://notes.example.org/')
+
+    const [first, second] = feed.items
+    expect(first.guid).toBe('tag:notes.example.org,2026:css-has')
+    expect(first.title).toBe('CSS <code>:has()</code> in practice')
+    expect(first.link).toBe('https://notes.example.org/css-has')
+    expect(first.content).toBe('<p>A parent selector, <strong>finally</strong>.</p>')
+    expect(first.summary).toBe('A parent selector, finally.')
+    expect(first.author).toBe('Grace Hopper')
+    expect(first.publishedAt).toBe('2026-03-05T17:45:30.000Z')
+    expect(first.categories).toEqual(['CSS', 'frontend'])
+
+    // Without <published> the entry's <updated> is used
+    expect(second.author).toBe('Alan Turing')
+    expect(second.content).toBe('Short notes.')
+    expect(second.publishedAt).toBe('2026-03-01T06:00:00.000Z')
+  })
+
+  it('parses JSON Feed 1.1 items', () => {
+    const feed = parseFeed(jsonFixture)
+
+    expect(feed.format).toBe('json')
+    expect(feed.title).toBe('Systems Weekly')
+    expect(feed.link).toBe('https://systems.example.net/')
+
+    const [first, second] = feed.items
+    expect(first).toEqual({
+      guid: '2026-03-04-kernel',
+      title: "What's new in the kernel scheduler",
+      link: 'https://systems.example.net/2026/03/kernel',
+      content: '<p>EEVDF is here.</p>',
+      summary: 'EEVDF is here.',
+      author: 'Linus Example',
+      publishedAt: '2026-03-04T11:22:33.456Z',
+      categories: ['Linux', 'Kernels'],
+      image: 'https://systems.example.net/img/kernel.png'
+    })
+
+    expect(second.guid).toBe('42')
+    expect(second.link).toBe('https://elsewhere.example.com/io-uring')
+    expect(second.content).toBe('A round-up of io_uring reading.')
+    expect(second.author).toBe('Systems Weekly Staff')
+    expect(second.publishedAt).toBe('2026-03-03T07:00:00.000Z')
+    expect(second.categories).toEqual([])
+  })
+
+  it('rejects malformed and unsupported documents', () => {
+    expect(() => parseFeed('<rss><channel>')).toThrow('Feed is not valid XML')
+    expect(() => parseFeed('<html><body /></html>')).toThrow('Unsupported feed format')
+    expect(() => parseFeed('{ "items": [] }')).toThrow('JSON document is not a JSON Feed')
+    expect(() => parseFeed('{ not json')).toThrow('Feed is not valid JSON')
+  })
+})
@@ -0,0 +1,172 @@
+export type FeedFormat = 'rss' | 'atom' | 'json'
+
+export interface ParsedFeedItem {
+  guid: string
+  title: string
+  link: string
+  content: string
+  summary: string
+  author: string
+  publishedAt: string
+  categories: string[]
+  image?: string
+}
+
+export interface ParsedFeed {
+  format: FeedFormat
+  title: string
+  link: string
+  items: ParsedFeedItem[]
+}
+
+export function parseFeed(raw: string): ParsedFeed {
+  const trimmed = raw.trim()
+
+  if (trimmed.startsWith('{')) {
+    return parseJsonFeed(trimmed)
+  }
+
+  const doc = new DOMParser().parseFromString(trimmed, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Feed is not valid XML')
+  }
+
+  const root = doc.documentElement
+  if (root.localName === 'rss' || root.localName === 'RDF') {
+    return parseRss(root)
+  }
+  if (root.localName === 'feed') {
+    return parseAtom(root)
+  }
+
+  throw new Error(`Unsupported feed format: <${root.nodeName}>`)
+}
+
+function parseRss(root: Element): ParsedFeed {
+  const channel = findChild(root, 'channel') || root
+  // RSS 1.0 (RDF) keeps items beside the channel rather than inside it
+  const itemElements = [
+    ...findChildren(channel, 'item'),
+    ...(channel === root ? [] : findChildren(root, 'item'))
+  ]
+
+  return {
+    format: 'rss',
+    title: childText(channel, 'title'),
+    link: childText(channel, 'link'),
+    items: itemElements.map(item => {
+      const link = childText(item, 'link')
+      const enclosure = findChildren(item, 'enclosure')
+        .find(el => (el.getAttribute('type') || '').startsWith('image/'))
+
+      return {
+        guid: childText(item, 'guid') || link,
+        title: childText(item, 'title'),
+        link,
+        content: childText(item, 'encoded') || childText(item, 'description'),
+        summary: childText(item, 'description'),
+        author: childText(item, 'creator') || childText(item, 'author'),
+        publishedAt: toIsoDate(childText(item, 'pubDate') || childText(item, 'date')),
+        categories: findChildren(item, 'category').map(el => text(el)).filter(Boolean),
+        image: enclosure?.getAttribute('url') || mediaImage(item)
+      }
+    })
+  }
+}
+
+function parseAtom(root: Element): ParsedFeed {
+  return {
+    format: 'atom',
+    title: childText(root, 'title'),
+    link: atomLink(root),
+    items: findChildren(root, 'entry').map(entry => {
+      const link = atomLink(entry)
+      const authorElement = findChild(entry, 'author') || findChild(root, 'author')
+
+      return {
+        guid: childText(entry, 'id') || link,
+        title: childText(entry, 'title'),
+        link,
+        content: childText(entry, 'content') || childText(entry, 'summary'),
+        summary: childText(entry, 'summary'),
+        author: authorElement ? childText(authorElement, 'name') : '',
+        publishedAt: toIsoDate(childText(entry, 'published') || childText(entry, 'updated')),
+        categories: findChildren(entry, 'category')
+          .map(el => el.getAttribute('label') || el.getAttribute('term') || '')
+          .filter(Boolean),
+        image: mediaImage(entry)
+      }
+    })
+  }
+}
+
+function parseJsonFeed(raw: string): ParsedFeed {
+  let feed: any
+  try {
+    feed = JSON.parse(raw)
+  } catch {
+    throw new Error('Feed is not valid JSON')
+  }
+
+  if (typeof feed.version !== 'string' || !feed.version.includes('jsonfeed.org')) {
+    throw new Error('JSON document is not a JSON Feed')
+  }
+
+  const items: any[] = Array.isArray(feed.items) ? feed.items : []
+
+  return {
+    format: 'json',
+    title: feed.title || '',
+    link: feed.home_page_url || '',
+    items: items.map(item => {
+      const authors = item.authors || (item.author ? [item.author] : feed.authors || [])
+
+      return {
+        guid: String(item.id ?? item.url ?? ''),
+        title: item.title || '',
+        link: item.url || item.external_url || '',
+        content: item.content_html || item.content_text || '',
+        summary: item.summary || '',
+        author: authors[0]?.name || '',
+        publishedAt: toIsoDate(item.date_published || item.date_modified || ''),
+        categories: Array.isArray(item.tags) ? item.tags.map(String) : [],
+        image: item.image || item.banner_image || undefined
+      }
+    })
+  }
+}
+
+function findChildren(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(el => el.localName === localName)
+}
+
+function findChild(parent: Element, localName: string): Element | undefined {
+  return findChildren(parent, localName)[0]
+}
+
+function childText(parent: Element, localName: string): string {
+  const child = findChild(parent, localName)
+  return child ? text(child) : ''
+}
+
+function text(el: Element): string {
+  return (el.textContent || '').trim()
+}
+
+function atomLink(parent: Element): string {
+  const links = findChildren(parent, 'link')
+  const alternate = links.find(el => !el.getAttribute('rel') || el.getAttribute('rel') === 'alternate')
+  return (alternate || links[0])?.getAttribute('href') || ''
+}
+
+function mediaImage(parent: Element): string | undefined {
+  const media = [...findChildren(parent, 'content'), ...findChildren(parent, 'thumbnail')]
+    .find(el => el.getAttribute('url') && (el.getAttribute('medium') === 'image' || el.localName === 'thumbnail'))
+  return media?.getAttribute('url') || undefined
+}
+
+function toIsoDate(value: string): string {
+  if (!value) return ''
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? '' : date.toISOString()
+}
@@ -0,0 +1,232 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { parseFeed } from './feedParser'
+import { escapeXml, renderAtom, renderJsonFeed, renderRss, type FeedDocument, type FeedEntry } from './feedWriter'
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom'
+const CONTENT_NS = 'http://purl.org/rss/1.0/modules/content/'
+const DC_NS = 'http://purl.org/dc/elements/1.1/'
+
+const original: FeedEntry = {
+  id: 'https://blog.example.com/article/tips-tricks',
+  url: 'https://blog.example.com/article/tips-tricks',
+  title: 'Tips & "tricks" for <dialog>',
+  summary: "Don't use alert() \u0007anymore",
+  contentHtml: '<p>Use <code>&lt;dialog&gt;</code> &amp; friends.</p>',
+  author: { name: 'Ada & Co', url: 'https://blog.example.com/author/ada' },
+  publishedAt: '2026-03-03T14:30:15.000Z',
+  updatedAt: '2026-03-04T08:00:00.000Z',
+  categories: ['Web', 'HTML & CSS'],
+  image: 'https://blog.example.com/img/dialog.png?w=800&h=400'
+}
+
+// Aggregated entries link to the original publisher and carry only the excerpt
+const aggregated: FeedEntry = {
+  id: 'https://blog.example.com/article/elsewhere',
+  url: 'https://news.example.org/story?id=1&ref=feed',
+  externalUrl: 'https://news.example.org/story?id=1&ref=feed',
+  title: 'A story from elsewhere',
+  summary: 'Read it at the source.',
+  author: { name: 'News Desk' },
+  publishedAt: '2026-03-02T09:00:00.000Z',
+  updatedAt: '',
+  categories: []
+}
+
+const feed: FeedDocument = {
+  title: 'Blog <Weekly> & more',
+  description: "Everything that's new",
+  homePageUrl: 'https://blog.example.com/',
+  feedUrls: {
+    rss: 'https://blog.example.com/feed.xml',
+    atom: 'https://blog.example.com/atom.xml',
+    json: 'https://blog.example.com/feed.json'
+  },
+  language: 'en',
+  updatedAt: '2026-03-04T08:00:00.000Z',
+  entries: [original, aggregated]
+}
+
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0)
+  return doc
+}
+
+function childText(parent: Element, name: string, ns?: string): string | undefined {
+  const child = Array.from(parent.children).find(el =>
+    ns ? el.namespaceURI === ns && el.localName === name : el.tagName === name
+  )
+  return child?.textContent ?? undefined
+}
+
+describe('escapeXml', () => {
+  it('escapes markup characters and drops characters XML 1.0 forbids', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>\u0000\u001F`))
+      .toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;')
+    expect(escapeXml('tab\tnewline\n')).toBe('tab\tnewline\n')
+    expect(escapeXml('a\u000Bb\uFFFEc\uFFFF')).toBe('abc')
+    // Characters outside the BMP are kept whole
+    expect(escapeXml('ship it \u{1F680}\r\n')).toBe('ship it \u{1F680}\r\n')
+  })
+})
+
+describe('renderRss', () => {
+  const xml = renderRss(feed)
+  const doc = parseXml(xml)
+  const [first, second] = Array.from(doc.getElementsByTagName('item'))
+
+  it('produces a well-formed RSS 2.0 document with the required channel elements', () => {
+    const rss = doc.documentElement
+    expect(rss.tagName).toBe('rss')
+    expect(rss.getAttribute('version')).toBe('2.0')
+
+    const channel = rss.getElementsByTagName('channel')[0]
+    expect(childText(channel, 'title')).toBe('Blog <Weekly> & more')
+    expect(childText(channel, 'link')).toBe('https://blog.example.com/')
+    expect(childText(channel, 'description')).toBe("Everything that's new")
+    expect(childText(channel, 'lastBuildDate')).toBe('Wed, 04 Mar 2026 08:00:00 GMT')
+
+    const self = channel.getElementsByTagNameNS(ATOM_NS, 'link')[0]
+    expect(self.getAttribute('href')).toBe('https://blog.example.com/feed.xml')
+    expect(self.getAttribute('rel')).toBe('self')
+  })
+
+  it('escapes text, attributes and full HTML content so they read back unchanged', () => {
+    expect(childText(first, 'title')).toBe('Tips & "tricks" for <dialog>')
+    expect(childText(first, 'description')).toBe("Don't use alert() anymore")
+    expect(childText(first, 'encoded', CONTENT_NS)).toBe('<p>Use <code>&lt;dialog&gt;</code> &amp; friends.</p>')
+    expect(childText(first, 'creator', DC_NS)).toBe('Ada & Co')
+    expect(Array.from(first.getElementsByTagName('category'), el => el.textContent)).toEqual(['Web', 'HTML & CSS'])
+    expect(first.getElementsByTagName('enclosure')[0].getAttribute('url'))
+      .toBe('https://blog.example.com/img/dialog.png?w=800&h=400')
+    expect(first.getElementsByTagName('enclosure')[0].getAttribute('type')).toBe('image/png')
+    expect(childText(first, 'pubDate')).toBe('Tue, 03 Mar 2026 14:30:15 GMT')
+  })
+
+  it('links aggregated items to the original but keeps our permalink as the guid', () => {
+    expect(childText(second, 'link')).toBe('https://news.example.org/story?id=1&ref=feed')
+    expect(childText(second, 'guid')).toBe('https://blog.example.com/article/elsewhere')
+    expect(childText(second, 'encoded', CONTENT_NS)).toBeUndefined()
+  })
+
+  it('reads back through the feed parser', () => {
+    const parsed = parseFeed(xml)
+    expect(parsed.format).toBe('rss')
+    expect(parsed.items.map(item => item.title)).toEqual(['Tips & "tricks" for <dialog>', 'A story from elsewhere'])
+  })
+})
+
+describe('renderAtom', () => {
+  const xml = renderAtom(feed)
+  const doc = parseXml(xml)
+  const [first, second] = Array.from(doc.getElementsByTagNameNS(ATOM_NS, 'entry'))
+
+  it('produces a well-formed Atom 1.0 document with the required feed elements', () => {
+    const root = doc.documentElement
+    expect(root.namespaceURI).toBe(ATOM_NS)
+    expect(root.localName).toBe('feed')
+    expect(root.getAttribute('xml:lang')).toBe('en')
+    expect(childText(root, 'id', ATOM_NS)).toBe('https://blog.example.com/atom.xml')
+    expect(childText(root, 'title', ATOM_NS)).toBe('Blog <Weekly> & more')
+    expect(childText(root, 'updated', ATOM_NS)).toBe('2026-03-04T08:00:00.000Z')
+
+    const links = Array.from(root.children).filter(el => el.localName === 'link')
+    expect(links.map(link => [link.getAttribute('rel'), link.getAttribute('href')])).toEqual([
+      ['self', 'https://blog.example.com/atom.xml'],
+      ['alternate', 'https://blog.example.com/']
+    ])
+  })
+
+  it('gives every entry an id, title, updated date and author', () => {
+    for (const entry of [first, second]) {
+      expect(childText(entry, 'id', ATOM_NS)).toMatch(/^https:\/\//)
+      expect(childText(entry, 'title', ATOM_NS)).toBeTruthy()
+      expect(childText(entry, 'updated', ATOM_NS)).toMatch(/^\d{4}-\d{2}-\d{2}T/)
+      expect(entry.getElementsByTagNameNS(ATOM_NS, 'name')[0].textContent).toBeTruthy()
+    }
+    // An entry without its own update time falls back to when it was published
+    expect(childText(second, 'updated', ATOM_NS)).toBe('2026-03-02T09:00:00.000Z')
+  })
+
+  it('escapes text and carries full HTML content as type="html"', () => {
+    expect(childText(first, 'title', ATOM_NS)).toBe('Tips & "tricks" for <dialog>')
+    const content = first.getElementsByTagNameNS(ATOM_NS, 'content')[0]
+    expect(content.getAttribute('type')).toBe('html')
+    expect(content.textContent).toBe('<p>Use <code>&lt;dialog&gt;</code> &amp; friends.</p>')
+    expect(Array.from(first.getElementsByTagNameNS(ATOM_NS, 'category'), el => el.getAttribute('term')))
+      .toEqual(['Web', 'HTML & CSS'])
+    expect(first.getElementsByTagNameNS(ATOM_NS, 'uri')[0].textContent).toBe('https://blog.example.com/author/ada')
+  })
+
+  it('points aggregated entries at the original with a related link back to our copy', () => {
+    const links = Array.from(second.getElementsByTagNameNS(ATOM_NS, 'link'))
+    expect(links.map(link => [link.getAttribute('rel'), link.getAttribute('href')])).toEqual([
+      ['alternate', 'https://news.example.org/story?id=1&ref=feed'],
+      ['related', 'https://blog.example.com/article/elsewhere']
+    ])
+    expect(second.getElementsByTagNameNS(ATOM_NS, 'content')).toHaveLength(0)
+    // Our own articles need no related link
+    expect(Array.from(first.getElementsByTagNameNS(ATOM_NS, 'link')).map(link => link.getAttribute('rel')))
+      .toEqual(['alternate', 'enclosure'])
+  })
+
+  it('reads back through the feed parser', () => {
+    const parsed = parseFeed(xml)
+    expect(parsed.format).toBe('atom')
+    expect(parsed.items.map(item => item.link)).toEqual([original.url, aggregated.url])
+  })
+})
+
+describe('renderJsonFeed', () => {
+  const json = JSON.parse(renderJsonFeed(feed))
+
+  it('produces a JSON Feed 1.1 document with the required top-level fields', () => {
+    expect(json).toMatchObject({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: 'Blog <Weekly> & more',
+      home_page_url: 'https://blog.example.com/',
+      feed_url: 'https://blog.example.com/feed.json',
+      language: 'en'
+    })
+    expect(json.items).toHaveLength(2)
+  })
+
+  it('gives every item an id and exactly one of content_html or content_text', () => {
+    for (const item of json.items) {
+      expect(typeof item.id).toBe('string')
+      expect('content_html' in item !== 'content_text' in item).toBe(true)
+      expect(item.date_published).toMatch(/^\d{4}-\d{2}-\d{2}T.*Z$/)
+      expect(item.authors[0].name).toBeTruthy()
+    }
+  })
+
+  it('keeps full HTML for our articles and the excerpt as text for aggregated ones', () => {
+    const [first, second] = json.items
+    expect(first).toMatchObject({
+      id: original.id,
+      url: original.url,
+      title: 'Tips & "tricks" for <dialog>',
+      content_html: original.contentHtml,
+      tags: ['Web', 'HTML & CSS'],
+      image: original.image,
+      authors: [{ name: 'Ada & Co', url: 'https://blog.example.com/author/ada' }]
+    })
+    expect(first.external_url).toBeUndefined()
+
+    expect(second).toMatchObject({
+      id: aggregated.id,
+      url: aggregated.url,
+      external_url: aggregated.externalUrl,
+      content_text: 'Read it at the source.',
+      date_modified: '2026-03-02T09:00:00.000Z'
+    })
+    expect(second.tags).toBeUndefined()
+  })
+
+  it('reads back through the feed parser', () => {
+    const parsed = parseFeed(renderJsonFeed(feed))
+    expect(parsed.format).toBe('json')
+    expect(parsed.items.map(item => item.guid)).toEqual([original.id, aggregated.id])
+  })
+})
@@ -0,0 +1,192 @@
+import type { FeedFormat } from './feedParser'
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+}
+
+export interface FeedEntry {
+  // Permalink on this site; stays the same when the article's link points elsewhere
+  id: string
+  // Where readers are sent: the article here, or the original for aggregated posts
+  url: string
+  // Set for aggregated posts: the page the story was originally published on
+  externalUrl?: string
+  title: string
+  // Plain text
+  summary: string
+  // Omitted in excerpt mode
+  contentHtml?: string
+  author: { name: string, url?: string }
+  publishedAt: string
+  updatedAt: string
+  categories: string[]
+  image?: string
+}
+
+export interface FeedDocument {
+  title: string
+  description: string
+  homePageUrl: string
+  // Absolute URL of this feed in each format, for self links
+  feedUrls: Record<FeedFormat, string>
+  language?: string
+  updatedAt: string
+  entries: FeedEntry[]
+}
+
+export function renderFeed(feed: FeedDocument, format: FeedFormat): string {
+  switch (format) {
+    case 'rss':
+      return renderRss(feed)
+    case 'atom':
+      return renderAtom(feed)
+    case 'json':
+      return renderJsonFeed(feed)
+  }
+}
+
+// RSS 2.0, with content:encoded for full text and atom:link for the self reference
+export function renderRss(feed: FeedDocument): string {
+  const items = feed.entries.map(entry => [
+    '    <item>',
+    `      <title>${escapeXml(entry.title)}</title>`,
+    `      <link>${escapeXml(entry.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(entry.id)}</guid>`,
+    `      <pubDate>${rfc822Date(entry.publishedAt)}</pubDate>`,
+    `      <dc:creator>${escapeXml(entry.author.name)}</dc:creator>`,
+    ...entry.categories.map(category => `      <category>${escapeXml(category)}</category>`),
+    `      <description>${escapeXml(entry.summary)}</description>`,
+    ...(entry.contentHtml ? [`      <content:encoded>${escapeXml(entry.contentHtml)}</content:encoded>`] : []),
+    ...(entry.image ? [`      <enclosure url="${escapeXml(entry.image)}" length="0" type="${imageType(entry.image)}"/>`] : []),
+    '    </item>'
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homePageUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(feed.feedUrls.rss)}" rel="self" type="application/rss+xml"/>`,
+    ...(feed.language ? [`    <language>${escapeXml(feed.language)}</language>`] : []),
+    `    <lastBuildDate>${rfc822Date(feed.updatedAt)}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n')
+}
+
+// Atom 1.0 (RFC 4287). Every entry carries its own author, so the feed-level one is not needed.
+export function renderAtom(feed: FeedDocument): string {
+  const entries = feed.entries.map(entry => [
+    '  <entry>',
+    `    <id>${escapeXml(entry.id)}</id>`,
+    `    <title type="text">${escapeXml(entry.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(entry.url)}"/>`,
+    // Aggregated entries link to the original, so point at our copy too
+    ...(entry.url !== entry.id ? [`    <link rel="related" type="text/html" href="${escapeXml(entry.id)}"/>`] : []),
+    `    <published>${rfc3339Date(entry.publishedAt)}</published>`,
+    `    <updated>${rfc3339Date(entry.updatedAt || entry.publishedAt)}</updated>`,
+    '    <author>',
+    `      <name>${escapeXml(entry.author.name)}</name>`,
+    ...(entry.author.url ? [`      <uri>${escapeXml(entry.author.url)}</uri>`] : []),
+    '    </author>',
+    ...entry.categories.map(category => `    <category term="${escapeXml(category)}"/>`),
+    `    <summary type="text">${escapeXml(entry.summary)}</summary>`,
+    ...(entry.contentHtml ? [`    <content type="html">${escapeXml(entry.contentHtml)}</content>`] : []),
+    ...(entry.image ? [`    <link rel="enclosure" type="${imageType(entry.image)}" href="${escapeXml(entry.image)}"/>`] : []),
+    '  </entry>'
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom"${feed.language ? ` xml:lang="${escapeXml(feed.language)}"` : ''}>`,
+    `  <id>${escapeXml(feed.feedUrls.atom)}</id>`,
+    `  <title type="text">${escapeXml(feed.title)}</title>`,
+    `  <subtitle type="text">${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrls.atom)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homePageUrl)}"/>`,
+    `  <updated>${rfc3339Date(feed.updatedAt)}</updated>`,
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n')
+}
+
+// JSON Feed 1.1 (https://jsonfeed.org/version/1.1)
+export function renderJsonFeed(feed: FeedDocument): string {
+  return `${JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.homePageUrl,
+    feed_url: feed.feedUrls.json,
+    description: feed.description,
+    language: feed.language,
+    items: feed.entries.map(entry => ({
+      id: entry.id,
+      url: entry.url,
+      external_url: entry.externalUrl,
+      title: entry.title,
+      // Items need content_html or content_text; the summary stands in for excerpt-only entries
+      ...(entry.contentHtml ? { content_html: entry.contentHtml } : { content_text: entry.summary }),
+      summary: entry.summary,
+      image: entry.image,
+      date_published: rfc3339Date(entry.publishedAt),
+      date_modified: rfc3339Date(entry.updatedAt || entry.publishedAt),
+      authors: [{ name: entry.author.name, url: entry.author.url }],
+      tags: entry.categories.length > 0 ? entry.categories : undefined
+    }))
+  }, null, 2)}\n`
+}
+
+// Also drops characters XML 1.0 doesn't allow at all, which pasted content sometimes carries
+export function escapeXml(text: string): string {
+  return Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// Control characters other than tab, newline and carriage return, and the U+FFFE/U+FFFF noncharacters
+function isXmlChar(char: string): boolean {
+  const code = char.codePointAt(0)!
+  if (code < 0x20) return code === 0x09 || code === 0x0A || code === 0x0D
+  return code !== 0xFFFE && code !== 0xFFFF
+}
+
+function validDate(value: string): Date {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? new Date(0) : date
+}
+
+function rfc822Date(value: string): string {
+  return validDate(value).toUTCString()
+}
+
+function rfc3339Date(value: string): string {
+  return validDate(value).toISOString()
+}
+
+function imageType(url: string): string {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase()
+  switch (extension) {
+    case 'png':
+      return 'image/png'
+    case 'gif':
+      return 'image/gif'
+    case 'webp':
+      return 'image/webp'
+    case 'svg':
+      return 'image/svg+xml'
+    default:
+      return 'image/jpeg'
+  }
+}
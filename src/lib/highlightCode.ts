@@ -0,0 +1,181 @@
+import hljs from 'highlight.js/lib/core'
+import bash from 'highlight.js/lib/languages/bash'
+import c from 'highlight.js/lib/languages/c'
+import cpp from 'highlight.js/lib/languages/cpp'
+import csharp from 'highlight.js/lib/languages/csharp'
+import css from 'highlight.js/lib/languages/css'
+import diff from 'highlight.js/lib/languages/diff'
+import dockerfile from 'highlight.js/lib/languages/dockerfile'
+import go from 'highlight.js/lib/languages/go'
+import java from 'highlight.js/lib/languages/java'
+import javascript from 'highlight.js/lib/languages/javascript'
+import json from 'highlight.js/lib/languages/json'
+import kotlin from 'highlight.js/lib/languages/kotlin'
+import markdown from 'highlight.js/lib/languages/markdown'
+import php from 'highlight.js/lib/languages/php'
+import python from 'highlight.js/lib/languages/python'
+import ruby from 'highlight.js/lib/languages/ruby'
+import rust from 'highlight.js/lib/languages/rust'
+import shell from 'highlight.js/lib/languages/shell'
+import sql from 'highlight.js/lib/languages/sql'
+import swift from 'highlight.js/lib/languages/swift'
+import typescript from 'highlight.js/lib/languages/typescript'
+import xml from 'highlight.js/lib/languages/xml'
+import yaml from 'highlight.js/lib/languages/yaml'
+
+// Only the core plus the languages a tech blog realistically needs, so the bundle stays small
+const LANGUAGES = {
+  bash, c, cpp, csharp, css, diff, dockerfile, go, java, javascript, json, kotlin,
+  markdown, php, python, ruby, rust, shell, sql, swift, typescript, xml, yaml
+}
+
+for (const [name, language] of Object.entries(LANGUAGES)) {
+  hljs.registerLanguage(name, language)
+}
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  bash: 'Bash',
+  c: 'C',
+  cpp: 'C++',
+  csharp: 'C#',
+  css: 'CSS',
+  diff: 'Diff',
+  dockerfile: 'Dockerfile',
+  go: 'Go',
+  java: 'Java',
+  javascript: 'JavaScript',
+  json: 'JSON',
+  kotlin: 'Kotlin',
+  markdown: 'Markdown',
+  php: 'PHP',
+  python: 'Python',
+  ruby: 'Ruby',
+  rust: 'Rust',
+  shell: 'Shell',
+  sql: 'SQL',
+  swift: 'Swift',
+  typescript: 'TypeScript',
+  xml: 'HTML',
+  yaml: 'YAML'
+}
+
+export interface FenceInfo {
+  language: string
+  highlightLines: string
+}
+
+// Splits a fence info string such as "ts {3-5,8}" into the language and the line annotation
+export function parseFenceInfo(info: string = ''): FenceInfo {
+  const annotation = info.match(/\{([\d,\s-]+)\}/)
+  const language = info.replace(/\{[^}]*\}/, '').trim().split(/\s+/)[0] || ''
+  return {
+    language: language.toLowerCase(),
+    highlightLines: annotation ? annotation[1].replace(/\s+/g, '') : ''
+  }
+}
+
+// Expands "3-5,8" into the set of 1-based line numbers it covers
+export function parseLineRanges(ranges: string): Set<number> {
+  const lines = new Set<number>()
+  for (const part of ranges.split(',')) {
+    const [start, end] = part.split('-').map(n => parseInt(n, 10))
+    if (!start) continue
+    const last = end && end >= start ? Math.min(end, start + 1000) : start
+    for (let line = start; line <= last; line++) lines.add(line)
+  }
+  return lines
+}
+
+const PRE_BLOCK = /<pre\b([^>]*)>([\s\S]*?)<\/pre>/gi
+const LANGUAGE_CLASS = /\b(?:language|lang)-([\w+#-]+)/i
+
+// Works on HTML strings rather than the DOM so it runs the same in the browser, in Node and at build time.
+// Expects sanitized input: every <pre> (authored Markdown, HTML or aggregated content) is rebuilt from its text.
+export function highlightCodeBlocks(html: string): string {
+  if (!html || !/<pre\b/i.test(html)) return html
+
+  return html.replace(PRE_BLOCK, (_match, preAttributes: string, inner: string) => {
+    const codeTag = inner.match(/^\s*<code\b([^>]*)>/i)
+    const attributes = `${preAttributes} ${codeTag ? codeTag[1] : ''}`
+    const requested = (attributes.match(LANGUAGE_CLASS)?.[1] || '').toLowerCase()
+    const highlightLines = attributes.match(/data-highlight-lines="([^"]*)"/i)?.[1] || ''
+    const source = decodeEntities(inner.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '')).replace(/\n$/, '')
+
+    return renderCodeBlock(source, requested, highlightLines)
+  })
+}
+
+// Auto-detection below this relevance is mostly guessing (prose and shell output come back as CSS), so it stays plain text
+const MIN_AUTO_RELEVANCE = 3
+
+function renderCodeBlock(source: string, requested: string, highlightLines: string): string {
+  let result: { value: string, language?: string }
+  if (requested && hljs.getLanguage(requested)) {
+    result = hljs.highlight(source, { language: requested, ignoreIllegals: true })
+  } else {
+    const detected = hljs.highlightAuto(source)
+    result = detected.relevance >= MIN_AUTO_RELEVANCE ? detected : { value: escapeAttribute(source) }
+  }
+  const language = result.language || ''
+  const canonical = language ? hljs.getLanguage(language)?.name?.toLowerCase() || language : ''
+  const label = LANGUAGE_LABELS[language] || LANGUAGE_LABELS[canonical] || (language ? language : 'Text')
+  const marked = parseLineRanges(highlightLines)
+
+  const lines = splitHighlightedLines(result.value)
+    .map((line, index) => {
+      const className = marked.has(index + 1) ? 'code-line code-line-highlighted' : 'code-line'
+      return `<span class="${className}">${line}</span>`
+    })
+    .join('\n')
+
+  return [
+    `<div class="code-block" data-language="${escapeAttribute(language || 'text')}">`,
+    '<div class="code-block-header">',
+    `<span class="code-block-language">${escapeAttribute(label)}</span>`,
+    '<button type="button" class="code-block-copy" data-copy-code>Copy</button>',
+    '</div>',
+    `<pre class="hljs"><code class="language-${escapeAttribute(language || 'text')}">${lines}</code></pre>`,
+    '</div>'
+  ].join('')
+}
+
+// highlight.js spans can cross newlines (block comments, template strings); close and reopen them per line
+function splitHighlightedLines(html: string): string[] {
+  const lines: string[] = []
+  const open: string[] = []
+  let current = ''
+
+  for (const token of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (token === '\n') {
+      lines.push(current + '</span>'.repeat(open.length))
+      current = open.join('')
+    } else if (token.startsWith('<span')) {
+      open.push(token)
+      current += token
+    } else if (token === '</span>') {
+      open.pop()
+      current += token
+    } else {
+      current += token
+    }
+  }
+  lines.push(current)
+
+  return lines
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;|&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_match, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([\da-f]+);/gi, (_match, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
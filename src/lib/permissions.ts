@@ -0,0 +1,98 @@
+export type Role = 'reader' | 'contributor' | 'editor' | 'admin'
+
+export const ROLES: Role[] = ['reader', 'contributor', 'editor', 'admin']
+
+export const ROLE_LABELS: Record<Role, string> = {
+  reader: 'Reader',
+  contributor: 'Contributor',
+  editor: 'Editor',
+  admin: 'Admin'
+}
+
+export type Permission =
+  | 'dashboard:view'
+  | 'article:create'
+  | 'article:edit_any'
+  | 'article:publish'
+  | 'article:delete_any'
+  | 'comments:moderate'
+  | 'authors:manage'
+  | 'categories:manage'
+  | 'tags:manage'
+  | 'sources:manage'
+  | 'analytics:view'
+  | 'settings:manage'
+  | 'users:manage'
+
+// Each role has everything the role before it has
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  reader: [],
+  contributor: ['dashboard:view', 'article:create'],
+  editor: [
+    'dashboard:view',
+    'article:create',
+    'article:edit_any',
+    'article:publish',
+    'article:delete_any',
+    'comments:moderate',
+    'authors:manage',
+    'categories:manage',
+    'tags:manage',
+    'sources:manage',
+    'analytics:view'
+  ],
+  admin: [
+    'dashboard:view',
+    'article:create',
+    'article:edit_any',
+    'article:publish',
+    'article:delete_any',
+    'comments:moderate',
+    'authors:manage',
+    'categories:manage',
+    'tags:manage',
+    'sources:manage',
+    'analytics:view',
+    'settings:manage',
+    'users:manage'
+  ]
+}
+
+// The signed-in user as far as permission checks are concerned
+export interface Actor {
+  id: string
+  name: string
+  role: Role
+}
+
+type OwnedArticle = { userId: string, status: string }
+
+export function hasPermission(actor: Actor | null | undefined, permission: Permission): boolean {
+  return !!actor && ROLE_PERMISSIONS[actor.role].includes(permission)
+}
+
+// Contributors may only touch their own articles while they are still drafts
+export function canEditArticle(actor: Actor | null | undefined, article: OwnedArticle): boolean {
+  if (hasPermission(actor, 'article:edit_any')) return true
+  return hasPermission(actor, 'article:create') && article.userId === actor!.id && article.status === 'draft'
+}
+
+export function canDeleteArticle(actor: Actor | null | undefined, article: OwnedArticle): boolean {
+  if (hasPermission(actor, 'article:delete_any')) return true
+  return canEditArticle(actor, article)
+}
+
+// Contributors can submit their drafts for review and pull them back; everything else needs an editor
+export function canChangeStatus(actor: Actor | null | undefined, article: OwnedArticle, to: string): boolean {
+  if (article.status === to) return canEditArticle(actor, article)
+  if (hasPermission(actor, 'article:publish')) return true
+  if (!hasPermission(actor, 'article:create') || article.userId !== actor!.id) return false
+  return (article.status === 'draft' && to === 'in_review') || (article.status === 'in_review' && to === 'draft')
+}
+
+// Statuses a role may pick when creating an article
+export function creatableStatuses(actor: Actor | null | undefined): string[] {
+  if (hasPermission(actor, 'article:publish')) return ['draft', 'in_review', 'scheduled', 'published']
+  if (hasPermission(actor, 'article:create')) return ['draft', 'in_review']
+  return []
+}
@@ -0,0 +1,70 @@
+import type { Article, ArticleFilters, ArticlePage } from '../services/articleService'
+import type { Author } from '../services/authorService'
+import type { CategoryNode } from '../services/categoryService'
+import { escapeHtml } from './articleRenderer'
+import { renderHeadTags, type PageMeta } from './seo'
+
+export const PRERENDER_DATA_ID = 'prerender-data'
+
+// What HomePage loads on mount, for "/" or a category listing
+export interface HomeSnapshot {
+  // "all" on the home page
+  categorySlug: string
+  filters: ArticleFilters
+  featured: Article | null
+  trending: Article[]
+  page: ArticlePage
+}
+
+export interface ArticleSnapshot {
+  slug: string
+  article: Article
+  author: Author | null
+  related: Article[]
+}
+
+// The data a page was rendered with at build time. It is embedded in the HTML so the client's
+// first render matches the markup exactly and can hydrate it instead of starting from a spinner.
+export interface PrerenderData {
+  path: string
+  categories: CategoryNode[]
+  home?: HomeSnapshot
+  article?: ArticleSnapshot
+}
+
+// Only a page built for this exact path is hydrated. Static hosts also serve the pre-rendered
+// index.html as the fallback for routes that were never rendered, and those start from scratch.
+export function readPrerenderData(): PrerenderData | null {
+  const element = document.getElementById(PRERENDER_DATA_ID)
+  if (!element?.textContent) return null
+  try {
+    const data = JSON.parse(element.textContent) as PrerenderData
+    return data.path === window.location.pathname ? data : null
+  } catch (error) {
+    console.error('Error reading pre-rendered data:', error)
+    return null
+  }
+}
+
+// Where a page's HTML goes in the build output. Every path gets its own directory index so
+// static hosts serve /article/slug without a rewrite rule.
+export function prerenderFilePath(path: string): string {
+  const trimmed = path.replace(/^\/+|\/+$/g, '')
+  return trimmed ? `${trimmed}/index.html` : 'index.html'
+}
+
+// Fills the built index.html with a rendered page: its title and head tags, the app markup in
+// #root and the data the client needs to hydrate it
+export function renderDocument(template: string, page: { appHtml: string, meta: PageMeta, data: PrerenderData }): string {
+  const dataScript = `<script type="application/json" id="${PRERENDER_DATA_ID}">${serializeData(page.data)}</script>`
+
+  return template
+    .replace(/<title>[\s\S]*?<\/title>/i, () => `<title>${escapeHtml(page.meta.title)}</title>`)
+    .replace('</head>', () => `${renderHeadTags(page.meta)}\n</head>`)
+    .replace(/<div id="root">\s*<\/div>/i, () => `<div id="root">${page.appHtml}</div>\n${dataScript}`)
+}
+
+// "</script>" inside an article would otherwise end the data script early
+function serializeData(data: PrerenderData): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c')
+}
@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { isApprovedEmbed, sanitizeHtml, setSanitizerWindow } from './sanitizeHtml'
+
+// Nothing that can run script may survive, whatever shape the payload takes
+function expectInert(html: string) {
+  expect(html).not.toMatch(/<script/i)
+  expect(html).not.toMatch(/\son\w+\s*=/i)
+  expect(html).not.toMatch(/javascript:/i)
+  expect(html).not.toMatch(/<svg|<math/i)
+}
+
+describe('sanitizeHtml', () => {
+  it('keeps ordinary article markup', () => {
+    const html = '<h2 id="intro">Intro</h2><p>Some <strong>bold</strong> and <a href="https://example.com" title="x">a link</a>.</p>'
+    expect(sanitizeHtml(html)).toBe(html)
+  })
+
+  it.each([
+    ['script tags', '<p>Hi</p><script>alert(1)</script>'],
+    ['inline event handlers', '<img src="x" onerror="alert(1)">'],
+    ['event handlers on allowed tags', '<p onclick="alert(1)" onmouseover="alert(2)">Click</p>'],
+    ['javascript: links', '<a href="javascript:alert(1)">x</a>'],
+    ['obfuscated javascript: links', '<a href="  jAvAsCrIpT&colon;alert(1)">x</a><a href="java&#x09;script:alert(1)">y</a>'],
+    ['SVG script', '<svg><script>alert(1)</script></svg>'],
+    ['SVG onload', '<svg onload="alert(1)"><circle r="1" /></svg>'],
+    ['SVG animate href', '<svg><a><animate attributeName="href" values="javascript:alert(1)" /><text>x</text></a></svg>'],
+    ['MathML mutation', '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)></style></mglyph></table></mtext></math>'],
+    ['MathML links', '<math><maction actiontype="statusline" xlink:href="javascript:alert(1)">x</maction></math>'],
+    ['style breakouts', '<style>@import "https://evil.example"</style><p style="background:url(javascript:alert(1))">x</p>'],
+    ['forms', '<form action="https://evil.example"><input type="text" name="password"><button>Go</button></form>'],
+    ['object and embed', '<object data="https://evil.example/x.swf"></object><embed src="javascript:alert(1)">']
+  ])('strips %s', (_name, payload) => {
+    expectInert(sanitizeHtml(payload))
+  })
+
+  it('drops data: URLs from links', () => {
+    const html = sanitizeHtml('<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>')
+    expect(html).toBe('<a>x</a>')
+  })
+
+  it('drops style attributes and unknown data attributes', () => {
+    expect(sanitizeHtml('<p style="color:red" data-track="1">x</p>')).toBe('<p>x</p>')
+  })
+
+  it('removes iframes from unknown hosts', () => {
+    expect(sanitizeHtml('<iframe src="https://evil.example/embed"></iframe>')).toBe('')
+    expect(sanitizeHtml('<iframe src="http://www.youtube.com/embed/abc"></iframe>')).toBe('')
+    expect(sanitizeHtml('<iframe src="https://youtube.com.evil.example/embed"></iframe>')).toBe('')
+    expect(sanitizeHtml('<iframe srcdoc="<script>alert(1)</script>"></iframe>')).toBe('')
+  })
+
+  it('keeps embeds from approved hosts', () => {
+    const html = sanitizeHtml('<iframe src="https://www.youtube.com/embed/abc" allowfullscreen=""></iframe>')
+    expect(html).toBe('<iframe src="https://www.youtube.com/embed/abc" allowfullscreen=""></iframe>')
+    expect(sanitizeHtml('<iframe src="https://player.vimeo.com/video/1"></iframe>')).toContain('player.vimeo.com')
+  })
+
+  it('keeps only disabled task-list checkboxes', () => {
+    expect(sanitizeHtml('<input type="checkbox" checked>')).toBe('<input type="checkbox" checked="" disabled="">')
+    expect(sanitizeHtml('<input type="text" value="x">')).toBe('')
+  })
+
+  it('adds noopener to links opening a new tab', () => {
+    expect(sanitizeHtml('<a href="https://example.com" target="_blank">x</a>'))
+      .toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>')
+  })
+})
+
+describe('isApprovedEmbed', () => {
+  it('accepts only https URLs on approved hosts and their subdomains', () => {
+    expect(isApprovedEmbed('https://codepen.io/pen/1')).toBe(true)
+    expect(isApprovedEmbed('https://www.youtube-nocookie.com/embed/1')).toBe(true)
+    expect(isApprovedEmbed('http://codepen.io/pen/1')).toBe(false)
+    expect(isApprovedEmbed('https://notyoutube.com/embed/1')).toBe(false)
+    expect(isApprovedEmbed('javascript:alert(1)')).toBe(false)
+    expect(isApprovedEmbed(null)).toBe(false)
+  })
+})
+
+// Runs last: it swaps the shared purifier for one without a DOM, as in Node without jsdom
+describe('sanitizeHtml without a DOM', () => {
+  it('falls back to escaped plain text rather than passing markup through', () => {
+    setSanitizerWindow({})
+
+    expect(sanitizeHtml('<p>Hi <b>there</b></p><script>alert(1)</script><img src=x onerror=alert(1)>'))
+      .toBe('<p>Hi there</p>')
+    expect(sanitizeHtml('<p>1 &lt; 2 & 3 > 2</p>')).toBe('<p>1 &lt; 2 &amp; 3 &gt; 2</p>')
+  })
+})
@@ -0,0 +1,102 @@
+import DOMPurify from 'dompurify'
+
+// Hosts whose iframes may be embedded in article content; every other iframe is dropped
+export const APPROVED_EMBED_DOMAINS = [
+  'youtube.com',
+  'youtube-nocookie.com',
+  'player.vimeo.com',
+  'codepen.io',
+  'codesandbox.io',
+  'stackblitz.com',
+  'open.spotify.com',
+  'speakerdeck.com',
+  'player.twitch.tv',
+  'www.loom.com'
+]
+
+const ALLOWED_TAGS = [
+  'a', 'abbr', 'audio', 'b', 'blockquote', 'br', 'caption', 'cite', 'code', 'col', 'colgroup',
+  'dd', 'del', 'details', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'iframe', 'img', 'input', 'ins', 'kbd',
+  'li', 'mark', 'ol', 'p', 'picture', 'pre', 'q', 's', 'samp', 'small', 'source', 'span',
+  'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'time',
+  'tr', 'u', 'ul', 'var', 'video'
+]
+
+const ALLOWED_ATTR = [
+  'align', 'allow', 'allowfullscreen', 'alt', 'checked', 'cite', 'class', 'colspan', 'controls',
+  'data-highlight-lines', 'datetime', 'disabled', 'frameborder', 'height', 'href', 'id', 'lang', 'loading', 'poster',
+  'rel', 'rowspan', 'sizes', 'span', 'src', 'srcset', 'start', 'target', 'title', 'type', 'width'
+]
+
+// DOMPurify needs a DOM. Browsers have one; Node (pre-rendering, feed builds) must supply a
+// window, e.g. from jsdom, through setSanitizerWindow before any HTML is rendered.
+let purifier = DOMPurify
+let hooksInstalled = false
+
+export function setSanitizerWindow(window: unknown) {
+  purifier = DOMPurify(window as Parameters<typeof DOMPurify>[0])
+  hooksInstalled = false
+}
+
+function installHooks() {
+  if (hooksInstalled) return
+  hooksInstalled = true
+
+  purifier.addHook('afterSanitizeAttributes', (node) => {
+    const element = node as Element
+
+    if (element.nodeName === 'IFRAME' && !isApprovedEmbed(element.getAttribute('src'))) {
+      element.remove()
+      return
+    }
+
+    // Only task-list checkboxes survive; other form controls have no place in an article
+    if (element.nodeName === 'INPUT') {
+      if (element.getAttribute('type') !== 'checkbox') {
+        element.remove()
+        return
+      }
+      element.setAttribute('disabled', '')
+    }
+
+    if (element.nodeName === 'A' && element.getAttribute('target') === '_blank') {
+      const rel = new Set((element.getAttribute('rel') || '').split(/\s+/).filter(Boolean))
+      rel.add('noopener')
+      rel.add('noreferrer')
+      element.setAttribute('rel', Array.from(rel).join(' '))
+    }
+  })
+}
+
+export function isApprovedEmbed(src: string | null): boolean {
+  if (!src) return false
+  try {
+    const url = new URL(src)
+    if (url.protocol !== 'https:') return false
+    const host = url.hostname.toLowerCase()
+    return APPROVED_EMBED_DOMAINS.some(domain => host === domain || host.endsWith(`.${domain}`))
+  } catch {
+    return false
+  }
+}
+
+export function sanitizeHtml(html: string): string {
+  if (!html) return ''
+  // Without a DOM DOMPurify would return the input untouched; fall back to plain text instead
+  if (!purifier.isSupported) {
+    return `<p>${escapeText(html.replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim())}</p>`
+  }
+  installHooks()
+
+  return purifier.sanitize(html, {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR,
+    ALLOW_DATA_ATTR: false,
+    ALLOW_UNKNOWN_PROTOCOLS: false
+  })
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&(?![a-z]+;|#\d+;)/gi, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
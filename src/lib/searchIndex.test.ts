@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest'
+import { buildSnippet, highlightText, levenshtein, parseQuery, SearchIndex, stem, tokenize } from './searchIndex'
+
+function buildIndex(documents: Record<string, Partial<Record<'title' | 'tags' | 'author' | 'excerpt' | 'body', string>>>) {
+  const index = new SearchIndex()
+  for (const [id, fields] of Object.entries(documents)) {
+    index.add({ id, fields })
+  }
+  return index
+}
+
+function ids(index: SearchIndex, query: string, options = {}) {
+  return index.search(query, options).hits.map(hit => hit.id)
+}
+
+describe('tokenize', () => {
+  it('drops stop words but keeps word positions', () => {
+    expect(tokenize('The state of the art').map(token => [token.term, token.position])).toEqual([
+      ['state', 1],
+      ['art', 4]
+    ])
+  })
+
+  it('keeps tech names whole and also indexes the parts of compounds', () => {
+    expect(tokenize('C++ and C# beat Node.js and GPT-4').map(token => token.term)).toEqual([
+      'c++', 'c#', 'beat', 'node.js', 'node', 'js', 'gpt-4', 'gpt', '4'
+    ])
+  })
+
+  it('records where each token sits in the original text', () => {
+    const [token] = tokenize('  Rust’s borrow checker')
+    expect(token).toMatchObject({ term: 'rust', start: 2, end: 8 })
+  })
+})
+
+describe('stem', () => {
+  it.each([
+    ['caches', 'cache'],
+    ['queries', 'query'],
+    ['classes', 'class'],
+    ['status', 'status'],
+    ['running', 'run'],
+    ['deployed', 'deploy'],
+    ['optimization', 'optimize'],
+    ['quickly', 'quick'],
+    ['sing', 'sing'],
+    ['bed', 'bed']
+  ])('stems %s to %s', (word, expected) => {
+    expect(stem(word)).toBe(expected)
+  })
+
+  it('leaves short words and non-letters alone', () => {
+    expect(stem('uses')).toBe('use')
+    expect(stem('gas')).toBe('gas')
+    expect(stem('node.js')).toBe('node.js')
+  })
+})
+
+describe('parseQuery', () => {
+  it('separates quoted phrases and still requires their terms', () => {
+    const { terms, phrases } = parseQuery('"server components" caching in react')
+    expect(terms.sort()).toEqual(['cach', 'component', 'react', 'server'])
+    expect(phrases.map(phrase => phrase.map(token => token.term))).toEqual([['server', 'component']])
+  })
+})
+
+describe('levenshtein', () => {
+  it('counts edits and gives up early past the limit', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3)
+    expect(levenshtein('react', 'react')).toBe(0)
+    expect(levenshtein('kitten', 'sitting', 1)).toBe(2)
+    expect(levenshtein('a', 'abcdef', 2)).toBe(3)
+  })
+})
+
+describe('SearchIndex.search', () => {
+  const index = buildIndex({
+    title: { title: 'Kubernetes operators', body: 'Automating clusters.' },
+    body: { title: 'Running clusters', body: 'We moved every service onto Kubernetes last year.' },
+    tags: { title: 'Platform notes', tags: 'kubernetes devops', body: 'Notes from the platform team.' },
+    react: { title: 'React server components', body: 'Server rendering with components in React.' },
+    scattered: { title: 'Components of a server', body: 'A server has many parts; React is not one of them.' }
+  })
+
+  it('ranks title matches above tag matches above body matches', () => {
+    expect(ids(index, 'kubernetes')).toEqual(['title', 'tags', 'body'])
+  })
+
+  it('scores repeated and rarer terms higher, as BM25 does', () => {
+    const [first, second] = index.search('react server').hits
+    expect(first.id).toBe('react')
+    expect(first.score).toBeGreaterThan(second.score)
+  })
+
+  it('requires every query term', () => {
+    expect(ids(index, 'kubernetes react')).toEqual([])
+  })
+
+  it('matches inflected forms through the stemmer', () => {
+    expect(ids(index, 'automated cluster')).toEqual(['title'])
+  })
+
+  it('finds close misspellings of terms the index does not know', () => {
+    expect(ids(index, 'kuberntes')).toEqual(['title', 'tags', 'body'])
+    // ...but ranks them below exact matches of the same documents
+    expect(index.search('kuberntes').hits[0].score).toBeLessThan(index.search('kubernetes').hits[0].score)
+    // Short terms are not expanded
+    expect(ids(index, 'raect')).toEqual([])
+  })
+
+  it('keeps only documents containing a quoted phrase in order', () => {
+    expect(ids(index, '"server components"')).toEqual(['react'])
+    expect(ids(index, 'server components').sort()).toEqual(['react', 'scattered'])
+  })
+
+  it('reports the total and pages through the ranked hits', () => {
+    const all = ids(index, 'kubernetes')
+    const page = index.search('kubernetes', { limit: 2, offset: 1 })
+
+    expect(page.total).toBe(3)
+    expect(page.hits.map(hit => hit.id)).toEqual(all.slice(1, 3))
+  })
+
+  it('applies the filter before counting', () => {
+    const page = index.search('kubernetes', { filter: id => id !== 'tags' })
+    expect(page).toMatchObject({ total: 2, hits: [{ id: 'title' }, { id: 'body' }] })
+  })
+
+  it('returns nothing for queries made only of stop words', () => {
+    expect(index.search('the and of')).toEqual({ hits: [], total: 0 })
+  })
+
+  it('forgets removed and replaced documents', () => {
+    const local = buildIndex({ a: { title: 'Rust ownership' }, b: { title: 'Rust macros' } })
+    local.remove('a')
+    local.add({ id: 'b', fields: { title: 'Go generics' } })
+
+    expect(local.size).toBe(1)
+    expect(ids(local, 'rust')).toEqual([])
+    expect(ids(local, 'generics')).toEqual(['b'])
+  })
+})
+
+describe('highlightText and buildSnippet', () => {
+  it('marks matched words in the original text', () => {
+    expect(highlightText('Caching queries, fast', ['cach', 'query'])).toEqual([
+      { text: 'Caching', match: true },
+      { text: ' ', match: false },
+      { text: 'queries', match: true },
+      { text: ', fast', match: false }
+    ])
+  })
+
+  it('cuts a window around the first match on word boundaries', () => {
+    const text = `${'lorem '.repeat(40)}the borrow checker explained ${'ipsum '.repeat(40)}`
+    const snippet = buildSnippet(text, ['borrow'], 60)
+
+    expect(snippet[0]).toEqual({ text: '…', match: false })
+    expect(snippet[snippet.length - 1]).toEqual({ text: '…', match: false })
+    expect(snippet.find(segment => segment.match)?.text).toBe('borrow')
+    expect(buildSnippet(text, ['missing'])).toEqual([])
+  })
+})
@@ -0,0 +1,364 @@
+export type SearchField = 'title' | 'tags' | 'author' | 'excerpt' | 'body'
+
+export const SEARCH_FIELDS: SearchField[] = ['title', 'tags', 'author', 'excerpt', 'body']
+
+// Title matches outrank tag matches, which outrank matches buried in the body
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 5,
+  tags: 3,
+  author: 2,
+  excerpt: 1.5,
+  body: 1
+}
+
+export const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'more', 'my', 'no', 'not', 'of', 'on', 'or',
+  'our', 'out', 'she', 'so', 'some', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'to', 'up', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+  'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your'
+])
+
+export interface SearchDocument {
+  id: string
+  fields: Partial<Record<SearchField, string>>
+}
+
+export interface SearchHit {
+  id: string
+  score: number
+  // Index terms (stemmed) that matched, used to highlight the original text
+  matchedTerms: string[]
+}
+
+// One page of ranked hits, with how many documents matched in all
+export interface SearchHitPage {
+  hits: SearchHit[]
+  total: number
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+export interface SearchOptions {
+  limit?: number
+  offset?: number
+  filter?: (id: string) => boolean
+}
+
+interface Token {
+  term: string
+  position: number
+  start: number
+  end: number
+}
+
+interface ParsedQuery {
+  terms: string[]
+  phrases: Token[][]
+}
+
+// Keeps tech names such as "c++", "c#", "node.js" and "gpt-4" together as one token
+const WORD = /[\p{L}\p{N}]+(?:[+#]+|(?:[.'’-][\p{L}\p{N}]+)*)/gu
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let position = 0
+
+  for (const match of text.matchAll(WORD)) {
+    const word = match[0].toLowerCase().replace(/['’]/g, '')
+    const start = match.index
+    const end = start + match[0].length
+
+    if (!STOP_WORDS.has(word)) {
+      tokens.push({ term: stem(word), position, start, end })
+      // Compound tokens are also indexed by their parts so "node" finds "node.js"
+      if (/[.-]/.test(word)) {
+        for (const part of word.split(/[.-]/)) {
+          if (part && !STOP_WORDS.has(part)) tokens.push({ term: stem(part), position, start, end })
+        }
+      }
+    }
+    position++
+  }
+
+  return tokens
+}
+
+// A light suffix-stripping stemmer; the same rules run on documents and queries, so it only has to be consistent
+export function stem(word: string): string {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) return word
+
+  let result = word
+  if (result.endsWith('sses')) result = result.slice(0, -2)
+  else if (result.endsWith('ies')) result = `${result.slice(0, -3)}y`
+  else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) result = result.slice(0, -1)
+
+  const suffixes: [string, string][] = [
+    ['ational', 'ate'], ['ization', 'ize'], ['fulness', 'ful'], ['iveness', 'ive'],
+    ['ousness', 'ous'], ['ation', 'ate'], ['ness', ''], ['ment', ''], ['ingly', ''], ['edly', ''],
+    ['ing', ''], ['ed', ''], ['ly', '']
+  ]
+  for (const [suffix, replacement] of suffixes) {
+    if (!result.endsWith(suffix)) continue
+    const base = result.slice(0, -suffix.length)
+    // Keep at least one vowel and three letters in the stem ("sing" and "bed" stay as they are)
+    if (base.length < 3 || !/[aeiouy]/.test(base)) break
+    result = base + replacement
+    if ((suffix === 'ing' || suffix === 'ed') && /([^aeioulsz])\1$/.test(result)) {
+      result = result.slice(0, -1)
+    }
+    break
+  }
+
+  return result
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const phrases: Token[][] = []
+  const rest = query.replace(/"([^"]+)"/g, (_match, phrase: string) => {
+    const tokens = tokenize(phrase)
+    if (tokens.length > 0) phrases.push(tokens)
+    return ' '
+  })
+
+  const terms = new Set(tokenize(rest).map(token => token.term))
+  for (const phrase of phrases) {
+    for (const token of phrase) terms.add(token.term)
+  }
+
+  return { terms: Array.from(terms), phrases }
+}
+
+export function levenshtein(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+export class SearchIndex {
+  // term -> document id -> field -> word positions
+  private postings = new Map<string, Map<string, Map<SearchField, number[]>>>()
+  private fieldLengths = new Map<string, Record<SearchField, number>>()
+
+  get size(): number {
+    return this.fieldLengths.size
+  }
+
+  add(document: SearchDocument) {
+    this.remove(document.id)
+
+    const lengths = {} as Record<SearchField, number>
+    for (const field of SEARCH_FIELDS) {
+      const tokens = tokenize(document.fields[field] || '')
+      lengths[field] = tokens.length
+
+      for (const token of tokens) {
+        let documents = this.postings.get(token.term)
+        if (!documents) {
+          documents = new Map()
+          this.postings.set(token.term, documents)
+        }
+        let fields = documents.get(document.id)
+        if (!fields) {
+          fields = new Map()
+          documents.set(document.id, fields)
+        }
+        const positions = fields.get(field) || []
+        positions.push(token.position)
+        fields.set(field, positions)
+      }
+    }
+
+    this.fieldLengths.set(document.id, lengths)
+  }
+
+  remove(id: string) {
+    if (!this.fieldLengths.has(id)) return
+    this.fieldLengths.delete(id)
+
+    for (const [term, documents] of this.postings) {
+      documents.delete(id)
+      if (documents.size === 0) this.postings.delete(term)
+    }
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchHitPage {
+    const { limit = 50, offset = 0, filter } = options
+    const { terms, phrases } = parseQuery(query)
+    if (terms.length === 0) return { hits: [], total: 0 }
+
+    const averages = this.averageFieldLengths()
+    const scores = new Map<string, number>()
+    const matched = new Map<string, Set<string>>()
+    const termMatches: Set<string>[] = []
+
+    // Every query term (or a close misspelling of it) has to appear somewhere in the document
+    for (const term of terms) {
+      const termDocuments = new Set<string>()
+
+      for (const { variant, weight } of this.expandTerm(term)) {
+        const documents = this.postings.get(variant)!
+        const idf = Math.log(1 + (this.size - documents.size + 0.5) / (documents.size + 0.5))
+
+        for (const [id, fields] of documents) {
+          let termScore = 0
+          for (const [field, positions] of fields) {
+            const length = this.fieldLengths.get(id)![field]
+            const norm = 1 - B + B * (length / (averages[field] || 1))
+            termScore += FIELD_BOOSTS[field] * (positions.length * (K1 + 1)) / (positions.length + K1 * norm)
+          }
+
+          scores.set(id, (scores.get(id) || 0) + idf * termScore * weight)
+          termDocuments.add(id)
+          if (!matched.has(id)) matched.set(id, new Set())
+          matched.get(id)!.add(variant)
+        }
+      }
+
+      termMatches.push(termDocuments)
+    }
+
+    const hits: SearchHit[] = []
+    for (const id of termMatches[0]) {
+      if (termMatches.some(documents => !documents.has(id))) continue
+      if (filter && !filter(id)) continue
+
+      let score = scores.get(id) || 0
+      let phrasesMatch = true
+      for (const phrase of phrases) {
+        const field = this.phraseField(id, phrase)
+        if (!field) {
+          phrasesMatch = false
+          break
+        }
+        score += FIELD_BOOSTS[field] * phrase.length
+      }
+      if (!phrasesMatch) continue
+
+      hits.push({ id, score, matchedTerms: Array.from(matched.get(id) || []) })
+    }
+
+    hits.sort((a, b) => b.score - a.score)
+    return { hits: hits.slice(offset, offset + limit), total: hits.length }
+  }
+
+  // The exact term when the index knows it, otherwise indexed terms within a small edit distance
+  private expandTerm(term: string): { variant: string, weight: number }[] {
+    if (this.postings.has(term)) return [{ variant: term, weight: 1 }]
+    if (term.length < 4) return []
+
+    const maxDistance = term.length >= 8 ? 2 : 1
+    const variants: { variant: string, weight: number }[] = []
+    for (const candidate of this.postings.keys()) {
+      const distance = levenshtein(term, candidate, maxDistance)
+      if (distance <= maxDistance) {
+        variants.push({ variant: candidate, weight: distance === 1 ? 0.6 : 0.35 })
+      }
+    }
+    return variants
+  }
+
+  // Returns the highest-boosted field containing the phrase's terms at consecutive word positions
+  private phraseField(id: string, phrase: Token[]): SearchField | null {
+    const [first, ...others] = phrase
+    const firstFields = this.postings.get(first.term)?.get(id)
+    if (!firstFields) return null
+
+    for (const field of SEARCH_FIELDS) {
+      const starts = firstFields.get(field) || []
+      const found = starts.some(start => others.every(token => {
+        const positions = this.postings.get(token.term)?.get(id)?.get(field)
+        return positions?.includes(start + token.position - first.position)
+      }))
+      if (found) return field
+    }
+    return null
+  }
+
+  private averageFieldLengths(): Record<SearchField, number> {
+    const totals = {} as Record<SearchField, number>
+    for (const field of SEARCH_FIELDS) totals[field] = 0
+    for (const lengths of this.fieldLengths.values()) {
+      for (const field of SEARCH_FIELDS) totals[field] += lengths[field]
+    }
+    for (const field of SEARCH_FIELDS) totals[field] = totals[field] / (this.size || 1)
+    return totals
+  }
+}
+
+// Splits text into plain and matched segments so callers can render <mark> without injecting HTML
+export function highlightText(text: string, terms: string[]): HighlightSegment[] {
+  const wanted = new Set(terms)
+  const segments: HighlightSegment[] = []
+  let cursor = 0
+
+  for (const token of tokenize(text)) {
+    if (!wanted.has(token.term) || token.start < cursor) continue
+    if (token.start > cursor) segments.push({ text: text.slice(cursor, token.start), match: false })
+    segments.push({ text: text.slice(token.start, token.end), match: true })
+    cursor = token.end
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false })
+
+  return segments
+}
+
+// Picks a window of roughly maxLength characters around the first match and highlights it
+export function buildSnippet(text: string, terms: string[], maxLength: number = 200): HighlightSegment[] {
+  const wanted = new Set(terms)
+  const firstMatch = tokenize(text).find(token => wanted.has(token.term))
+  if (!firstMatch) return []
+
+  let start = Math.max(0, firstMatch.start - Math.floor(maxLength / 3))
+  if (start > 0) {
+    const nextSpace = text.indexOf(' ', start)
+    start = nextSpace === -1 || nextSpace > firstMatch.start ? start : nextSpace + 1
+  }
+  let end = Math.min(text.length, start + maxLength)
+  if (end < text.length) {
+    const lastSpace = text.lastIndexOf(' ', end)
+    end = lastSpace > firstMatch.end ? lastSpace : end
+  }
+
+  const segments = highlightText(text.slice(start, end), terms)
+  if (start > 0) segments.unshift({ text: '…', match: false })
+  if (end < text.length) segments.push({ text: '…', match: false })
+  return segments
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
@@ -0,0 +1,163 @@
+import { escapeHtml } from './articleRenderer'
+import { articlePath, categoryPath } from './articleUrl'
+import { htmlToText } from './searchIndex'
+import { SITE_DESCRIPTION, SITE_NAME, absoluteUrl } from './site'
+
+// Search engines cut titles and descriptions at roughly these lengths
+export const SEO_TITLE_LIMIT = 60
+export const SEO_DESCRIPTION_LIMIT = 160
+
+export interface PageMeta {
+  title: string
+  description: string
+  canonical: string
+  noindex?: boolean
+  // og:* and twitter:* values, keyed by the full property or name
+  openGraph: Record<string, string>
+  twitter: Record<string, string>
+  jsonLd?: Record<string, unknown>
+}
+
+// The fields of an article the head is built from; the author is passed separately when
+// the byline has a profile page
+export interface ArticleMetaSource {
+  id: string
+  slug?: string
+  title: string
+  excerpt: string
+  content: string
+  author: string
+  categoryName: string
+  featuredImage: string
+  publishedAt: string
+  updatedAt: string
+  isAggregated: boolean
+  sourceUrl?: string
+  tags: string[]
+  seoTitle?: string
+  seoDescription?: string
+  ogImage?: string
+  noindex?: boolean
+}
+
+export function truncateText(text: string, limit: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim()
+  if (clean.length <= limit) return clean
+  const cut = clean.slice(0, limit - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > limit * 0.6 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:]+$/, '')}…`
+}
+
+export function buildArticleMeta(article: ArticleMetaSource, author?: { name: string, slug: string } | null): PageMeta {
+  const url = absoluteUrl(articlePath(article))
+  const title = article.seoTitle?.trim() || article.title
+  const description = truncateText(
+    article.seoDescription?.trim() || article.excerpt || htmlToText(article.content),
+    SEO_DESCRIPTION_LIMIT
+  )
+  const image = article.ogImage?.trim() || article.featuredImage
+  // Aggregated posts credit the original so search engines index that copy instead of ours
+  const canonical = article.isAggregated && article.sourceUrl ? article.sourceUrl : url
+  const authorUrl = author ? absoluteUrl(`/author/${author.slug}`) : undefined
+
+  const openGraph: Record<string, string> = {
+    'og:type': 'article',
+    'og:site_name': SITE_NAME,
+    'og:title': title,
+    'og:description': description,
+    'og:url': canonical
+  }
+  if (image) openGraph['og:image'] = absoluteUrl(image)
+  if (article.publishedAt) openGraph['article:published_time'] = article.publishedAt
+  if (article.updatedAt) openGraph['article:modified_time'] = article.updatedAt
+  if (article.categoryName) openGraph['article:section'] = article.categoryName
+
+  const twitter: Record<string, string> = {
+    'twitter:card': image ? 'summary_large_image' : 'summary',
+    'twitter:title': title,
+    'twitter:description': description
+  }
+  if (image) twitter['twitter:image'] = absoluteUrl(image)
+
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: truncateText(article.title, 110),
+    description,
+    url,
+    mainEntityOfPage: { '@type': 'WebPage', '@id': canonical },
+    datePublished: article.publishedAt || undefined,
+    dateModified: article.updatedAt || article.publishedAt || undefined,
+    author: { '@type': 'Person', name: author?.name || article.author, url: authorUrl },
+    publisher: { '@type': 'Organization', name: SITE_NAME },
+    image: image ? absoluteUrl(image) : undefined,
+    articleSection: article.categoryName || undefined,
+    keywords: article.tags.length > 0 ? article.tags.join(', ') : undefined,
+    isBasedOn: article.isAggregated ? article.sourceUrl : undefined
+  }
+
+  return {
+    title: `${title} | ${SITE_NAME}`,
+    description,
+    canonical,
+    noindex: article.noindex,
+    openGraph,
+    twitter,
+    jsonLd
+  }
+}
+
+// The home page, or a category's listing when one is given
+export function buildListingMeta(category?: { name: string, slug: string, description: string } | null): PageMeta {
+  const url = absoluteUrl(category ? categoryPath(category) : '/')
+  const title = category ? `${category.name} Articles | ${SITE_NAME}` : SITE_NAME
+  const description = truncateText(
+    category ? category.description || `Latest articles and insights about ${category.name}.` : SITE_DESCRIPTION,
+    SEO_DESCRIPTION_LIMIT
+  )
+
+  return {
+    title,
+    description,
+    canonical: url,
+    openGraph: {
+      'og:type': 'website',
+      'og:site_name': SITE_NAME,
+      'og:title': title,
+      'og:description': description,
+      'og:url': url
+    },
+    twitter: {
+      'twitter:card': 'summary',
+      'twitter:title': title,
+      'twitter:description': description
+    }
+  }
+}
+
+// The same tags useDocumentHead manages, as markup for pages rendered ahead of time. They carry
+// the hook's marker attribute so the client replaces them instead of adding a second set.
+// The title is left out: callers swap it into the template's own <title>.
+export function renderHeadTags(meta: PageMeta): string {
+  const attr = (value: string) => escapeHtml(value)
+  const tags = [
+    `<meta name="description" content="${attr(meta.description)}" data-page-head>`,
+    `<link rel="canonical" href="${attr(meta.canonical)}" data-page-head>`
+  ]
+  if (meta.noindex) tags.push('<meta name="robots" content="noindex" data-page-head>')
+  for (const [property, content] of Object.entries(meta.openGraph)) {
+    tags.push(`<meta property="${attr(property)}" content="${attr(content)}" data-page-head>`)
+  }
+  for (const [name, content] of Object.entries(meta.twitter)) {
+    tags.push(`<meta name="${attr(name)}" content="${attr(content)}" data-page-head>`)
+  }
+  if (meta.jsonLd) {
+    tags.push(`<script type="application/ld+json" data-page-head>${serializeJsonLd(meta.jsonLd)}</script>`)
+  }
+  return tags.join('\n')
+}
+
+// "</script>" inside a string value would end the tag early
+export function serializeJsonLd(data: Record<string, unknown>): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c')
+}
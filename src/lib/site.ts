@@ -0,0 +1,16 @@
+export const SITE_NAME = 'TechBlog'
+
+export const SITE_DESCRIPTION = 'Your go-to source for the latest in technology, AI, and development trends.'
+
+// Absolute URLs (canonical links, feeds, sitemaps) use VITE_SITE_URL when set, so builds
+// outside the browser and previews on other hosts still point at the real site
+export function siteUrl(): string {
+  const configured = import.meta.env?.VITE_SITE_URL as string | undefined
+  if (configured) return configured.replace(/\/+$/, '')
+  return typeof window !== 'undefined' ? window.location.origin : ''
+}
+
+export function absoluteUrl(path: string): string {
+  if (/^https?:\/\//i.test(path)) return path
+  return `${siteUrl()}${path.startsWith('/') ? path : `/${path}`}`
+}
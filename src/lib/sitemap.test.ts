@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { chunkUrls, latestDate, renderRobotsTxt, renderSitemapIndex, renderUrlset } from './sitemap'
+
+const SITEMAP_NS = 'http://www.sitemaps.org/schemas/sitemap/0.9'
+
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0)
+  return doc
+}
+
+function entries(doc: Document, tag: 'url' | 'sitemap') {
+  return Array.from(doc.getElementsByTagNameNS(SITEMAP_NS, tag), entry => ({
+    loc: entry.getElementsByTagNameNS(SITEMAP_NS, 'loc')[0]?.textContent,
+    lastmod: entry.getElementsByTagNameNS(SITEMAP_NS, 'lastmod')[0]?.textContent
+  }))
+}
+
+describe('renderUrlset', () => {
+  it('produces a well-formed urlset with escaped locations and W3C dates', () => {
+    const doc = parseXml(renderUrlset([
+      { loc: 'https://blog.example.com/', lastmod: '2026-03-04T08:00:00Z' },
+      { loc: 'https://blog.example.com/search?q=a&b=<c>' },
+      { loc: 'https://blog.example.com/article/x', lastmod: 'not a date' }
+    ]))
+
+    expect(doc.documentElement.localName).toBe('urlset')
+    expect(doc.documentElement.namespaceURI).toBe(SITEMAP_NS)
+    expect(entries(doc, 'url')).toEqual([
+      { loc: 'https://blog.example.com/', lastmod: '2026-03-04T08:00:00.000Z' },
+      { loc: 'https://blog.example.com/search?q=a&b=<c>', lastmod: undefined },
+      // Unparseable dates are left out rather than emitted
+      { loc: 'https://blog.example.com/article/x', lastmod: undefined }
+    ])
+  })
+
+  it('is still well formed with no URLs', () => {
+    expect(entries(parseXml(renderUrlset([])), 'url')).toEqual([])
+  })
+})
+
+describe('renderSitemapIndex', () => {
+  it('produces a well-formed sitemap index', () => {
+    const doc = parseXml(renderSitemapIndex([
+      { loc: 'https://blog.example.com/sitemap-articles-1.xml', lastmod: '2026-03-04T08:00:00.000Z' },
+      { loc: 'https://blog.example.com/sitemap-articles-2.xml' }
+    ]))
+
+    expect(doc.documentElement.localName).toBe('sitemapindex')
+    expect(doc.documentElement.namespaceURI).toBe(SITEMAP_NS)
+    expect(entries(doc, 'sitemap').map(entry => entry.loc)).toEqual([
+      'https://blog.example.com/sitemap-articles-1.xml',
+      'https://blog.example.com/sitemap-articles-2.xml'
+    ])
+  })
+})
+
+describe('renderRobotsTxt', () => {
+  it('allows crawling, disallows private paths and lists the sitemaps', () => {
+    expect(renderRobotsTxt({
+      disallow: ['/admin', '/reading-list'],
+      sitemaps: ['https://blog.example.com/sitemap.xml', 'https://blog.example.com/sitemap-authors.xml']
+    })).toBe([
+      'User-agent: *',
+      'Allow: /',
+      'Disallow: /admin',
+      'Disallow: /reading-list',
+      '',
+      'Sitemap: https://blog.example.com/sitemap.xml',
+      'Sitemap: https://blog.example.com/sitemap-authors.xml',
+      ''
+    ].join('\n'))
+  })
+})
+
+describe('chunkUrls and latestDate', () => {
+  it('splits into chunks of at most the limit', () => {
+    expect(chunkUrls([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]])
+    expect(chunkUrls([1, 2], 2)).toEqual([[1, 2]])
+    expect(chunkUrls([], 2)).toEqual([])
+  })
+
+  it('picks the newest date and ignores blanks', () => {
+    expect(latestDate(['2026-03-01T00:00:00.000Z', undefined, '', '2026-03-04T00:00:00.000Z'])).toBe('2026-03-04T00:00:00.000Z')
+    expect(latestDate([undefined, ''])).toBeUndefined()
+  })
+})
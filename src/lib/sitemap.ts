@@ -0,0 +1,70 @@
+import { escapeXml } from './feedWriter'
+
+// Limit set by the sitemap protocol for a single file, urlset or index alike
+export const SITEMAP_URL_LIMIT = 50000
+
+export interface SitemapUrl {
+  loc: string
+  lastmod?: string
+}
+
+export function renderUrlset(urls: SitemapUrl[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls.map(url => renderEntry('url', url)),
+    '</urlset>',
+    ''
+  ].join('\n')
+}
+
+// Each entry points at another sitemap file rather than a page
+export function renderSitemapIndex(sitemaps: SitemapUrl[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps.map(sitemap => renderEntry('sitemap', sitemap)),
+    '</sitemapindex>',
+    ''
+  ].join('\n')
+}
+
+export function renderRobotsTxt(options: { disallow: string[], sitemaps: string[] }): string {
+  return [
+    'User-agent: *',
+    'Allow: /',
+    ...options.disallow.map(path => `Disallow: ${path}`),
+    '',
+    ...options.sitemaps.map(url => `Sitemap: ${url}`),
+    ''
+  ].join('\n')
+}
+
+export function chunkUrls<T>(urls: T[], size: number = SITEMAP_URL_LIMIT): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < urls.length; i += size) {
+    chunks.push(urls.slice(i, i + size))
+  }
+  return chunks
+}
+
+// The newest of several timestamps, ignoring blanks; undefined when there are none
+export function latestDate(dates: Array<string | undefined>): string | undefined {
+  return dates.filter((date): date is string => !!date).sort().pop()
+}
+
+function renderEntry(tag: 'url' | 'sitemap', entry: SitemapUrl): string {
+  const lastmod = entry.lastmod ? toW3cDate(entry.lastmod) : null
+  return [
+    `  <${tag}>`,
+    `    <loc>${escapeXml(entry.loc)}</loc>`,
+    ...(lastmod ? [`    <lastmod>${lastmod}</lastmod>`] : []),
+    `  </${tag}>`
+  ].join('\n')
+}
+
+// lastmod is W3C datetime; unparseable values are dropped rather than emitted
+function toW3cDate(value: string): string | null {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
@@ -0,0 +1,28 @@
+const MAX_SLUG_LENGTH = 80
+
+// "Jane Doe's C++ Notes" -> "jane-does-c-notes"; accents are folded so URLs stay ASCII
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['\u2019]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '')
+}
+
+export function isValidSlug(slug: string): boolean {
+  return /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug) && slug.length <= MAX_SLUG_LENGTH
+}
+
+// Appends -2, -3, … until `isTaken` says the slug is free
+export async function uniqueSlug(base: string, isTaken: (slug: string) => Promise<boolean>, fallback: string = 'item'): Promise<string> {
+  const root = slugify(base) || fallback
+  let slug = root
+  for (let suffix = 2; await isTaken(slug); suffix++) {
+    slug = `${root.slice(0, MAX_SLUG_LENGTH - String(suffix).length - 1)}-${suffix}`
+  }
+  return slug
+}
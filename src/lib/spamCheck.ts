@@ -0,0 +1,67 @@
+import { countLinks } from './commentFormat'
+
+export interface SpamSettings {
+  // Comments with more links than this wait in the moderation queue
+  maxLinks: number
+  // Comments containing any of these words (case-insensitive, whole words) are held for moderation
+  blocklist: string[]
+  // At most rateLimitCount comments per user within rateLimitMinutes
+  rateLimitCount: number
+  rateLimitMinutes: number
+  // Hold every comment from users without an approved comment yet
+  holdFirstComment: boolean
+}
+
+export const DEFAULT_SPAM_SETTINGS: SpamSettings = {
+  maxLinks: 2,
+  blocklist: ['viagra', 'casino', 'crypto giveaway', 'free money'],
+  rateLimitCount: 5,
+  rateLimitMinutes: 10,
+  holdFirstComment: false
+}
+
+export type SpamVerdict = 'allow' | 'hold' | 'block'
+
+export interface SpamResult {
+  verdict: SpamVerdict
+  reasons: string[]
+}
+
+export interface SpamContext {
+  recentCommentCount: number
+  hasApprovedComment: boolean
+}
+
+export function checkSpam(body: string, settings: SpamSettings, context: SpamContext): SpamResult {
+  if (context.recentCommentCount >= settings.rateLimitCount) {
+    return {
+      verdict: 'block',
+      reasons: [`More than ${settings.rateLimitCount} comments in ${settings.rateLimitMinutes} minutes`]
+    }
+  }
+
+  const reasons: string[] = []
+
+  const links = countLinks(body)
+  if (links > settings.maxLinks) {
+    reasons.push(`${links} links (limit ${settings.maxLinks})`)
+  }
+
+  const lower = body.toLowerCase()
+  const blocked = settings.blocklist
+    .map(word => word.trim().toLowerCase())
+    .filter(word => word && new RegExp(`(^|\\W)${escapeRegExp(word)}(\\W|$)`).test(lower))
+  if (blocked.length > 0) {
+    reasons.push(`Blocklisted: ${blocked.join(', ')}`)
+  }
+
+  if (settings.holdFirstComment && !context.hasApprovedComment) {
+    reasons.push('First comment')
+  }
+
+  return { verdict: reasons.length > 0 ? 'hold' : 'allow', reasons }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
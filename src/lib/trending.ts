@@ -0,0 +1,37 @@
+export interface EngagementCounts {
+  views: number
+  likes: number
+  bookmarks: number
+  shares: number
+}
+
+export interface TrendingSettings {
+  weights: EngagementCounts
+  // Higher gravity makes older articles sink faster
+  gravity: number
+  // Only engagement from this many recent days counts
+  windowDays: number
+}
+
+export const DEFAULT_TRENDING_SETTINGS: TrendingSettings = {
+  weights: { views: 1, likes: 5, bookmarks: 8, shares: 10 },
+  gravity: 1.5,
+  windowDays: 7
+}
+
+export function engagementPoints(counts: EngagementCounts, weights: EngagementCounts): number {
+  return counts.views * weights.views +
+    counts.likes * weights.likes +
+    counts.bookmarks * weights.bookmarks +
+    counts.shares * weights.shares
+}
+
+// Hacker News style: points / (age in hours + 2) ^ gravity
+export function trendingScore(counts: EngagementCounts, publishedAt: string, now: Date, settings: TrendingSettings): number {
+  const points = engagementPoints(counts, settings.weights)
+  if (points <= 0) return 0
+
+  const published = new Date(publishedAt).getTime()
+  const ageHours = Number.isNaN(published) ? 0 : Math.max(0, (now.getTime() - published) / (60 * 60 * 1000))
+  return points / Math.pow(ageHours + 2, settings.gravity)
+}
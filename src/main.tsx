@@ -1,12 +1,29 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import App from './App'
+import { PrerenderContext } from './hooks/use-prerender-data'
+import { readPrerenderData } from './lib/prerender'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
+const container = document.getElementById('root')!
+const prerendered = readPrerenderData()
+
+// Keep in step with src/entry-server.tsx: hydration needs the same tree the page was rendered with
+const app = (
   <React.StrictMode>
-    <Toaster position="top-right" />
-    <App />
-  </React.StrictMode>,
-) 
\ No newline at end of file
+    <PrerenderContext.Provider value={prerendered}>
+      <BrowserRouter>
+        <Toaster position="top-right" />
+        <App />
+      </BrowserRouter>
+    </PrerenderContext.Provider>
+  </React.StrictMode>
+)
+
+if (prerendered) {
+  ReactDOM.hydrateRoot(container, app)
+} else {
+  ReactDOM.createRoot(container).render(app)
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Link } from 'react-router-dom'
 import { 
   BarChart3, 
@@ -11,46 +11,114 @@ import {
   Eye,
   ExternalLink,
   Calendar,
-  Clock
+  Clock,
+  MoreHorizontal,
+  Link2
 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Badge } from '../components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table'
-import { articleService, type Article } from '../services/articleService'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from '../components/ui/dropdown-menu'
+import AnalyticsPanel from '../components/admin/AnalyticsPanel'
+import AuthorsPanel from '../components/admin/AuthorsPanel'
+import CategoriesPanel from '../components/admin/CategoriesPanel'
+import TagsPanel from '../components/admin/TagsPanel'
+import CommentModerationPanel from '../components/admin/CommentModerationPanel'
+import FeedSettingsPanel from '../components/admin/FeedSettingsPanel'
+import FeedSourcesPanel from '../components/admin/FeedSourcesPanel'
+import StatusBadge from '../components/admin/StatusBadge'
+import TrendingSettingsPanel from '../components/admin/TrendingSettingsPanel'
+import TablePagination from '../components/admin/TablePagination'
+import UserRolesPanel from '../components/admin/UserRolesPanel'
+import { articlePath } from '../lib/articleUrl'
+import { canChangeStatus, canDeleteArticle, canEditArticle, hasPermission, type Actor } from '../lib/permissions'
+import {
+  articleService,
+  ARTICLE_STATUSES,
+  STATUS_LABELS,
+  STATUS_TRANSITIONS,
+  type Article,
+  type ArticleStatus
+} from '../services/articleService'
+import { analyticsService } from '../services/analyticsService'
+import { commentService } from '../services/commentService'
 
-export default function AdminDashboard() {
+const PAGE_SIZE = 20
+
+// Article tables and the isAggregated filter each one lists
+const TABLE_TABS: Record<string, boolean | undefined> = {
+  posts: undefined,
+  original: false,
+  aggregated: true
+}
+
+interface AdminDashboardProps {
+  actor: Actor
+}
+
+export default function AdminDashboard({ actor }: AdminDashboardProps) {
   const [articles, setArticles] = useState<Article[]>([])
+  const [recentArticles, setRecentArticles] = useState<Article[]>([])
   const [loading, setLoading] = useState(true)
+  const [activeTab, setActiveTab] = useState('posts')
+  const [statusFilter, setStatusFilter] = useState<ArticleStatus | 'all'>('all')
+  const [page, setPage] = useState(1)
+  const [pageTotal, setPageTotal] = useState(0)
+  // Bumped on every table load so only the latest request's rows are shown
+  const articleRequest = useRef(0)
+  const [statusCounts, setStatusCounts] = useState({} as Record<ArticleStatus, number>)
+  const [pendingComments, setPendingComments] = useState(0)
   const [stats, setStats] = useState({
     totalArticles: 0,
     originalArticles: 0,
     aggregatedArticles: 0,
-    totalViews: 0
+    totalViews: 0,
+    recentViews: 0
   })
 
+  // Contributors only ever see their own articles
+  const ownerId = hasPermission(actor, 'article:edit_any') ? undefined : actor.id
+  const canModerate = hasPermission(actor, 'comments:moderate')
+
   useEffect(() => {
-    loadDashboardData()
-  }, [])
+    loadDashboardData(ownerId, canModerate)
+  }, [ownerId, canModerate])
 
-  const loadDashboardData = async () => {
+  useEffect(() => {
+    if (activeTab in TABLE_TABS) {
+      loadArticlePage(activeTab, statusFilter, page, ownerId)
+    }
+  }, [activeTab, statusFilter, page, ownerId])
+
+  const loadDashboardData = async (userId: string | undefined, includeComments: boolean) => {
     setLoading(true)
     try {
-      const allArticles = await articleService.getArticles({ limit: 100 })
-      setArticles(allArticles)
+      const [totalArticles, originalArticles, aggregatedArticles, counts, recent, totalViews, recentSummary, pending] = await Promise.all([
+        articleService.countArticles({ status: 'all', userId }),
+        articleService.countArticles({ status: 'all', isAggregated: false, userId }),
+        articleService.countArticles({ status: 'all', isAggregated: true, userId }),
+        Promise.all(ARTICLE_STATUSES.map(status => articleService.countArticles({ status, userId }))),
+        articleService.getArticles({ limit: 5, status: 'all', userId }),
+        analyticsService.getTotalViews(),
+        analyticsService.getSummary(30),
+        includeComments ? commentService.getPendingCount() : Promise.resolve(0)
+      ])
       
-      // Calculate stats
-      const totalArticles = allArticles.length
-      const originalArticles = allArticles.filter(a => !a.isAggregated).length
-      const aggregatedArticles = allArticles.filter(a => a.isAggregated).length
-      const totalViews = Math.floor(Math.random() * 10000) + 5000 // Mock data
+      setStatusCounts(Object.fromEntries(
+        ARTICLE_STATUSES.map((status, index) => [status, counts[index]])
+      ) as Record<ArticleStatus, number>)
+      setRecentArticles(recent)
+      setPendingComments(pending)
       
       setStats({
         totalArticles,
         originalArticles,
         aggregatedArticles,
-        totalViews
+        totalViews,
+        recentViews: recentSummary.totalViews
       })
     } catch (error) {
       console.error('Error loading dashboard data:', error)
@@ -59,18 +127,69 @@ export default function AdminDashboard() {
     }
   }
 
+  const loadArticlePage = async (tab: string, status: ArticleStatus | 'all', pageNumber: number, userId: string | undefined) => {
+    const request = ++articleRequest.current
+    const result = await articleService.getArticlesPage({
+      status,
+      isAggregated: TABLE_TABS[tab],
+      userId,
+      limit: PAGE_SIZE,
+      offset: (pageNumber - 1) * PAGE_SIZE
+    })
+    // A quicker response for a later tab, filter or page may already be showing
+    if (request !== articleRequest.current) return
+    setArticles(result.articles)
+    setPageTotal(result.total)
+  }
+
+  const refresh = async () => {
+    await Promise.all([
+      loadDashboardData(ownerId, canModerate),
+      loadArticlePage(activeTab, statusFilter, page, ownerId)
+    ])
+  }
+
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab)
+    setPage(1)
+  }
+
+  const handleStatusFilterChange = (status: ArticleStatus | 'all') => {
+    setStatusFilter(status)
+    setPage(1)
+  }
+
   const handleDeleteArticle = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this article?')) {
       try {
-        await articleService.deleteArticle(id)
-        await loadDashboardData() // Reload data
+        const deleted = await articleService.deleteArticle(id, actor)
+        if (!deleted) {
+          alert('Failed to delete article. Please try again.')
+        }
+        await refresh() // Reload data
       } catch (error) {
         console.error('Error deleting article:', error)
       }
     }
   }
 
+  const handleBackfillSlugs = async () => {
+    const filled = await articleService.backfillSlugs()
+    alert(filled > 0 ? `Generated slugs for ${filled} articles.` : 'Every article already has a slug.')
+    await refresh()
+  }
+
+  const handleTransition = async (id: string, status: ArticleStatus) => {
+    const result = await articleService.transitionArticle(id, status, actor)
+    if (result) {
+      await refresh()
+    } else {
+      alert(`Failed to move article to ${STATUS_LABELS[status]}. Please try again.`)
+    }
+  }
+
   const formatDate = (dateString: string) => {
+    if (!dateString) return '—'
     return new Date(dateString).toLocaleDateString('en-US', { 
       year: 'numeric', 
       month: 'short', 
@@ -79,10 +198,62 @@ export default function AdminDashboard() {
   }
 
   const getStatusBadge = (article: Article) => {
-    if (article.isAggregated) {
-      return <Badge variant="outline">Aggregated</Badge>
-    }
-    return <Badge variant="default">Original</Badge>
+    return (
+      <div className="flex items-center gap-1">
+        <StatusBadge status={article.status} />
+        {article.isAggregated && <Badge variant="outline">Aggregated</Badge>}
+      </div>
+    )
+  }
+
+  const pageCount = Math.ceil(pageTotal / PAGE_SIZE)
+
+  const renderRowActions = (article: Article) => {
+    const transitions = STATUS_TRANSITIONS[article.status].filter(status => canChangeStatus(actor, article, status))
+
+    return (
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to={articlePath(article)}>
+            <Eye className="h-4 w-4" />
+          </Link>
+        </Button>
+        {canEditArticle(actor, article) && (
+          <Button variant="ghost" size="sm" asChild>
+            <Link to={`/admin/edit/${article.id}`}>
+              <Edit className="h-4 w-4" />
+            </Link>
+          </Button>
+        )}
+        {transitions.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Move to</DropdownMenuLabel>
+              {transitions.map((status) => (
+                <DropdownMenuItem key={status} onClick={() => handleTransition(article.id, status)}>
+                  {STATUS_LABELS[status]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {canDeleteArticle(actor, article) && (
+          <Button 
+            variant="ghost" 
+            size="sm"
+            onClick={() => handleDeleteArticle(article.id)}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    )
   }
 
   if (loading) {
@@ -104,12 +275,20 @@ export default function AdminDashboard() {
               Manage your blog content and monitor performance
             </p>
           </div>
-          <Button asChild>
-            <Link to="/admin/create">
-              <Plus className="mr-2 h-4 w-4" />
-              Create New Post
-            </Link>
-          </Button>
+          <div className="flex gap-2">
+            {hasPermission(actor, 'article:edit_any') && (
+              <Button variant="outline" onClick={handleBackfillSlugs}>
+                <Link2 className="mr-2 h-4 w-4" />
+                Generate Missing Slugs
+              </Button>
+            )}
+            <Button asChild>
+              <Link to="/admin/create">
+                <Plus className="mr-2 h-4 w-4" />
+                Create New Post
+              </Link>
+            </Button>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -161,20 +340,48 @@ export default function AdminDashboard() {
             <CardContent>
               <div className="text-2xl font-bold">{stats.totalViews.toLocaleString()}</div>
               <p className="text-xs text-muted-foreground">
-                +12% from last month
+                {stats.recentViews.toLocaleString()} in the last 30 days
               </p>
             </CardContent>
           </Card>
         </div>
 
         {/* Main Content */}
-        <Tabs defaultValue="posts" className="space-y-6">
-          <TabsList>
-            <TabsTrigger value="posts">All Posts</TabsTrigger>
-            <TabsTrigger value="original">Original Content</TabsTrigger>
-            <TabsTrigger value="aggregated">Aggregated Content</TabsTrigger>
-            <TabsTrigger value="analytics">Analytics</TabsTrigger>
-          </TabsList>
+        <Tabs value={activeTab} onValueChange={handleTabChange} className="space-y-6">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <TabsList>
+              <TabsTrigger value="posts">All Posts</TabsTrigger>
+              <TabsTrigger value="original">Original Content</TabsTrigger>
+              <TabsTrigger value="aggregated">Aggregated Content</TabsTrigger>
+              {hasPermission(actor, 'authors:manage') && <TabsTrigger value="authors">Authors</TabsTrigger>}
+              {hasPermission(actor, 'categories:manage') && <TabsTrigger value="categories">Categories</TabsTrigger>}
+              {hasPermission(actor, 'tags:manage') && <TabsTrigger value="tags">Tags</TabsTrigger>}
+              {hasPermission(actor, 'sources:manage') && <TabsTrigger value="sources">Sources</TabsTrigger>}
+              {hasPermission(actor, 'analytics:view') && <TabsTrigger value="analytics">Analytics</TabsTrigger>}
+              {hasPermission(actor, 'settings:manage') && <TabsTrigger value="ranking">Ranking</TabsTrigger>}
+              {hasPermission(actor, 'settings:manage') && <TabsTrigger value="feeds">Feeds</TabsTrigger>}
+              {canModerate && (
+                <TabsTrigger value="comments">
+                  Comments
+                  {pendingComments > 0 && <Badge variant="secondary" className="ml-2">{pendingComments}</Badge>}
+                </TabsTrigger>
+              )}
+              {hasPermission(actor, 'users:manage') && <TabsTrigger value="users">Users</TabsTrigger>}
+            </TabsList>
+            <Select value={statusFilter} onValueChange={(value) => handleStatusFilterChange(value as ArticleStatus | 'all')}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses ({stats.totalArticles})</SelectItem>
+                {ARTICLE_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {STATUS_LABELS[status]} ({statusCounts[status] || 0})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
 
           <TabsContent value="posts">
             <Card>
@@ -188,7 +395,7 @@ export default function AdminDashboard() {
                       <TableHead>Title</TableHead>
                       <TableHead>Author</TableHead>
                       <TableHead>Category</TableHead>
-                      <TableHead>Type</TableHead>
+                      <TableHead>Status</TableHead>
                       <TableHead>Published</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
@@ -222,32 +429,12 @@ export default function AdminDashboard() {
                             {formatDate(article.publishedAt)}
                           </div>
                         </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <Button variant="ghost" size="sm" asChild>
-                              <Link to={`/article/${article.id}`}>
-                                <Eye className="h-4 w-4" />
-                              </Link>
-                            </Button>
-                            <Button variant="ghost" size="sm" asChild>
-                              <Link to={`/admin/edit/${article.id}`}>
-                                <Edit className="h-4 w-4" />
-                              </Link>
-                            </Button>
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => handleDeleteArticle(article.id)}
-                              className="text-destructive hover:text-destructive"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </TableCell>
+                        <TableCell>{renderRowActions(article)}</TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
                 </Table>
+                <TablePagination page={page} pageCount={pageCount} onPageChange={setPage} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -264,12 +451,13 @@ export default function AdminDashboard() {
                       <TableHead>Title</TableHead>
                       <TableHead>Author</TableHead>
                       <TableHead>Category</TableHead>
+                      <TableHead>Status</TableHead>
                       <TableHead>Published</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {articles.filter(a => !a.isAggregated).map((article) => (
+                    {articles.map((article) => (
                       <TableRow key={article.id}>
                         <TableCell>
                           <div>
@@ -290,38 +478,19 @@ export default function AdminDashboard() {
                             {article.categoryName}
                           </Badge>
                         </TableCell>
+                        <TableCell><StatusBadge status={article.status} /></TableCell>
                         <TableCell>
                           <div className="flex items-center gap-1 text-sm text-muted-foreground">
                             <Calendar className="h-3 w-3" />
                             {formatDate(article.publishedAt)}
                           </div>
                         </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <Button variant="ghost" size="sm" asChild>
-                              <Link to={`/article/${article.id}`}>
-                                <Eye className="h-4 w-4" />
-                              </Link>
-                            </Button>
-                            <Button variant="ghost" size="sm" asChild>
-                              <Link to={`/admin/edit/${article.id}`}>
-                                <Edit className="h-4 w-4" />
-                              </Link>
-                            </Button>
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => handleDeleteArticle(article.id)}
-                              className="text-destructive hover:text-destructive"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </TableCell>
+                        <TableCell>{renderRowActions(article)}</TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
                 </Table>
+                <TablePagination page={page} pageCount={pageCount} onPageChange={setPage} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -339,12 +508,13 @@ export default function AdminDashboard() {
                       <TableHead>Author</TableHead>
                       <TableHead>Source</TableHead>
                       <TableHead>Category</TableHead>
+                      <TableHead>Status</TableHead>
                       <TableHead>Published</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {articles.filter(a => a.isAggregated).map((article) => (
+                    {articles.map((article) => (
                       <TableRow key={article.id}>
                         <TableCell>
                           <div>
@@ -377,92 +547,125 @@ export default function AdminDashboard() {
                             {article.categoryName}
                           </Badge>
                         </TableCell>
+                        <TableCell><StatusBadge status={article.status} /></TableCell>
                         <TableCell>
                           <div className="flex items-center gap-1 text-sm text-muted-foreground">
                             <Calendar className="h-3 w-3" />
                             {formatDate(article.publishedAt)}
                           </div>
                         </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <Button variant="ghost" size="sm" asChild>
-                              <Link to={`/article/${article.id}`}>
-                                <Eye className="h-4 w-4" />
-                              </Link>
-                            </Button>
-                            <Button variant="ghost" size="sm" asChild>
-                              <Link to={`/admin/edit/${article.id}`}>
-                                <Edit className="h-4 w-4" />
-                              </Link>
-                            </Button>
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => handleDeleteArticle(article.id)}
-                              className="text-destructive hover:text-destructive"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </TableCell>
+                        <TableCell>{renderRowActions(article)}</TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
                 </Table>
+                <TablePagination page={page} pageCount={pageCount} onPageChange={setPage} />
               </CardContent>
             </Card>
           </TabsContent>
 
-          <TabsContent value="analytics">
-            <div className="grid gap-6">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Content Performance</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm font-medium">Most Popular Category</span>
-                      <Badge>AI & Machine Learning</Badge>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm font-medium">Average Read Time</span>
-                      <span className="text-sm text-muted-foreground">8.5 minutes</span>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm font-medium">Content Mix</span>
-                      <span className="text-sm text-muted-foreground">
-                        {Math.round((stats.originalArticles / stats.totalArticles) * 100)}% Original, {Math.round((stats.aggregatedArticles / stats.totalArticles) * 100)}% Aggregated
-                      </span>
+          {hasPermission(actor, 'authors:manage') && (
+            <TabsContent value="authors">
+              <AuthorsPanel />
+            </TabsContent>
+          )}
+
+          {hasPermission(actor, 'categories:manage') && (
+            <TabsContent value="categories">
+              <CategoriesPanel actor={actor} />
+            </TabsContent>
+          )}
+
+          {hasPermission(actor, 'tags:manage') && (
+            <TabsContent value="tags">
+              <TagsPanel />
+            </TabsContent>
+          )}
+
+          {hasPermission(actor, 'sources:manage') && (
+            <TabsContent value="sources">
+              <FeedSourcesPanel />
+            </TabsContent>
+          )}
+
+          {hasPermission(actor, 'settings:manage') && (
+            <TabsContent value="ranking">
+              <TrendingSettingsPanel />
+            </TabsContent>
+          )}
+
+          {hasPermission(actor, 'settings:manage') && (
+            <TabsContent value="feeds">
+              <FeedSettingsPanel />
+            </TabsContent>
+          )}
+
+          {canModerate && (
+            <TabsContent value="comments">
+              <CommentModerationPanel actor={actor} />
+            </TabsContent>
+          )}
+
+          {hasPermission(actor, 'users:manage') && (
+            <TabsContent value="users">
+              <UserRolesPanel actor={actor} />
+            </TabsContent>
+          )}
+
+          {hasPermission(actor, 'analytics:view') && (
+            <TabsContent value="analytics">
+              <div className="grid gap-6">
+                <AnalyticsPanel />
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Content Performance</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">Most Popular Category</span>
+                        <Badge>AI & Machine Learning</Badge>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">Average Read Time</span>
+                        <span className="text-sm text-muted-foreground">8.5 minutes</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">Content Mix</span>
+                        <span className="text-sm text-muted-foreground">
+                          {Math.round((stats.originalArticles / stats.totalArticles) * 100)}% Original, {Math.round((stats.aggregatedArticles / stats.totalArticles) * 100)}% Aggregated
+                        </span>
+                      </div>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader>
-                  <CardTitle>Recent Activity</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    {articles.slice(0, 5).map((article) => (
-                      <div key={article.id} className="flex items-center gap-3">
-                        <div className="w-2 h-2 bg-primary rounded-full"></div>
-                        <div className="flex-1">
-                          <p className="text-sm font-medium line-clamp-1">
-                            {article.isAggregated ? 'Aggregated' : 'Published'}: {article.title}
-                          </p>
-                          <p className="text-xs text-muted-foreground">
-                            {formatDate(article.publishedAt)} • {article.author}
-                          </p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Recent Activity</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      {recentArticles.map((article) => (
+                        <div key={article.id} className="flex items-center gap-3">
+                          <div className="w-2 h-2 bg-primary rounded-full"></div>
+                          <div className="flex-1">
+                            <p className="text-sm font-medium line-clamp-1">
+                              {STATUS_LABELS[article.status]}: {article.title}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatDate(article.publishedAt)} • {article.author}
+                            </p>
+                          </div>
                         </div>
-                      </div>
-                    ))}
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
-          </TabsContent>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
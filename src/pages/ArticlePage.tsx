@@ -1,44 +1,116 @@
-import { useState, useEffect } from 'react'
-import { useParams, Link } from 'react-router-dom'
+import { useState, useEffect, useRef } from 'react'
+import { useParams, Link, Navigate } from 'react-router-dom'
 import { Calendar, Clock, User, ArrowLeft, Share2, Bookmark, Heart, ExternalLink } from 'lucide-react'
 import { Button } from '../components/ui/button'
 import { Badge } from '../components/ui/badge'
 import { Card, CardContent } from '../components/ui/card'
 import { Separator } from '../components/ui/separator'
+import { Avatar, AvatarFallback, AvatarImage } from '../components/ui/avatar'
+import ArticleContent from '../components/article/ArticleContent'
+import CommentSection from '../components/article/CommentSection'
+import AuthorSocialLinks from '../components/article/AuthorSocialLinks'
+import { useDocumentHead } from '../hooks/use-document-head'
+import { usePrerenderData } from '../hooks/use-prerender-data'
+import { useReadDepth } from '../hooks/use-read-depth'
+import { articlePath } from '../lib/articleUrl'
+import { formatLongDate } from '../lib/dates'
+import type { Actor } from '../lib/permissions'
+import { buildArticleMeta } from '../lib/seo'
+import { slugify } from '../lib/slugify'
+import { analyticsService, READ_DEPTH_MILESTONES, type ReadDepth } from '../services/analyticsService'
 import { articleService, type Article } from '../services/articleService'
+import { authorService, type Author } from '../services/authorService'
+import { reactionService, type ReactionType } from '../services/reactionService'
 
-export default function ArticlePage() {
-  const { id } = useParams()
-  const [article, setArticle] = useState<Article | null>(null)
-  const [relatedArticles, setRelatedArticles] = useState<Article[]>([])
-  const [loading, setLoading] = useState(true)
+interface ArticlePageProps {
+  user: any
+  // Editors can open articles readers can't, such as drafts they are previewing
+  actor: Actor | null
+}
+
+export default function ArticlePage({ user, actor }: ArticlePageProps) {
+  const { slug } = useParams()
+  // A pre-rendered article shows the build's copy straight away; loadArticle then refreshes it
+  const snapshot = usePrerenderData()?.article
+  const [article, setArticle] = useState<Article | null>(snapshot?.article || null)
+  const [redirectTo, setRedirectTo] = useState<string | null>(null)
+  const [author, setAuthor] = useState<Author | null>(snapshot?.author || null)
+  const [relatedArticles, setRelatedArticles] = useState<Article[]>(snapshot?.related || [])
+  const [loading, setLoading] = useState(!snapshot)
+  // The slug whose article is on screen, so reloading it doesn't flash the spinner
+  const shownSlug = useRef(snapshot?.slug)
   const [liked, setLiked] = useState(false)
   const [bookmarked, setBookmarked] = useState(false)
+  const [counts, setCounts] = useState({ likes: 0, bookmarks: 0 })
   const [error, setError] = useState<string | null>(null)
+  const userId: string | null = user?.id || null
+
+  const articleRef = useReadDepth<HTMLElement>(article?.id, READ_DEPTH_MILESTONES, (depth) => {
+    if (!article || !articleService.isPublic(article)) return
+    analyticsService.trackReadDepth(article.id, depth as ReadDepth)
+    // Reaching the end of a saved article ticks it off the reading list
+    if (depth === 100 && bookmarked) {
+      reactionService.setRead(article.id, true, userId)
+    }
+  })
+
+  const articleId = article?.id
+
+  useDocumentHead(article ? buildArticleMeta(article, author) : null)
+
+  useEffect(() => {
+    if (slug) {
+      loadArticle(slug, actor, shownSlug.current === slug)
+    }
+  }, [slug, actor])
 
   useEffect(() => {
-    if (id) {
-      loadArticle(id)
+    if (articleId) {
+      loadReactions(articleId, userId)
     }
-  }, [id])
+  }, [articleId, userId])
+
+  const loadReactions = async (articleId: string, readerId: string | null) => {
+    const state = await reactionService.getReactionState(articleId, readerId)
+    setLiked(state.liked)
+    setBookmarked(state.bookmarked)
+    setCounts({ likes: state.likes, bookmarks: state.bookmarks })
+  }
 
-  const loadArticle = async (articleId: string) => {
-    setLoading(true)
+  // `refresh` keeps the article already on screen (pre-rendered or loaded) while the latest copy loads
+  const loadArticle = async (slugOrId: string, viewer: Actor | null, refresh: boolean = false) => {
+    setLoading(!refresh)
     setError(null)
+    setRedirectTo(null)
     
     try {
-      const articleData = await articleService.getArticleById(articleId)
+      const resolved = await articleService.resolveArticle(slugOrId, { publicOnly: true, viewer })
       
-      if (!articleData) {
+      if (!resolved) {
+        shownSlug.current = undefined
+        setArticle(null)
         setError('Article not found')
         return
       }
       
+      // Old id links and renamed slugs move to the current URL before anything is tracked
+      if (resolved.redirect) {
+        setRedirectTo(articlePath(resolved.article))
+        return
+      }
+      
+      const articleData = resolved.article
+      shownSlug.current = slugOrId
       setArticle(articleData)
+      setAuthor(articleData.authorId ? await authorService.getAuthorById(articleData.authorId) : null)
+      // Editors previewing drafts or not-yet-due scheduled posts shouldn't inflate the numbers
+      if (articleService.isPublic(articleData)) {
+        analyticsService.trackView(articleData.id)
+      }
       
       // Load related articles
       const related = await articleService.getRelatedArticles(
-        articleId, 
+        articleData.id, 
         articleData.category, 
         3
       )
@@ -52,6 +124,26 @@ export default function ArticlePage() {
     }
   }
 
+  const handleReaction = async (type: ReactionType) => {
+    if (!article) return
+
+    const active = await reactionService.toggleReaction(article.id, type, userId)
+    if (active === null) {
+      alert('Failed to save. Please try again.')
+      return
+    }
+
+    const delta = active ? 1 : -1
+    analyticsService.trackEngagement(article.id, type, delta)
+    if (type === 'like') {
+      setLiked(active)
+      setCounts(prev => ({ ...prev, likes: Math.max(0, prev.likes + delta) }))
+    } else {
+      setBookmarked(active)
+      setCounts(prev => ({ ...prev, bookmarks: Math.max(0, prev.bookmarks + delta) }))
+    }
+  }
+
   const handleShare = async () => {
     if (!article) return
     
@@ -62,6 +154,7 @@ export default function ArticlePage() {
           text: article.excerpt,
           url: window.location.href,
         })
+        analyticsService.trackEngagement(article.id, 'share')
       } catch (err) {
         console.log('Error sharing:', err)
       }
@@ -69,6 +162,7 @@ export default function ArticlePage() {
       // Fallback: copy to clipboard
       try {
         await navigator.clipboard.writeText(window.location.href)
+        analyticsService.trackEngagement(article.id, 'share')
         // You could show a toast notification here
         console.log('Link copied to clipboard')
       } catch (err) {
@@ -77,14 +171,6 @@ export default function ArticlePage() {
     }
   }
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', { 
-      year: 'numeric', 
-      month: 'long', 
-      day: 'numeric' 
-    })
-  }
-
   const estimateReadTime = (content: string) => {
     const wordsPerMinute = 200
     const wordCount = content.replace(/<[^>]*>/g, '').split(/\s+/).length
@@ -92,6 +178,10 @@ export default function ArticlePage() {
     return `${minutes} min read`
   }
 
+  if (redirectTo) {
+    return <Navigate to={redirectTo} replace />
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -155,11 +245,17 @@ export default function ArticlePage() {
             <div className="flex items-center gap-6 text-muted-foreground">
               <div className="flex items-center gap-2">
                 <User className="h-5 w-5" />
-                <span className="font-medium">{article.author}</span>
+                {author ? (
+                  <Link to={`/author/${author.slug}`} className="font-medium hover:text-primary transition-colors">
+                    {author.name}
+                  </Link>
+                ) : (
+                  <span className="font-medium">{article.author}</span>
+                )}
               </div>
               <div className="flex items-center gap-2">
                 <Calendar className="h-5 w-5" />
-                <span>{formatDate(article.publishedAt)}</span>
+                <span>{formatLongDate(article.publishedAt)}</span>
               </div>
               <div className="flex items-center gap-2">
                 <Clock className="h-5 w-5" />
@@ -171,20 +267,22 @@ export default function ArticlePage() {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setLiked(!liked)}
+                onClick={() => handleReaction('like')}
                 className={liked ? 'text-red-500 border-red-500' : ''}
               >
                 <Heart className={`h-4 w-4 mr-2 ${liked ? 'fill-current' : ''}`} />
                 Like
+                {counts.likes > 0 && <span className="ml-1.5 tabular-nums">{counts.likes}</span>}
               </Button>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setBookmarked(!bookmarked)}
+                onClick={() => handleReaction('bookmark')}
                 className={bookmarked ? 'text-blue-500 border-blue-500' : ''}
               >
                 <Bookmark className={`h-4 w-4 mr-2 ${bookmarked ? 'fill-current' : ''}`} />
-                Save
+                {bookmarked ? 'Saved' : 'Save'}
+                {counts.bookmarks > 0 && <span className="ml-1.5 tabular-nums">{counts.bookmarks}</span>}
               </Button>
               <Button variant="outline" size="sm" onClick={handleShare}>
                 <Share2 className="h-4 w-4 mr-2" />
@@ -216,49 +314,44 @@ export default function ArticlePage() {
         <div className="max-w-4xl mx-auto">
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
             {/* Main Content */}
-            <article className="lg:col-span-3">
-              <div 
-                className="prose prose-lg max-w-none 
-                  prose-headings:font-bold prose-headings:text-foreground
-                  prose-h1:text-3xl prose-h2:text-2xl prose-h3:text-xl 
-                  prose-p:text-muted-foreground prose-p:leading-relaxed prose-p:mb-4
-                  prose-blockquote:border-l-4 prose-blockquote:border-primary 
-                  prose-blockquote:pl-4 prose-blockquote:italic prose-blockquote:text-muted-foreground
-                  prose-ul:text-muted-foreground prose-ol:text-muted-foreground
-                  prose-li:mb-2 prose-strong:text-foreground
-                  prose-a:text-primary prose-a:no-underline hover:prose-a:underline"
-                dangerouslySetInnerHTML={{ __html: article.content }}
-              />
+            <div className="lg:col-span-3">
+              <article ref={articleRef}>
+                <ArticleContent article={article} />
 
-              {/* Tags */}
-              {article.tags && article.tags.length > 0 && (
-                <div className="mt-12 pt-8 border-t">
-                  <h3 className="font-semibold mb-4">Tags</h3>
-                  <div className="flex flex-wrap gap-2">
-                    {article.tags.map((tag) => (
-                      <Badge key={tag} variant="secondary">
-                        {tag}
-                      </Badge>
-                    ))}
+                {/* Tags */}
+                {article.tags && article.tags.length > 0 && (
+                  <div className="mt-12 pt-8 border-t">
+                    <h3 className="font-semibold mb-4">Tags</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {article.tags.map((tag) => (
+                        <Link key={tag} to={`/tag/${slugify(tag)}`}>
+                          <Badge variant="secondary">{tag}</Badge>
+                        </Link>
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+
+                {/* Source Link */}
+                {article.isAggregated && article.sourceUrl && (
+                  <div className="mt-8 p-4 bg-muted rounded-lg">
+                    <p className="text-sm text-muted-foreground mb-2">
+                      This article was originally published on {article.sourceName}
+                    </p>
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={article.sourceUrl} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="mr-2 h-4 w-4" />
+                        Read Original Article
+                      </a>
+                    </Button>
+                  </div>
+                )}
+              </article>
 
-              {/* Source Link */}
-              {article.isAggregated && article.sourceUrl && (
-                <div className="mt-8 p-4 bg-muted rounded-lg">
-                  <p className="text-sm text-muted-foreground mb-2">
-                    This article was originally published on {article.sourceName}
-                  </p>
-                  <Button variant="outline" size="sm" asChild>
-                    <a href={article.sourceUrl} target="_blank" rel="noopener noreferrer">
-                      <ExternalLink className="mr-2 h-4 w-4" />
-                      Read Original Article
-                    </a>
-                  </Button>
-                </div>
+              {articleService.isPublic(article) && (
+                <CommentSection articleId={article.id} user={user} />
               )}
-            </article>
+            </div>
 
             {/* Sidebar */}
             <aside className="lg:col-span-1">
@@ -267,23 +360,50 @@ export default function ArticlePage() {
                 <Card>
                   <CardContent className="p-6">
                     <h3 className="font-semibold mb-4">About the Author</h3>
-                    <div className="flex items-center gap-3 mb-3">
-                      <div className="w-12 h-12 bg-primary rounded-full flex items-center justify-center text-primary-foreground font-semibold">
-                        {article.author.charAt(0).toUpperCase()}
-                      </div>
-                      <div>
-                        <p className="font-medium">{article.author}</p>
+                    {author ? (
+                      <>
+                        <div className="flex items-center gap-3 mb-3">
+                          <Avatar className="h-12 w-12">
+                            {author.avatarUrl && <AvatarImage src={author.avatarUrl} alt={author.name} />}
+                            <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
+                              {author.name.charAt(0).toUpperCase()}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div>
+                            <Link to={`/author/${author.slug}`} className="font-medium hover:text-primary transition-colors">
+                              {author.name}
+                            </Link>
+                            <AuthorSocialLinks socials={author.socials} />
+                          </div>
+                        </div>
+                        {author.bio && (
+                          <p className="text-sm text-muted-foreground mb-3">{author.bio}</p>
+                        )}
+                        <Button variant="outline" size="sm" className="w-full" asChild>
+                          <Link to={`/author/${author.slug}`}>More from {author.name}</Link>
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <div className="flex items-center gap-3 mb-3">
+                          <div className="w-12 h-12 bg-primary rounded-full flex items-center justify-center text-primary-foreground font-semibold">
+                            {article.author.charAt(0).toUpperCase()}
+                          </div>
+                          <div>
+                            <p className="font-medium">{article.author}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {article.isAggregated ? 'Contributing Writer' : 'Tech Writer'}
+                            </p>
+                          </div>
+                        </div>
                         <p className="text-sm text-muted-foreground">
-                          {article.isAggregated ? 'Contributing Writer' : 'Tech Writer'}
+                          {article.isAggregated 
+                            ? `Originally published on ${article.sourceName}. Passionate about technology and its impact on society.`
+                            : 'Passionate about technology and its impact on society. Specializes in AI, web development, and emerging tech trends.'
+                          }
                         </p>
-                      </div>
-                    </div>
-                    <p className="text-sm text-muted-foreground">
-                      {article.isAggregated 
-                        ? `Originally published on ${article.sourceName}. Passionate about technology and its impact on society.`
-                        : 'Passionate about technology and its impact on society. Specializes in AI, web development, and emerging tech trends.'
-                      }
-                    </p>
+                      </>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -296,7 +416,7 @@ export default function ArticlePage() {
                         {relatedArticles.map((related, index) => (
                           <div key={related.id}>
                             <Link 
-                              to={`/article/${related.id}`}
+                              to={articlePath(related)}
                               className="block group"
                             >
                               {related.featuredImage && (
@@ -0,0 +1,189 @@
+import { useState, useEffect, useRef } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { ArrowLeft, ArrowRight, Calendar, Clock } from 'lucide-react'
+import { Avatar, AvatarFallback, AvatarImage } from '../components/ui/avatar'
+import { Badge } from '../components/ui/badge'
+import { Button } from '../components/ui/button'
+import { Card, CardContent } from '../components/ui/card'
+import AuthorSocialLinks from '../components/article/AuthorSocialLinks'
+import { useInfiniteScroll } from '../hooks/use-infinite-scroll'
+import { articlePath } from '../lib/articleUrl'
+import { articleService, type Article } from '../services/articleService'
+import { authorService, type Author } from '../services/authorService'
+
+const PAGE_SIZE = 10
+
+export default function AuthorPage() {
+  const { slug } = useParams()
+  const [author, setAuthor] = useState<Author | null>(null)
+  const [articles, setArticles] = useState<Article[]>([])
+  const [totalArticles, setTotalArticles] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // Bumped whenever another author is loaded so a late "load more" response is dropped
+  const listingRequest = useRef(0)
+
+  useEffect(() => {
+    if (slug) {
+      loadAuthor(slug)
+    }
+  }, [slug])
+
+  const loadAuthor = async (authorSlug: string) => {
+    const request = ++listingRequest.current
+    setLoading(true)
+    try {
+      const authorData = await authorService.getAuthorBySlug(authorSlug)
+      if (request !== listingRequest.current) return
+      setAuthor(authorData)
+      if (!authorData) return
+
+      const page = await articleService.getArticlesPage({ authorId: authorData.id, limit: PAGE_SIZE })
+      if (request !== listingRequest.current) return
+      setArticles(page.articles)
+      setTotalArticles(page.total)
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('Error loading author:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadMoreArticles = async () => {
+    if (!author || !nextCursor || loadingMore) return
+
+    const request = listingRequest.current
+    setLoadingMore(true)
+    try {
+      const page = await articleService.getArticlesPage({ authorId: author.id, cursor: nextCursor, limit: PAGE_SIZE })
+      if (request !== listingRequest.current) return
+      setArticles(prev => [...prev, ...page.articles])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('Error loading more articles:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const loadMoreRef = useInfiniteScroll<HTMLDivElement>(loadMoreArticles, !!nextCursor && !loadingMore)
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!author) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Author not found</h1>
+          <Button asChild>
+            <Link to="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Articles
+            </Link>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen">
+      <section className="bg-gradient-to-br from-primary/10 via-background to-accent/10 py-12">
+        <div className="container mx-auto px-4 max-w-4xl">
+          <div className="flex flex-col sm:flex-row items-center sm:items-start gap-6">
+            <Avatar className="h-24 w-24">
+              {author.avatarUrl && <AvatarImage src={author.avatarUrl} alt={author.name} />}
+              <AvatarFallback className="text-3xl">{author.name.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+            <div className="text-center sm:text-left">
+              <h1 className="text-3xl font-bold mb-2">{author.name}</h1>
+              {author.bio && (
+                <p className="text-muted-foreground mb-3 max-w-2xl">{author.bio}</p>
+              )}
+              <div className="flex flex-col sm:flex-row items-center gap-3">
+                <span className="text-sm text-muted-foreground">
+                  {totalArticles} article{totalArticles !== 1 ? 's' : ''}
+                </span>
+                <AuthorSocialLinks socials={author.socials} />
+              </div>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <section className="container mx-auto px-4 py-12 max-w-4xl">
+        {articles.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">{author.name} hasn't published any articles yet.</p>
+          </Card>
+        ) : (
+          <div className="grid gap-6">
+            {articles.map((post) => (
+              <Card key={post.id} className="overflow-hidden hover:shadow-lg transition-shadow">
+                <div className="md:flex">
+                  {post.featuredImage && (
+                    <div className="md:w-64">
+                      <img
+                        src={post.featuredImage}
+                        alt={post.title}
+                        className="w-full h-48 md:h-full object-cover"
+                      />
+                    </div>
+                  )}
+                  <CardContent className="flex-1 p-6">
+                    <Badge
+                      style={{ backgroundColor: post.categoryColor }}
+                      className="text-white mb-3"
+                    >
+                      {post.categoryName}
+                    </Badge>
+                    <h2 className="text-xl font-bold mb-3 line-clamp-2">
+                      <Link to={articlePath(post)} className="hover:text-primary transition-colors">
+                        {post.title}
+                      </Link>
+                    </h2>
+                    <p className="text-muted-foreground mb-4 line-clamp-2">{post.excerpt}</p>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                        <div className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4" />
+                          {new Date(post.publishedAt).toLocaleDateString()}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Clock className="h-4 w-4" />
+                          {post.readTime}
+                        </div>
+                      </div>
+                      <Button variant="ghost" asChild>
+                        <Link to={articlePath(post)}>
+                          Read More
+                          <ArrowRight className="ml-2 h-4 w-4" />
+                        </Link>
+                      </Button>
+                    </div>
+                  </CardContent>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {nextCursor && (
+          <div ref={loadMoreRef} className="mt-8 flex justify-center">
+            <Button variant="outline" onClick={loadMoreArticles} disabled={loadingMore}>
+              {loadingMore ? 'Loading...' : `Load more (${totalArticles - articles.length} remaining)`}
+            </Button>
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
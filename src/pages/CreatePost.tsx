@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
-import { ArrowLeft, Save, Eye, Upload, X } from 'lucide-react'
+import { ArrowLeft, Save, Eye, Upload } from 'lucide-react'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
 import { Textarea } from '../components/ui/textarea'
@@ -9,16 +9,41 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
 import { Switch } from '../components/ui/switch'
 import { Badge } from '../components/ui/badge'
+import { Avatar, AvatarFallback, AvatarImage } from '../components/ui/avatar'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
-import { articleService, type Article, type Category } from '../services/articleService'
+import {
+  articleService,
+  canTransition,
+  STATUS_LABELS,
+  STATUS_TRANSITIONS,
+  type Article,
+  type ArticleStatus,
+  type Category
+} from '../services/articleService'
 import { blink } from '../blink/client'
-
-export default function CreatePost() {
+import RevisionHistoryPanel from '../components/admin/RevisionHistoryPanel'
+import SeoPreview from '../components/admin/SeoPreview'
+import TagInput from '../components/admin/TagInput'
+import ArticleContent from '../components/article/ArticleContent'
+import { renderMarkdown, type ContentFormat } from '../lib/articleRenderer'
+import { buildArticleMeta, SEO_DESCRIPTION_LIMIT, SEO_TITLE_LIMIT } from '../lib/seo'
+import { isValidSlug, slugify } from '../lib/slugify'
+import { canChangeStatus, canEditArticle, creatableStatuses, hasPermission, type Actor } from '../lib/permissions'
+import { authorService, type Author } from '../services/authorService'
+import { buildCategoryTree, flattenCategoryTree } from '../services/categoryService'
+import { tagService, type Tag } from '../services/tagService'
+
+interface CreatePostProps {
+  actor: Actor
+}
+
+export default function CreatePost({ actor }: CreatePostProps) {
   const navigate = useNavigate()
   const { id } = useParams() // For editing existing posts
   const isEditing = Boolean(id)
   
   const [categories, setCategories] = useState<Category[]>([])
+  const [authors, setAuthors] = useState<Author[]>([])
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
   const [uploadingImage, setUploadingImage] = useState(false)
@@ -26,28 +51,64 @@ export default function CreatePost() {
   // Form state
   const [formData, setFormData] = useState({
     title: '',
+    slug: '',
     excerpt: '',
     content: '',
+    contentFormat: 'markdown' as ContentFormat,
+    contentMarkdown: '',
     author: '',
+    authorId: '',
     category: '',
     featuredImage: '',
     isAggregated: false,
     sourceName: '',
     sourceUrl: '',
     tags: [] as string[],
-    readTime: ''
+    seoTitle: '',
+    seoDescription: '',
+    ogImage: '',
+    noindex: false,
+    readTime: '',
+    status: 'draft' as ArticleStatus,
+    publishAt: ''
   })
+  const [originalStatus, setOriginalStatus] = useState<ArticleStatus | null>(null)
+  const [originalOwner, setOriginalOwner] = useState('')
+  const [originalSlug, setOriginalSlug] = useState('')
+  // New posts take their slug from the title until the author types one of their own
+  const [slugEdited, setSlugEdited] = useState(false)
   
-  const [newTag, setNewTag] = useState('')
+  const [tags, setTags] = useState<Tag[]>([])
   const [previewMode, setPreviewMode] = useState(false)
 
   useEffect(() => {
     loadCategories()
+    tagService.getTags().then(setTags)
     if (isEditing && id) {
       loadArticle(id)
     }
   }, [isEditing, id])
 
+  useEffect(() => {
+    loadAuthors(actor, isEditing)
+  }, [actor, isEditing])
+
+  // Editors can credit anyone; contributors always write as their own profile
+  const loadAuthors = async (signedIn: Actor, editing: boolean) => {
+    try {
+      const own = await authorService.getOrCreateAuthorForUser(signedIn)
+      const authorsData = hasPermission(signedIn, 'authors:manage')
+        ? await authorService.getAuthors()
+        : own ? [own] : []
+      setAuthors(authorsData)
+      if (!editing && own) {
+        setFormData(prev => prev.authorId ? prev : { ...prev, authorId: own.id, author: own.name })
+      }
+    } catch (error) {
+      console.error('Error loading authors:', error)
+    }
+  }
+
   const loadCategories = async () => {
     try {
       const categoriesData = await articleService.getCategories()
@@ -62,19 +123,11 @@ export default function CreatePost() {
     try {
       const article = await articleService.getArticleById(articleId)
       if (article) {
-        setFormData({
-          title: article.title,
-          excerpt: article.excerpt,
-          content: article.content,
-          author: article.author,
-          category: article.category,
-          featuredImage: article.featuredImage,
-          isAggregated: article.isAggregated,
-          sourceName: article.sourceName || '',
-          sourceUrl: article.sourceUrl || '',
-          tags: article.tags,
-          readTime: article.readTime
-        })
+        setFormData(toFormData(article))
+        setOriginalStatus(article.status)
+        setOriginalOwner(article.userId)
+        setOriginalSlug(article.slug)
+        setSlugEdited(!!article.slug)
       }
     } catch (error) {
       console.error('Error loading article:', error)
@@ -83,6 +136,27 @@ export default function CreatePost() {
     }
   }
 
+  const populateForm = (article: Article) => {
+    setFormData(toFormData(article))
+    setOriginalStatus(article.status)
+    setOriginalOwner(article.userId)
+    setOriginalSlug(article.slug)
+    setSlugEdited(!!article.slug)
+  }
+
+  const handleTitleChange = (title: string) => {
+    setFormData(prev => ({
+      ...prev,
+      title,
+      slug: slugEdited ? prev.slug : slugify(title)
+    }))
+  }
+
+  const handleSlugChange = (slug: string) => {
+    setSlugEdited(!!slug)
+    handleInputChange('slug', slug)
+  }
+
   const handleInputChange = (field: string, value: any) => {
     setFormData(prev => ({
       ...prev,
@@ -110,15 +184,24 @@ export default function CreatePost() {
     }
   }
 
-  const addTag = () => {
-    if (newTag.trim() && !formData.tags.includes(newTag.trim())) {
-      handleInputChange('tags', [...formData.tags, newTag.trim()])
-      setNewTag('')
+  // The text the author is actually editing, whichever format it is in
+  const bodySource = formData.contentFormat === 'markdown' ? formData.contentMarkdown : formData.content
+
+  const handleFormatChange = (format: ContentFormat) => {
+    if (format === formData.contentFormat) return
+    if (format === 'html') {
+      setFormData(prev => ({
+        ...prev,
+        contentFormat: format,
+        content: prev.contentMarkdown ? renderMarkdown(prev.contentMarkdown) : prev.content
+      }))
+      return
     }
-  }
-
-  const removeTag = (tagToRemove: string) => {
-    handleInputChange('tags', formData.tags.filter(tag => tag !== tagToRemove))
+    if (formData.content.trim() && !formData.contentMarkdown.trim()
+      && !window.confirm('HTML cannot be converted to Markdown. Start the Markdown body from scratch?')) {
+      return
+    }
+    handleInputChange('contentFormat', format)
   }
 
   const estimateReadTime = (content: string) => {
@@ -133,22 +216,30 @@ export default function CreatePost() {
       alert('Please enter a title')
       return false
     }
+    if (formData.slug.trim() && !isValidSlug(formData.slug.trim())) {
+      alert('Slugs may only contain lowercase letters, numbers and single dashes')
+      return false
+    }
     if (!formData.excerpt.trim()) {
       alert('Please enter an excerpt')
       return false
     }
-    if (!formData.content.trim()) {
+    if (!bodySource.trim()) {
       alert('Please enter content')
       return false
     }
-    if (!formData.author.trim()) {
-      alert('Please enter an author name')
+    if (!formData.authorId) {
+      alert('Please select an author')
       return false
     }
     if (!formData.category) {
       alert('Please select a category')
       return false
     }
+    if (formData.status === 'scheduled' && !isFutureDate(formData.publishAt)) {
+      alert('Please pick a publish date and time in the future')
+      return false
+    }
     return true
   }
 
@@ -158,12 +249,21 @@ export default function CreatePost() {
     setSaving(true)
     try {
       const selectedCategory = categories.find(cat => cat.id === formData.category)
+      const selectedAuthor = authors.find(author => author.id === formData.authorId)
+      // Publishing with a future time queues the article instead of putting it live
+      const status: ArticleStatus = formData.status === 'published' && canSchedule && isFutureDate(formData.publishAt)
+        ? 'scheduled'
+        : formData.status
       
       const articleData: Partial<Article> = {
         title: formData.title.trim(),
+        slug: formData.slug.trim() || undefined,
         excerpt: formData.excerpt.trim(),
-        content: formData.content.trim(),
-        author: formData.author.trim(),
+        content: formData.contentFormat === 'markdown' ? '' : formData.content.trim(),
+        contentFormat: formData.contentFormat,
+        contentMarkdown: formData.contentFormat === 'markdown' ? formData.contentMarkdown.trim() : undefined,
+        author: selectedAuthor?.name || formData.author.trim(),
+        authorId: formData.authorId,
         category: formData.category,
         categoryName: selectedCategory?.name || formData.category,
         categoryColor: selectedCategory?.color || '#2563eb',
@@ -172,16 +272,25 @@ export default function CreatePost() {
         sourceName: formData.isAggregated ? formData.sourceName : undefined,
         sourceUrl: formData.isAggregated ? formData.sourceUrl : undefined,
         tags: formData.tags,
-        readTime: formData.readTime || estimateReadTime(formData.content),
-        publishedAt: new Date().toISOString().split('T')[0],
-        userId: 'admin' // In a real app, this would come from auth
+        seoTitle: formData.seoTitle.trim(),
+        seoDescription: formData.seoDescription.trim(),
+        ogImage: formData.ogImage.trim(),
+        noindex: formData.noindex,
+        readTime: formData.readTime || estimateReadTime(bodySource),
+        status,
+        publishedAt: formData.publishAt ? new Date(formData.publishAt).toISOString() : undefined
       }
 
       let result
       if (isEditing && id) {
-        result = await articleService.updateArticle(id, articleData)
+        result = await articleService.updateArticle(id, articleData, { editor: actor })
       } else {
-        result = await articleService.createArticle(articleData)
+        const created = await articleService.createArticle(articleData, { editor: actor })
+        if (created?.status === 'skipped') {
+          alert(`An article from this source already exists: "${created.article.title}"`)
+          return
+        }
+        result = created?.article
       }
 
       if (result) {
@@ -199,6 +308,44 @@ export default function CreatePost() {
 
   const selectedCategory = categories.find(cat => cat.id === formData.category)
 
+  // Previewed with the same builder ArticlePage uses, so what you see is what gets published
+  const seoMeta = buildArticleMeta({
+    id: id || 'new',
+    slug: formData.slug || slugify(formData.title),
+    title: formData.title || 'Article Title',
+    excerpt: formData.excerpt,
+    content: formData.contentFormat === 'markdown' ? '' : formData.content,
+    author: authors.find(author => author.id === formData.authorId)?.name || formData.author,
+    categoryName: selectedCategory?.name || '',
+    featuredImage: formData.featuredImage,
+    publishedAt: '',
+    updatedAt: '',
+    isAggregated: formData.isAggregated,
+    sourceUrl: formData.sourceUrl,
+    tags: formData.tags,
+    seoTitle: formData.seoTitle,
+    seoDescription: formData.seoDescription,
+    ogImage: formData.ogImage,
+    noindex: formData.noindex
+  })
+
+  const original = originalStatus ? { userId: originalOwner, status: originalStatus } : null
+
+  // New articles can start in any state the role allows but archived; existing ones follow the workflow
+  const availableStatuses: ArticleStatus[] = original
+    ? [original.status, ...STATUS_TRANSITIONS[original.status].filter(status => canChangeStatus(actor, original, status))]
+    : creatableStatuses(actor) as ArticleStatus[]
+
+  const canSchedule = !originalStatus || canTransition(originalStatus, 'scheduled')
+  const willSchedule = (formData.status === 'scheduled' || (formData.status === 'published' && canSchedule))
+    && isFutureDate(formData.publishAt)
+
+  const saveLabel = willSchedule
+    ? 'Schedule'
+    : formData.status === 'published' && originalStatus !== 'published'
+      ? 'Publish'
+      : (isEditing ? 'Update' : 'Save')
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -207,6 +354,23 @@ export default function CreatePost() {
     )
   }
 
+  if (original && !canEditArticle(actor, original)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">You can't edit this article</h1>
+          <p className="text-muted-foreground mb-6">
+            Contributors can only edit their own drafts.
+          </p>
+          <Button onClick={() => navigate('/admin')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-muted/30">
       <div className="container mx-auto px-4 py-8">
@@ -237,7 +401,7 @@ export default function CreatePost() {
             </Button>
             <Button onClick={handleSave} disabled={saving}>
               <Save className="mr-2 h-4 w-4" />
-              {saving ? 'Saving...' : (isEditing ? 'Update' : 'Publish')}
+              {saving ? 'Saving...' : saveLabel}
             </Button>
           </div>
         </div>
@@ -258,12 +422,31 @@ export default function CreatePost() {
                       <Input
                         id="title"
                         value={formData.title}
-                        onChange={(e) => handleInputChange('title', e.target.value)}
+                        onChange={(e) => handleTitleChange(e.target.value)}
                         placeholder="Enter article title..."
                         className="mt-1"
                       />
                     </div>
 
+                    {/* Slug */}
+                    <div>
+                      <Label htmlFor="slug">URL Slug</Label>
+                      <div className="flex items-center mt-1">
+                        <span className="text-sm text-muted-foreground mr-2">/article/</span>
+                        <Input
+                          id="slug"
+                          value={formData.slug}
+                          onChange={(e) => handleSlugChange(e.target.value)}
+                          placeholder={slugify(formData.title) || 'generated-from-title'}
+                        />
+                      </div>
+                      {originalSlug && formData.slug.trim() && formData.slug.trim() !== originalSlug && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          /article/{originalSlug} will redirect to the new URL.
+                        </p>
+                      )}
+                    </div>
+
                     {/* Excerpt */}
                     <div>
                       <Label htmlFor="excerpt">Excerpt *</Label>
@@ -317,21 +500,109 @@ export default function CreatePost() {
 
                     {/* Content */}
                     <div>
-                      <Label htmlFor="content">Content *</Label>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="content">Content *</Label>
+                        <Select value={formData.contentFormat} onValueChange={(value) => handleFormatChange(value as ContentFormat)}>
+                          <SelectTrigger className="w-36 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="markdown">Markdown</SelectItem>
+                            <SelectItem value="html">HTML</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
                       <Textarea
                         id="content"
-                        value={formData.content}
-                        onChange={(e) => handleInputChange('content', e.target.value)}
-                        placeholder="Write your article content here... You can use HTML tags for formatting."
+                        value={bodySource}
+                        onChange={(e) => handleInputChange(
+                          formData.contentFormat === 'markdown' ? 'contentMarkdown' : 'content',
+                          e.target.value
+                        )}
+                        placeholder={formData.contentFormat === 'markdown'
+                          ? 'Write your article in Markdown... Tables, task lists and fenced code blocks are supported.'
+                          : 'Write your article content here... You can use HTML tags for formatting.'}
                         rows={20}
                         className="mt-1 font-mono text-sm"
                       />
                       <p className="text-xs text-muted-foreground mt-1">
-                        Estimated read time: {estimateReadTime(formData.content)}
+                        Estimated read time: {estimateReadTime(bodySource)}
                       </p>
                     </div>
                   </CardContent>
                 </Card>
+
+                {/* Search & Social */}
+                <Card className="mt-6">
+                  <CardHeader>
+                    <CardTitle>Search &amp; Social</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="seoTitle">SEO Title</Label>
+                        <span className={`text-xs ${formData.seoTitle.length > SEO_TITLE_LIMIT ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          {formData.seoTitle.length}/{SEO_TITLE_LIMIT}
+                        </span>
+                      </div>
+                      <Input
+                        id="seoTitle"
+                        value={formData.seoTitle}
+                        onChange={(e) => handleInputChange('seoTitle', e.target.value)}
+                        placeholder={formData.title || 'Defaults to the article title'}
+                        className="mt-1"
+                      />
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="seoDescription">Meta Description</Label>
+                        <span className={`text-xs ${formData.seoDescription.length > SEO_DESCRIPTION_LIMIT ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          {formData.seoDescription.length}/{SEO_DESCRIPTION_LIMIT}
+                        </span>
+                      </div>
+                      <Textarea
+                        id="seoDescription"
+                        value={formData.seoDescription}
+                        onChange={(e) => handleInputChange('seoDescription', e.target.value)}
+                        placeholder={formData.excerpt || 'Defaults to the excerpt'}
+                        rows={2}
+                        className="mt-1"
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="ogImage">Social Image URL</Label>
+                      <Input
+                        id="ogImage"
+                        value={formData.ogImage}
+                        onChange={(e) => handleInputChange('ogImage', e.target.value)}
+                        placeholder={formData.featuredImage || 'Defaults to the featured image'}
+                        className="mt-1"
+                      />
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label htmlFor="noindex">Hide from search engines</Label>
+                        <p className="text-xs text-muted-foreground">Adds noindex and leaves the article out of the sitemap</p>
+                      </div>
+                      <Switch
+                        id="noindex"
+                        checked={formData.noindex}
+                        onCheckedChange={(checked) => handleInputChange('noindex', checked)}
+                      />
+                    </div>
+
+                    {formData.isAggregated && formData.sourceUrl && (
+                      <p className="text-xs text-muted-foreground">
+                        The canonical link points at the original source: {formData.sourceUrl}
+                      </p>
+                    )}
+
+                    <SeoPreview meta={seoMeta} />
+                  </CardContent>
+                </Card>
               </TabsContent>
 
               <TabsContent value="preview">
@@ -354,19 +625,11 @@ export default function CreatePost() {
                       {formData.excerpt || 'Article excerpt will appear here...'}
                     </p>
                     
-                    <div 
-                      className="prose prose-lg max-w-none 
-                        prose-headings:font-bold prose-headings:text-foreground
-                        prose-h1:text-3xl prose-h2:text-2xl prose-h3:text-xl 
-                        prose-p:text-muted-foreground prose-p:leading-relaxed prose-p:mb-4
-                        prose-blockquote:border-l-4 prose-blockquote:border-primary 
-                        prose-blockquote:pl-4 prose-blockquote:italic prose-blockquote:text-muted-foreground
-                        prose-ul:text-muted-foreground prose-ol:text-muted-foreground
-                        prose-li:mb-2 prose-strong:text-foreground"
-                      dangerouslySetInnerHTML={{ 
-                        __html: formData.content || '<p>Article content will appear here...</p>' 
-                      }}
-                    />
+                    {bodySource.trim() ? (
+                      <ArticleContent article={formData} />
+                    ) : (
+                      <p className="text-muted-foreground">Article content will appear here...</p>
+                    )}
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -381,16 +644,66 @@ export default function CreatePost() {
                 <CardTitle>Article Settings</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {/* Author */}
+                {/* Status */}
                 <div>
-                  <Label htmlFor="author">Author *</Label>
+                  <Label htmlFor="status">Status</Label>
+                  <Select value={formData.status} onValueChange={(value) => handleInputChange('status', value)}>
+                    <SelectTrigger id="status" className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Publish Date */}
+                <div>
+                  <Label htmlFor="publishAt">Publish Date & Time</Label>
                   <Input
-                    id="author"
-                    value={formData.author}
-                    onChange={(e) => handleInputChange('author', e.target.value)}
-                    placeholder="Author name"
+                    id="publishAt"
+                    type="datetime-local"
+                    value={formData.publishAt}
+                    onChange={(e) => handleInputChange('publishAt', e.target.value)}
                     className="mt-1"
                   />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {willSchedule
+                      ? `Goes live ${new Date(formData.publishAt).toLocaleString()}`
+                      : 'Leave empty to publish immediately'}
+                  </p>
+                </div>
+
+                {/* Author */}
+                <div>
+                  <Label htmlFor="author">Author *</Label>
+                  <Select value={formData.authorId} onValueChange={(value) => handleInputChange('authorId', value)}>
+                    <SelectTrigger id="author" className="mt-1">
+                      <SelectValue placeholder="Select author" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {authors.map((author) => (
+                        <SelectItem key={author.id} value={author.id}>
+                          <div className="flex items-center gap-2">
+                            <Avatar className="h-5 w-5">
+                              {author.avatarUrl && <AvatarImage src={author.avatarUrl} alt={author.name} />}
+                              <AvatarFallback className="text-[10px]">{author.name.charAt(0).toUpperCase()}</AvatarFallback>
+                            </Avatar>
+                            {author.name}
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!formData.authorId && formData.author && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Currently credited as "{formData.author}", which has no author profile yet.
+                    </p>
+                  )}
                 </div>
 
                 {/* Category */}
@@ -401,9 +714,9 @@ export default function CreatePost() {
                       <SelectValue placeholder="Select category" />
                     </SelectTrigger>
                     <SelectContent>
-                      {categories.map((category) => (
+                      {flattenCategoryTree(buildCategoryTree(categories)).map(({ category, depth }) => (
                         <SelectItem key={category.id} value={category.id}>
-                          <div className="flex items-center gap-2">
+                          <div className="flex items-center gap-2" style={{ paddingLeft: `${depth}rem` }}>
                             <div 
                               className="w-3 h-3 rounded-full"
                               style={{ backgroundColor: category.color }}
@@ -481,33 +794,20 @@ export default function CreatePost() {
               <CardHeader>
                 <CardTitle>Tags</CardTitle>
               </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="flex gap-2">
-                  <Input
-                    value={newTag}
-                    onChange={(e) => setNewTag(e.target.value)}
-                    placeholder="Add tag..."
-                    onKeyPress={(e) => e.key === 'Enter' && addTag()}
-                  />
-                  <Button onClick={addTag} variant="outline">
-                    Add
-                  </Button>
-                </div>
-
-                <div className="flex flex-wrap gap-2">
-                  {formData.tags.map((tag) => (
-                    <Badge key={tag} variant="secondary" className="flex items-center gap-1">
-                      {tag}
-                      <X 
-                        className="h-3 w-3 cursor-pointer" 
-                        onClick={() => removeTag(tag)}
-                      />
-                    </Badge>
-                  ))}
-                </div>
+              <CardContent>
+                <TagInput
+                  value={formData.tags}
+                  tags={tags}
+                  onChange={(value) => handleInputChange('tags', value)}
+                />
               </CardContent>
             </Card>
 
+            {/* Revision History */}
+            {isEditing && id && (
+              <RevisionHistoryPanel articleId={id} editor={actor} onRestored={populateForm} />
+            )}
+
             {/* Preview Info */}
             {selectedCategory && (
               <Card>
@@ -531,13 +831,13 @@ export default function CreatePost() {
                     <div className="flex justify-between">
                       <span>Read Time:</span>
                       <span className="text-muted-foreground">
-                        {formData.readTime || estimateReadTime(formData.content)}
+                        {formData.readTime || estimateReadTime(bodySource)}
                       </span>
                     </div>
                     <div className="flex justify-between">
                       <span>Word Count:</span>
                       <span className="text-muted-foreground">
-                        {formData.content.replace(/<[^>]*>/g, '').split(/\s+/).length}
+                        {bodySource.replace(/<[^>]*>/g, '').split(/\s+/).length}
                       </span>
                     </div>
                   </div>
@@ -549,4 +849,42 @@ export default function CreatePost() {
       </div>
     </div>
   )
+}
+
+function toFormData(article: Article) {
+  return {
+    title: article.title,
+    slug: article.slug,
+    excerpt: article.excerpt,
+    content: article.content,
+    contentFormat: article.contentFormat,
+    contentMarkdown: article.contentMarkdown || '',
+    author: article.author,
+    authorId: article.authorId || '',
+    category: article.category,
+    featuredImage: article.featuredImage,
+    isAggregated: article.isAggregated,
+    sourceName: article.sourceName || '',
+    sourceUrl: article.sourceUrl || '',
+    tags: article.tags,
+    seoTitle: article.seoTitle || '',
+    seoDescription: article.seoDescription || '',
+    ogImage: article.ogImage || '',
+    noindex: !!article.noindex,
+    readTime: article.readTime,
+    status: article.status,
+    publishAt: toDateTimeLocal(article.publishedAt)
+  }
+}
+
+function toDateTimeLocal(dateString: string) {
+  if (!dateString) return ''
+  const date = new Date(dateString)
+  if (isNaN(date.getTime())) return ''
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
+
+function isFutureDate(dateTimeLocal: string) {
+  return Boolean(dateTimeLocal) && new Date(dateTimeLocal).getTime() > Date.now()
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react'
-import { Link, useSearchParams } from 'react-router-dom'
+import { useState, useEffect, useRef } from 'react'
+import { Link, Navigate, useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import { Calendar, Clock, User, ArrowRight, TrendingUp, Search, Filter } from 'lucide-react'
 import { Card, CardContent, CardHeader } from '../components/ui/card'
 import { Badge } from '../components/ui/badge'
@@ -7,19 +7,53 @@ import { Button } from '../components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Input } from '../components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
-import { articleService, type Article, type Category } from '../services/articleService'
+import HighlightedText from '../components/article/HighlightedText'
+import { useDocumentHead } from '../hooks/use-document-head'
+import { useInfiniteScroll } from '../hooks/use-infinite-scroll'
+import { usePrerenderData } from '../hooks/use-prerender-data'
+import { articlePath, categoryPath } from '../lib/articleUrl'
+import { formatShortDate } from '../lib/dates'
+import { buildListingMeta } from '../lib/seo'
+import { articleService, type Article, type ArticleFilters } from '../services/articleService'
+import { categoryService, flattenCategoryTree, type CategoryNode } from '../services/categoryService'
+import { searchService, type SearchResult } from '../services/searchService'
+
+// Pre-rendering (prerenderService) loads the first page with the same size
+const PAGE_SIZE = 10
 
 export default function HomePage() {
+  const { slug } = useParams()
+  const navigate = useNavigate()
   const [searchParams, setSearchParams] = useSearchParams()
-  const [articles, setArticles] = useState<Article[]>([])
-  const [featuredArticle, setFeaturedArticle] = useState<Article | null>(null)
-  const [trendingArticles, setTrendingArticles] = useState<Article[]>([])
-  const [categories, setCategories] = useState<Category[]>([])
-  const [loading, setLoading] = useState(true)
+  const category = slug || 'all'
+  // Category listings used to live at /?category=slug
+  const legacyCategory = searchParams.get('category')
+  // Pre-rendered listings start from the build's data and refresh once mounted
+  const prerendered = usePrerenderData()
+  const snapshot = prerendered?.home?.categorySlug === category ? prerendered.home : undefined
+  const [articles, setArticles] = useState<Article[]>(snapshot?.page.articles || [])
+  const [searchResults, setSearchResults] = useState<Record<string, SearchResult>>({})
+  const [totalArticles, setTotalArticles] = useState(snapshot?.page.total || 0)
+  const [nextCursor, setNextCursor] = useState<string | null>(snapshot?.page.nextCursor || null)
+  const [activeFilters, setActiveFilters] = useState<ArticleFilters>(snapshot?.filters || {})
+  // Set while showing search results; their cursor is the offset of the next ranked page
+  const [activeSearch, setActiveSearch] = useState('')
+  const [loadingMore, setLoadingMore] = useState(false)
+  // Bumped on every new listing so a late "load more" response for old filters is dropped
+  const listingRequest = useRef(0)
+  const [featuredArticle, setFeaturedArticle] = useState<Article | null>(snapshot?.featured || null)
+  const [trendingArticles, setTrendingArticles] = useState<Article[]>(snapshot?.trending || [])
+  const [categories, setCategories] = useState<CategoryNode[]>(prerendered?.categories || [])
+  const [loading, setLoading] = useState(!snapshot)
   const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '')
-  const [selectedCategory, setSelectedCategory] = useState(searchParams.get('category') || 'all')
   const [filterType, setFilterType] = useState(searchParams.get('type') || 'all')
 
+  const currentCategory = flattenCategoryTree(categories)
+    .map(row => row.category)
+    .find(cat => cat.slug === category) || null
+
+  useDocumentHead(loading ? null : buildListingMeta(currentCategory))
+
   // Load initial data
   useEffect(() => {
     loadInitialData()
@@ -27,22 +61,20 @@ export default function HomePage() {
 
   // Handle URL params and filtering
   useEffect(() => {
-    const category = searchParams.get('category') || 'all'
+    if (legacyCategory) return
     const search = searchParams.get('search') || ''
     const type = searchParams.get('type') || 'all'
     
-    setSelectedCategory(category)
     setSearchQuery(search)
     setFilterType(type)
     
     loadArticles({ category, search, type })
-  }, [searchParams])
+  }, [searchParams, category, legacyCategory])
 
   const loadInitialData = async () => {
-    setLoading(true)
     try {
       const [categoriesData, featuredData, trendingData] = await Promise.all([
-        articleService.getCategories(),
+        categoryService.getCategoryTree(),
         articleService.getFeaturedArticle(),
         articleService.getTrendingArticles(3)
       ])
@@ -58,15 +90,13 @@ export default function HomePage() {
   }
 
   const loadArticles = async ({ category = 'all', search = '', type = 'all' }) => {
+    const request = ++listingRequest.current
+    setNextCursor(null)
     try {
-      const filters: any = {}
+      const filters: ArticleFilters = {}
       
       if (category !== 'all') {
-        filters.category = category
-      }
-      
-      if (search.trim()) {
-        filters.search = search.trim()
+        filters.category = await categoryService.resolveListingFilter(category)
       }
       
       if (type === 'aggregated') {
@@ -75,14 +105,64 @@ export default function HomePage() {
         filters.isAggregated = false
       }
       
-      const articlesData = await articleService.getArticles(filters)
-      setArticles(articlesData)
+      // Searches go through the ranked full-text index instead of the database filter
+      if (search.trim()) {
+        const { results, total } = await searchService.search(search.trim(), { ...filters, limit: PAGE_SIZE })
+        if (request !== listingRequest.current) return
+        setArticles(results.map(result => result.article))
+        setSearchResults(Object.fromEntries(results.map(result => [result.article.id, result])))
+        setTotalArticles(total)
+        setNextCursor(results.length < total ? String(results.length) : null)
+        setActiveFilters(filters)
+        setActiveSearch(search.trim())
+        return
+      }
+      
+      const page = await articleService.getArticlesPage({ ...filters, limit: PAGE_SIZE })
+      if (request !== listingRequest.current) return
+      setArticles(page.articles)
+      setSearchResults({})
+      setTotalArticles(page.total)
+      setNextCursor(page.nextCursor)
+      setActiveFilters(filters)
+      setActiveSearch('')
     } catch (error) {
       console.error('Error loading articles:', error)
       setArticles([])
+      setSearchResults({})
+      setTotalArticles(0)
+    }
+  }
+
+  const loadMoreArticles = async () => {
+    if (!nextCursor || loadingMore) return
+
+    const request = listingRequest.current
+    setLoadingMore(true)
+    try {
+      if (activeSearch) {
+        const offset = Number(nextCursor)
+        const { results, total } = await searchService.search(activeSearch, { ...activeFilters, limit: PAGE_SIZE, offset })
+        if (request !== listingRequest.current) return
+        setArticles(prev => [...prev, ...results.map(result => result.article)])
+        setSearchResults(prev => ({ ...prev, ...Object.fromEntries(results.map(result => [result.article.id, result])) }))
+        setNextCursor(results.length > 0 && offset + results.length < total ? String(offset + results.length) : null)
+        return
+      }
+
+      const page = await articleService.getArticlesPage({ ...activeFilters, cursor: nextCursor, limit: PAGE_SIZE })
+      if (request !== listingRequest.current) return
+      setArticles(prev => [...prev, ...page.articles])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('Error loading more articles:', error)
+    } finally {
+      setLoadingMore(false)
     }
   }
 
+  const loadMoreRef = useInfiniteScroll<HTMLDivElement>(loadMoreArticles, !!nextCursor && !loadingMore)
+
   const handleSearch = (query: string) => {
     const newParams = new URLSearchParams(searchParams)
     if (query.trim()) {
@@ -93,14 +173,9 @@ export default function HomePage() {
     setSearchParams(newParams)
   }
 
-  const handleCategoryChange = (category: string) => {
-    const newParams = new URLSearchParams(searchParams)
-    if (category !== 'all') {
-      newParams.set('category', category)
-    } else {
-      newParams.delete('category')
-    }
-    setSearchParams(newParams)
+  const handleCategoryChange = (value: string) => {
+    const query = searchParams.toString()
+    navigate(`${categoryPath({ slug: value })}${query ? `?${query}` : ''}`)
   }
 
   const handleTypeFilter = (type: string) => {
@@ -114,10 +189,17 @@ export default function HomePage() {
   }
 
   const allCategories = [
-    { id: 'all', name: 'All Posts', color: '#2563eb', description: 'All articles' },
-    ...categories
+    { id: 'all', slug: 'all', name: 'All Posts', color: '#2563eb', description: 'All articles', depth: 0 },
+    ...flattenCategoryTree(categories).map(({ category, depth }) => ({ ...category, depth }))
   ]
 
+  if (legacyCategory) {
+    const rest = new URLSearchParams(searchParams)
+    rest.delete('category')
+    const query = rest.toString()
+    return <Navigate to={`${categoryPath({ slug: legacyCategory })}${query ? `?${query}` : ''}`} replace />
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -208,7 +290,7 @@ export default function HomePage() {
                   
                   <h3 className="text-2xl font-bold mb-4 line-clamp-2">
                     <Link 
-                      to={`/article/${featuredArticle.id}`}
+                      to={articlePath(featuredArticle)}
                       className="hover:text-primary transition-colors"
                     >
                       {featuredArticle.title}
@@ -227,7 +309,7 @@ export default function HomePage() {
                       </div>
                       <div className="flex items-center gap-1">
                         <Calendar className="h-4 w-4" />
-                        {new Date(featuredArticle.publishedAt).toLocaleDateString()}
+                        {formatShortDate(featuredArticle.publishedAt)}
                       </div>
                       <div className="flex items-center gap-1">
                         <Clock className="h-4 w-4" />
@@ -236,7 +318,7 @@ export default function HomePage() {
                     </div>
                     
                     <Button asChild>
-                      <Link to={`/article/${featuredArticle.id}`}>
+                      <Link to={articlePath(featuredArticle)}>
                         Read More
                       </Link>
                     </Button>
@@ -251,7 +333,7 @@ export default function HomePage() {
       {/* Main Content */}
       <section className="py-16">
         <div className="container mx-auto px-4">
-          <Tabs value={selectedCategory} onValueChange={handleCategoryChange} className="w-full">
+          <Tabs value={category} onValueChange={handleCategoryChange} className="w-full">
             <div className="flex flex-col lg:flex-row gap-8">
               {/* Sidebar */}
               <aside className="lg:w-80">
@@ -283,8 +365,9 @@ export default function HomePage() {
                       {allCategories.map((cat) => (
                         <TabsTrigger
                           key={cat.id}
-                          value={cat.id}
+                          value={cat.slug}
                           className="justify-start data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                          style={{ paddingLeft: `${0.75 + cat.depth}rem` }}
                         >
                           <div 
                             className="w-3 h-3 rounded-full mr-2"
@@ -310,7 +393,7 @@ export default function HomePage() {
                               <div className="flex-1">
                                 <h4 className="font-medium text-sm line-clamp-2 mb-2">
                                   <Link 
-                                    to={`/article/${post.id}`}
+                                    to={articlePath(post)}
                                     className="hover:text-primary transition-colors"
                                   >
                                     {post.title}
@@ -319,7 +402,7 @@ export default function HomePage() {
                                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
                                   <span>{post.readTime}</span>
                                   <span>•</span>
-                                  <span>{new Date(post.publishedAt).toLocaleDateString()}</span>
+                                  <span>{formatShortDate(post.publishedAt)}</span>
                                 </div>
                               </div>
                             </div>
@@ -334,7 +417,7 @@ export default function HomePage() {
               {/* Main Content */}
               <div className="flex-1">
                 {allCategories.map((cat) => (
-                  <TabsContent key={cat.id} value={cat.id} className="mt-0">
+                  <TabsContent key={cat.id} value={cat.slug} className="mt-0">
                     <div className="mb-6">
                       <h2 className="text-3xl font-bold mb-2">
                         {cat.id === 'all' ? 'Latest Articles' : `${cat.name} Articles`}
@@ -351,7 +434,7 @@ export default function HomePage() {
                         {searchQuery && (
                           <span>Search results for "{searchQuery}" • </span>
                         )}
-                        {articles.length} article{articles.length !== 1 ? 's' : ''} found
+                        {totalArticles} article{totalArticles !== 1 ? 's' : ''} found
                       </div>
                     </div>
 
@@ -402,10 +485,12 @@ export default function HomePage() {
                                 
                                 <h3 className="text-xl font-bold mb-3 line-clamp-2">
                                   <Link 
-                                    to={`/article/${post.id}`}
+                                    to={articlePath(post)}
                                     className="hover:text-primary transition-colors"
                                   >
-                                    {post.title}
+                                    {searchResults[post.id]
+                                      ? <HighlightedText segments={searchResults[post.id].titleSegments} />
+                                      : post.title}
                                   </Link>
                                 </h3>
                                 
@@ -413,6 +498,12 @@ export default function HomePage() {
                                   {post.excerpt}
                                 </p>
                                 
+                                {searchResults[post.id]?.snippet.length > 0 && (
+                                  <p className="text-sm text-muted-foreground mb-4 border-l-2 border-primary/40 pl-3 line-clamp-3">
+                                    <HighlightedText segments={searchResults[post.id].snippet} />
+                                  </p>
+                                )}
+                                
                                 <div className="flex items-center justify-between">
                                   <div className="flex items-center gap-4 text-sm text-muted-foreground">
                                     <div className="flex items-center gap-1">
@@ -421,7 +512,7 @@ export default function HomePage() {
                                     </div>
                                     <div className="flex items-center gap-1">
                                       <Calendar className="h-4 w-4" />
-                                      {new Date(post.publishedAt).toLocaleDateString()}
+                                      {formatShortDate(post.publishedAt)}
                                     </div>
                                     <div className="flex items-center gap-1">
                                       <Clock className="h-4 w-4" />
@@ -430,7 +521,7 @@ export default function HomePage() {
                                   </div>
                                   
                                   <Button variant="ghost" asChild>
-                                    <Link to={`/article/${post.id}`}>
+                                    <Link to={articlePath(post)}>
                                       Read More
                                       <ArrowRight className="ml-2 h-4 w-4" />
                                     </Link>
@@ -442,6 +533,14 @@ export default function HomePage() {
                         ))
                       )}
                     </div>
+
+                    {nextCursor && (
+                      <div ref={loadMoreRef} className="mt-8 flex justify-center">
+                        <Button variant="outline" onClick={loadMoreArticles} disabled={loadingMore}>
+                          {loadingMore ? 'Loading...' : `Load more (${totalArticles - articles.length} remaining)`}
+                        </Button>
+                      </div>
+                    )}
                   </TabsContent>
                 ))}
               </div>
@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Bookmark, BookmarkX, CheckCircle2, Circle, Clock, User } from 'lucide-react'
+import { Card, CardContent } from '../components/ui/card'
+import { Badge } from '../components/ui/badge'
+import { Button } from '../components/ui/button'
+import { Tabs, TabsList, TabsTrigger } from '../components/ui/tabs'
+import { blink } from '../blink/client'
+import { articlePath } from '../lib/articleUrl'
+import { analyticsService } from '../services/analyticsService'
+import { reactionService, type ReadingListItem } from '../services/reactionService'
+
+interface ReadingListPageProps {
+  user: any
+}
+
+type ReadFilter = 'all' | 'unread' | 'read'
+
+export default function ReadingListPage({ user }: ReadingListPageProps) {
+  const [items, setItems] = useState<ReadingListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<ReadFilter>('all')
+  const userId: string | null = user?.id || null
+
+  useEffect(() => {
+    loadReadingList(userId)
+  }, [userId])
+
+  const loadReadingList = async (readerId: string | null) => {
+    setLoading(true)
+    try {
+      const list = await reactionService.getReadingList(readerId)
+      setItems(list)
+    } catch (error) {
+      console.error('Error loading reading list:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleToggleRead = async (item: ReadingListItem) => {
+    const read = !item.readAt
+    const saved = await reactionService.setRead(item.article.id, read, userId)
+    if (!saved) {
+      alert('Failed to update. Please try again.')
+      return
+    }
+    setItems(prev => prev.map(i => i.article.id === item.article.id
+      ? { ...i, readAt: read ? new Date().toISOString() : undefined }
+      : i
+    ))
+  }
+
+  const handleRemove = async (item: ReadingListItem) => {
+    const active = await reactionService.toggleReaction(item.article.id, 'bookmark', userId)
+    if (active === null) {
+      alert('Failed to remove. Please try again.')
+      return
+    }
+    analyticsService.trackEngagement(item.article.id, 'bookmark', -1)
+    setItems(prev => prev.filter(i => i.article.id !== item.article.id))
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    })
+  }
+
+  const unreadCount = items.filter(item => !item.readAt).length
+  const visibleItems = items.filter(item =>
+    filter === 'all' || (filter === 'read' ? !!item.readAt : !item.readAt)
+  )
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+              <Bookmark className="h-7 w-7 text-primary" />
+              Reading List
+            </h1>
+            <p className="text-muted-foreground">
+              {items.length} saved • {unreadCount} unread
+            </p>
+          </div>
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as ReadFilter)}>
+            <TabsList>
+              <TabsTrigger value="all">All</TabsTrigger>
+              <TabsTrigger value="unread">Unread</TabsTrigger>
+              <TabsTrigger value="read">Read</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {!user && (
+          <Card className="mb-6 p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              Your reading list is saved in this browser. Sign in to keep it with your account.
+            </p>
+            <Button size="sm" onClick={() => blink.auth.login()}>Sign In</Button>
+          </Card>
+        )}
+
+        {visibleItems.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground mb-4">
+              {items.length === 0
+                ? 'Nothing saved yet. Use the Save button on any article to read it later.'
+                : `No ${filter} articles.`}
+            </p>
+            <Button variant="outline" asChild>
+              <Link to="/">Browse Articles</Link>
+            </Button>
+          </Card>
+        ) : (
+          <div className="grid gap-4">
+            {visibleItems.map((item) => (
+              <Card key={item.article.id} className={`overflow-hidden ${item.readAt ? 'opacity-75' : ''}`}>
+                <div className="flex">
+                  {item.article.featuredImage && (
+                    <img
+                      src={item.article.featuredImage}
+                      alt={item.article.title}
+                      className="hidden sm:block w-40 object-cover"
+                    />
+                  )}
+                  <CardContent className="flex-1 p-4">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Badge
+                        style={{ backgroundColor: item.article.categoryColor }}
+                        className="text-white"
+                      >
+                        {item.article.categoryName}
+                      </Badge>
+                      {item.readAt ? (
+                        <Badge variant="secondary">Read</Badge>
+                      ) : (
+                        <Badge variant="outline">Unread</Badge>
+                      )}
+                    </div>
+                    <h3 className="font-bold mb-2 line-clamp-2">
+                      <Link to={articlePath(item.article)} className="hover:text-primary transition-colors">
+                        {item.article.title}
+                      </Link>
+                    </h3>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <User className="h-4 w-4" />
+                          {item.article.author}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-4 w-4" />
+                          {item.article.readTime}
+                        </span>
+                        <span>Saved {formatDate(item.savedAt)}</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleToggleRead(item)}>
+                          {item.readAt ? (
+                            <><Circle className="h-4 w-4 mr-1" /> Mark unread</>
+                          ) : (
+                            <><CheckCircle2 className="h-4 w-4 mr-1" /> Mark read</>
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(item)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <BookmarkX className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
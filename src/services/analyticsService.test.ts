@@ -0,0 +1,142 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { blink } from '../blink/client'
+import { analyticsService } from './analyticsService'
+import { settingsService } from './settingsService'
+
+vi.mock('../blink/client', () => ({
+  blink: {
+    db: {
+      analyticsEvents: { create: vi.fn(), list: vi.fn() },
+      articleDailyStats: { get: vi.fn(), list: vi.fn(), upsert: vi.fn() }
+    }
+  }
+}))
+
+const NOW = new Date('2026-03-10T12:00:00.000Z')
+
+// Serves rows matching a `day` condition in pages, as the database does
+function serveRows(table: { list: unknown }, rows: Record<string, any>[]) {
+  vi.mocked(table.list as typeof blink.db.analyticsEvents.list).mockImplementation(async ({ where, limit, offset }: any) => {
+    const day = where.day
+    const matching = rows.filter(row =>
+      day === undefined
+      || (typeof day === 'string' ? row.day === day
+        : day.gt ? row.day > day.gt
+        : day.lte ? row.day <= day.lte
+        : row.day >= day.gte)
+    )
+    return matching.slice(offset, offset + limit)
+  })
+}
+
+function upserted() {
+  return vi.mocked(blink.db.articleDailyStats.upsert).mock.calls.map(([row]: any[]) => row)
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(NOW)
+  sessionStorage.clear()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+  vi.clearAllMocks()
+})
+
+describe('analyticsService tracking', () => {
+  it('logs the event and bumps the day row with one read and one write', async () => {
+    vi.mocked(blink.db.articleDailyStats.get).mockResolvedValue({
+      id: 'a1_2026-03-10', articleId: 'a1', day: '2026-03-10', views: 4, referrers: '{"direct":4}'
+    })
+
+    expect(await analyticsService.trackView('a1')).toBe(true)
+
+    expect(blink.db.analyticsEvents.create).toHaveBeenCalledWith(expect.objectContaining({
+      articleId: 'a1', type: 'view', referrer: 'direct', day: '2026-03-10'
+    }))
+    expect(blink.db.analyticsEvents.list).not.toHaveBeenCalled()
+    expect(upserted()).toEqual([expect.objectContaining({ id: 'a1_2026-03-10', views: 5, referrers: '{"direct":5}' })])
+  })
+
+  it('never takes likes below zero when they are undone', async () => {
+    vi.mocked(blink.db.articleDailyStats.get).mockResolvedValue(null)
+
+    await analyticsService.trackEngagement('a1', 'like', -1)
+
+    expect(blink.db.analyticsEvents.create).toHaveBeenCalledWith(expect.objectContaining({ type: 'like', delta: -1 }))
+    expect(upserted()[0]).toMatchObject({ likes: 0 })
+  })
+})
+
+describe('analyticsService.reconcileClosedDays', () => {
+  it('recounts each finished day from the event log and keeps a running total', async () => {
+    vi.spyOn(settingsService, 'getSetting').mockResolvedValue({ through: '2026-03-07', totalViews: 100 })
+    const saveSetting = vi.spyOn(settingsService, 'saveSetting').mockResolvedValue(true)
+    // 1,200 views of one article span several pages, and none of them are dropped
+    serveRows(blink.db.analyticsEvents, [
+      ...Array.from({ length: 1200 }, (_, i) => ({ id: `e${i}`, articleId: 'a1', day: '2026-03-08', type: 'view', referrer: 'news.example.com' })),
+      { articleId: 'a2', day: '2026-03-08', type: 'like', delta: 1 },
+      { articleId: 'a2', day: '2026-03-08', type: 'like', delta: -1 },
+      { articleId: 'a2', day: '2026-03-08', type: 'bookmark', delta: -1 },
+      { articleId: 'a2', day: '2026-03-09', type: 'view', referrer: 'direct' },
+      { articleId: 'a2', day: '2026-03-09', type: 'read_depth', depth: 50 },
+      // Today is still being written to and is left alone
+      { articleId: 'a2', day: '2026-03-10', type: 'view' }
+    ])
+
+    const state = await analyticsService.reconcileClosedDays()
+
+    expect(state).toEqual({ through: '2026-03-09', totalViews: 1301 })
+    expect(saveSetting).toHaveBeenCalledWith('analyticsReconciled', state)
+    expect(upserted()).toEqual([
+      expect.objectContaining({ id: 'a1_2026-03-08', views: 1200, referrers: '{"news.example.com":1200}' }),
+      expect.objectContaining({ id: 'a2_2026-03-08', views: 0, likes: 0, bookmarks: 0 }),
+      expect.objectContaining({ id: 'a2_2026-03-09', views: 1, depth50: 1 })
+    ])
+  })
+
+  it('does nothing once yesterday is reconciled', async () => {
+    vi.spyOn(settingsService, 'getSetting').mockResolvedValue({ through: '2026-03-09', totalViews: 7 })
+    const saveSetting = vi.spyOn(settingsService, 'saveSetting')
+
+    expect(await analyticsService.reconcileClosedDays()).toEqual({ through: '2026-03-09', totalViews: 7 })
+    expect(blink.db.analyticsEvents.list).not.toHaveBeenCalled()
+    expect(saveSetting).not.toHaveBeenCalled()
+  })
+
+  it('starts the running total from the stored rows on its first run', async () => {
+    vi.spyOn(settingsService, 'getSetting').mockResolvedValue(null)
+    vi.spyOn(settingsService, 'saveSetting').mockResolvedValue(true)
+    serveRows(blink.db.articleDailyStats, [
+      { id: 'a1_2026-03-01', day: '2026-03-01', views: 5 },
+      { id: 'a1_2026-03-08', day: '2026-03-08', views: 3 },
+      { id: 'a1_2026-03-09', day: '2026-03-09', views: 99 }
+    ])
+    serveRows(blink.db.analyticsEvents, [
+      { articleId: 'a1', day: '2026-03-09', type: 'view' },
+      { articleId: 'a1', day: '2026-03-09', type: 'view' }
+    ])
+
+    // Yesterday's stored 99 was wrong; the log holds two views
+    expect(await analyticsService.reconcileClosedDays()).toEqual({ through: '2026-03-09', totalViews: 10 })
+  })
+})
+
+describe('analyticsService.getTotalViews', () => {
+  it('adds the rows written since the last reconciled day to the running total', async () => {
+    vi.spyOn(settingsService, 'getSetting').mockResolvedValue({ through: '2026-03-09', totalViews: 2000 })
+    serveRows(blink.db.articleDailyStats, [
+      { id: 'a1_2026-03-09', day: '2026-03-09', views: 40 },
+      { id: 'a1_2026-03-10', day: '2026-03-10', views: 2 },
+      { id: 'a2_2026-03-10', day: '2026-03-10', views: 3 }
+    ])
+
+    expect(await analyticsService.getTotalViews()).toBe(2005)
+    expect(blink.db.articleDailyStats.list).toHaveBeenCalledWith(expect.objectContaining({
+      where: { day: { gt: '2026-03-09' } }
+    }))
+  })
+})
@@ -0,0 +1,391 @@
+import { blink } from '../blink/client'
+import { isLikelyBot, referrerSource } from '../lib/botFilter'
+import type { EngagementCounts } from '../lib/trending'
+import { settingsService } from './settingsService'
+
+export type EngagementType = 'like' | 'bookmark' | 'share'
+
+export type ViewEventType = 'view' | 'read_depth' | EngagementType
+
+export const READ_DEPTH_MILESTONES = [25, 50, 75, 100] as const
+
+export type ReadDepth = typeof READ_DEPTH_MILESTONES[number]
+
+// One row per article per UTC day, incremented as events arrive. Concurrent increments can
+// race, so once a day is over its rows are recounted from the event log by reconcileClosedDays.
+export interface ArticleDailyStats {
+  id: string
+  articleId: string
+  day: string
+  views: number
+  likes: number
+  bookmarks: number
+  shares: number
+  readDepth: Record<ReadDepth, number>
+  referrers: Record<string, number>
+  updatedAt: string
+}
+
+export interface AnalyticsSummary {
+  totalViews: number
+  viewsByDay: { day: string, views: number }[]
+  topArticles: { articleId: string, views: number }[]
+  referrers: { source: string, views: number }[]
+  readDepth: Record<ReadDepth, number>
+}
+
+const SESSION_KEY = 'analytics_session'
+const SESSION_EVENTS_KEY = 'analytics_session_events'
+const STATS_BATCH_SIZE = 500
+const RECONCILE_STATE_KEY = 'analyticsReconciled'
+// A dashboard left unopened for weeks catches up over several loads
+const RECONCILE_MAX_DAYS = 7
+
+// Days up to `through` have been recounted from the log; `totalViews` is their running total
+interface ReconcileState {
+  through: string
+  totalViews: number
+}
+
+type EventDetails = { referrer?: string, depth?: number, delta?: 1 | -1 }
+
+class AnalyticsService {
+  // Counts one view per article per browser session; repeat visits and bots are dropped before anything is written
+  async trackView(articleId: string): Promise<boolean> {
+    try {
+      if (!this.shouldTrack(articleId, 'view')) return false
+
+      const referrer = referrerSource(document.referrer, window.location.hostname)
+      await this.recordAndCount(articleId, 'view', { referrer })
+      return true
+    } catch (error) {
+      console.error('Error tracking view:', error)
+      return false
+    }
+  }
+
+  async trackReadDepth(articleId: string, depth: ReadDepth): Promise<boolean> {
+    try {
+      if (!this.shouldTrack(articleId, `depth_${depth}`)) return false
+
+      await this.recordAndCount(articleId, 'read_depth', { depth })
+      return true
+    } catch (error) {
+      console.error('Error tracking read depth:', error)
+      return false
+    }
+  }
+
+  // Likes and bookmarks pass -1 when undone; shares are counted once per article per session
+  async trackEngagement(articleId: string, type: EngagementType, delta: 1 | -1 = 1): Promise<boolean> {
+    try {
+      if (type === 'share' ? !this.shouldTrack(articleId, type) : !this.isHuman()) return false
+
+      await this.recordAndCount(articleId, type, { delta })
+      return true
+    } catch (error) {
+      console.error('Error tracking engagement:', error)
+      return false
+    }
+  }
+
+  // Engagement per article summed over the last `days` days
+  async getEngagement(days: number): Promise<Map<string, EngagementCounts>> {
+    const engagement = new Map<string, EngagementCounts>()
+    try {
+      const rows = await this.listAll(blink.db.articleDailyStats, { day: { gte: this.lastDays(days)[0] } })
+
+      for (const row of rows) {
+        const stats = this.transformStats(row)
+        const counts = engagement.get(stats.articleId) || { views: 0, likes: 0, bookmarks: 0, shares: 0 }
+        counts.views += stats.views
+        counts.likes += stats.likes
+        counts.bookmarks += stats.bookmarks
+        counts.shares += stats.shares
+        engagement.set(stats.articleId, counts)
+      }
+      return engagement
+    } catch (error) {
+      console.error('Error fetching engagement:', error)
+      return engagement
+    }
+  }
+
+  async getSummary(days: number = 30): Promise<AnalyticsSummary> {
+    const summary: AnalyticsSummary = {
+      totalViews: 0,
+      viewsByDay: [],
+      topArticles: [],
+      referrers: [],
+      readDepth: { 25: 0, 50: 0, 75: 0, 100: 0 }
+    }
+
+    try {
+      const dayKeys = this.lastDays(days)
+      const rows = await this.listAll(blink.db.articleDailyStats, { day: { gte: dayKeys[0] } })
+      const stats: ArticleDailyStats[] = rows.map((row: any) => this.transformStats(row))
+
+      const byDay = new Map(dayKeys.map(day => [day, 0]))
+      const byArticle = new Map<string, number>()
+      const byReferrer = new Map<string, number>()
+
+      for (const row of stats) {
+        summary.totalViews += row.views
+        byDay.set(row.day, (byDay.get(row.day) || 0) + row.views)
+        byArticle.set(row.articleId, (byArticle.get(row.articleId) || 0) + row.views)
+        for (const [source, views] of Object.entries(row.referrers)) {
+          byReferrer.set(source, (byReferrer.get(source) || 0) + views)
+        }
+        for (const depth of READ_DEPTH_MILESTONES) {
+          summary.readDepth[depth] += row.readDepth[depth]
+        }
+      }
+
+      summary.viewsByDay = Array.from(byDay, ([day, views]) => ({ day, views }))
+      summary.topArticles = Array.from(byArticle, ([articleId, views]) => ({ articleId, views }))
+        .sort((a, b) => b.views - a.views)
+        .slice(0, 10)
+      summary.referrers = Array.from(byReferrer, ([source, views]) => ({ source, views }))
+        .sort((a, b) => b.views - a.views)
+        .slice(0, 10)
+
+      return summary
+    } catch (error) {
+      console.error('Error fetching analytics summary:', error)
+      return summary
+    }
+  }
+
+  // The running total of reconciled days plus the few rows written since
+  async getTotalViews(): Promise<number> {
+    try {
+      const state = await this.reconcileClosedDays()
+      const rows = await this.listAll(blink.db.articleDailyStats, { day: { gt: state.through } }, ['views'])
+      return rows.reduce((total: number, row: any) => total + (Number(row.views) || 0), state.totalViews)
+    } catch (error) {
+      console.error('Error fetching total views:', error)
+      return 0
+    }
+  }
+
+  // Recounts every finished day not yet reconciled from the append-only event log, fixing any
+  // increments lost to concurrent writers, and carries their views into the running total.
+  // Safe to run repeatedly and from several dashboards at once: each day is rebuilt from scratch.
+  async reconcileClosedDays(): Promise<ReconcileState> {
+    const yesterday = this.shiftDay(this.dayKey(new Date()), -1)
+    const state = await settingsService.getSetting<ReconcileState | null>(RECONCILE_STATE_KEY, null)
+      || await this.initialReconcileState(yesterday)
+    if (state.through >= yesterday) return state
+
+    let { through, totalViews } = state
+    for (let i = 0; i < RECONCILE_MAX_DAYS && through < yesterday; i++) {
+      through = this.shiftDay(through, 1)
+      totalViews += await this.reconcileDay(through)
+    }
+
+    const next = { through, totalViews }
+    await settingsService.saveSetting(RECONCILE_STATE_KEY, next)
+    return next
+  }
+
+  private isHuman(): boolean {
+    if (typeof window === 'undefined') return false
+    return !isLikelyBot({ userAgent: navigator.userAgent, webdriver: navigator.webdriver })
+  }
+
+  private shouldTrack(articleId: string, event: string): boolean {
+    if (!this.isHuman()) return false
+
+    const key = `${articleId}:${event}`
+    const seen: string[] = this.readSessionJson(SESSION_EVENTS_KEY, [])
+    if (seen.includes(key)) return false
+
+    sessionStorage.setItem(SESSION_EVENTS_KEY, JSON.stringify([...seen, key]))
+    return true
+  }
+
+  // Appends the event to the log, then bumps the day's row with one read and one write
+  private async recordAndCount(articleId: string, type: ViewEventType, details: EventDetails) {
+    const event = await this.recordEvent(articleId, type, details)
+    const id = `${articleId}_${event.day}`
+    const existing = await blink.db.articleDailyStats.get(id)
+    const stats = this.transformStats(existing || { id, articleId, day: event.day })
+
+    this.applyEvent(stats, event)
+    stats.likes = Math.max(0, stats.likes)
+    stats.bookmarks = Math.max(0, stats.bookmarks)
+    await this.saveStats(stats)
+  }
+
+  private async recordEvent(articleId: string, type: ViewEventType, details: EventDetails) {
+    const now = new Date()
+    const event = {
+      id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      articleId,
+      sessionId: this.getSessionId(),
+      type,
+      depth: details.depth ?? null,
+      referrer: details.referrer ?? null,
+      delta: details.delta ?? 1,
+      day: this.dayKey(now),
+      createdAt: now.toISOString()
+    }
+    await blink.db.analyticsEvents.create(event)
+    return event
+  }
+
+  // Rewrites every row for the day from its events and returns the day's views
+  private async reconcileDay(day: string): Promise<number> {
+    const byArticle = new Map<string, ArticleDailyStats>()
+    for (const event of await this.listAll(blink.db.analyticsEvents, { day })) {
+      const articleId = event.articleId || event.article_id
+      const stats = byArticle.get(articleId) || this.transformStats({ id: `${articleId}_${day}`, articleId, day })
+      this.applyEvent(stats, event)
+      byArticle.set(articleId, stats)
+    }
+
+    let views = 0
+    for (const stats of byArticle.values()) {
+      // An undo can land on a later day than the like it reverses
+      stats.likes = Math.max(0, stats.likes)
+      stats.bookmarks = Math.max(0, stats.bookmarks)
+      await this.saveStats(stats)
+      views += stats.views
+    }
+    return views
+  }
+
+  // The first run starts the running total from the rows already stored before yesterday
+  private async initialReconcileState(yesterday: string): Promise<ReconcileState> {
+    const through = this.shiftDay(yesterday, -1)
+    const rows = await this.listAll(blink.db.articleDailyStats, { day: { lte: through } }, ['views'])
+    return { through, totalViews: rows.reduce((total: number, row: any) => total + (Number(row.views) || 0), 0) }
+  }
+
+  private applyEvent(stats: ArticleDailyStats, event: any) {
+    const delta = Number(event.delta) || 1
+    switch (event.type) {
+      case 'view': {
+        const referrer = event.referrer || 'direct'
+        stats.views += 1
+        stats.referrers[referrer] = (stats.referrers[referrer] || 0) + 1
+        break
+      }
+      case 'read_depth': {
+        const depth = Number(event.depth) as ReadDepth
+        if (READ_DEPTH_MILESTONES.includes(depth)) stats.readDepth[depth] += 1
+        break
+      }
+      case 'like':
+        stats.likes += delta
+        break
+      case 'bookmark':
+        stats.bookmarks += delta
+        break
+      case 'share':
+        stats.shares += 1
+        break
+    }
+  }
+
+  private async saveStats(stats: ArticleDailyStats) {
+    await blink.db.articleDailyStats.upsert({
+      id: stats.id,
+      articleId: stats.articleId,
+      day: stats.day,
+      views: stats.views,
+      likes: stats.likes,
+      bookmarks: stats.bookmarks,
+      shares: stats.shares,
+      depth25: stats.readDepth[25],
+      depth50: stats.readDepth[50],
+      depth75: stats.readDepth[75],
+      depth100: stats.readDepth[100],
+      referrers: JSON.stringify(stats.referrers),
+      updatedAt: new Date().toISOString()
+    })
+  }
+
+  // Pages through a table rather than capping the scan, so totals never silently stop counting
+  private async listAll(table: any, where: Record<string, unknown>, select?: string[]): Promise<any[]> {
+    const rows: any[] = []
+    for (let offset = 0; ; offset += STATS_BATCH_SIZE) {
+      const batch = await table.list({
+        where,
+        ...(select ? { select: [...select, 'id'] } : {}),
+        orderBy: { id: 'asc' },
+        limit: STATS_BATCH_SIZE,
+        offset
+      })
+      rows.push(...batch)
+      if (batch.length < STATS_BATCH_SIZE) return rows
+    }
+  }
+
+  private getSessionId(): string {
+    let sessionId = sessionStorage.getItem(SESSION_KEY)
+    if (!sessionId) {
+      sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+      sessionStorage.setItem(SESSION_KEY, sessionId)
+    }
+    return sessionId
+  }
+
+  private readSessionJson<T>(key: string, fallback: T): T {
+    try {
+      const value = sessionStorage.getItem(key)
+      return value ? JSON.parse(value) : fallback
+    } catch {
+      return fallback
+    }
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().slice(0, 10)
+  }
+
+  private shiftDay(day: string, days: number): string {
+    const date = new Date(`${day}T00:00:00Z`)
+    date.setUTCDate(date.getUTCDate() + days)
+    return this.dayKey(date)
+  }
+
+  // Oldest first, ending today, so charts get a point for every day even without views
+  private lastDays(days: number): string[] {
+    const today = new Date()
+    return Array.from({ length: days }, (_, i) => {
+      const date = new Date(today)
+      date.setUTCDate(today.getUTCDate() - (days - 1 - i))
+      return this.dayKey(date)
+    })
+  }
+
+  private transformStats(dbStats: any): ArticleDailyStats {
+    let referrers: Record<string, number> = {}
+    try {
+      referrers = JSON.parse(dbStats.referrers || '{}')
+    } catch {
+      referrers = {}
+    }
+
+    return {
+      id: dbStats.id,
+      articleId: dbStats.articleId || dbStats.article_id,
+      day: dbStats.day,
+      views: Number(dbStats.views) || 0,
+      likes: Number(dbStats.likes) || 0,
+      bookmarks: Number(dbStats.bookmarks) || 0,
+      shares: Number(dbStats.shares) || 0,
+      readDepth: {
+        25: Number(dbStats.depth25 || dbStats.depth_25) || 0,
+        50: Number(dbStats.depth50 || dbStats.depth_50) || 0,
+        75: Number(dbStats.depth75 || dbStats.depth_75) || 0,
+        100: Number(dbStats.depth100 || dbStats.depth_100) || 0
+      },
+      referrers,
+      updatedAt: dbStats.updatedAt || dbStats.updated_at || ''
+    }
+  }
+}
+
+export const analyticsService = new AnalyticsService()
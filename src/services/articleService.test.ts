@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { blink } from '../blink/client'
+import type { Actor } from '../lib/permissions'
+import { ArticleService } from './articleService'
+import { revisionService, type ArticleRevision } from './revisionService'
+import { tagService } from './tagService'
+
+vi.mock('../blink/client', () => ({
+  blink: {
+    db: {
+      articles: { list: vi.fn(), update: vi.fn(), count: vi.fn() },
+      articleRedirects: { get: vi.fn() }
+    }
+  }
+}))
+
+const NOW = new Date('2026-03-10T12:00:00.000Z')
+
+const reader: Actor = { id: 'reader_1', name: 'Reader', role: 'reader' }
+const contributor: Actor = { id: 'author_1', name: 'Contributor', role: 'contributor' }
+const editor: Actor = { id: 'editor_1', name: 'Editor', role: 'editor' }
+
+function articleRow(overrides: Record<string, unknown>) {
+  return {
+    id: 'a1',
+    slug: 'hello-world',
+    title: 'Hello world',
+    content: '<p>Hello</p>',
+    excerpt: 'Hello',
+    author: 'Ada',
+    category: 'general',
+    publishedAt: '2026-03-01T09:00:00.000Z',
+    status: 'published',
+    tags: '[]',
+    userId: 'author_1',
+    createdAt: '2026-03-01T09:00:00.000Z',
+    updatedAt: '2026-03-01T09:00:00.000Z',
+    ...overrides
+  }
+}
+
+// Serves a single stored row to lookups by its slug or id
+function storeArticle(row: Record<string, unknown>) {
+  vi.mocked(blink.db.articles.list).mockImplementation(async ({ where }: any) =>
+    where.slug === row.slug || where.id === row.id ? [row] : []
+  )
+  vi.mocked(blink.db.articleRedirects.get).mockResolvedValue(null)
+}
+
+describe('articleService.resolveArticle with publicOnly', () => {
+  const service = new ArticleService(() => NOW)
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('returns published articles to everyone', async () => {
+    storeArticle(articleRow({}))
+
+    const resolved = await service.resolveArticle('hello-world', { publicOnly: true, viewer: null })
+    expect(resolved).toMatchObject({ article: { id: 'a1' }, redirect: false })
+  })
+
+  it.each(['draft', 'in_review', 'archived'])('hides %s articles from readers', async (status) => {
+    storeArticle(articleRow({ status }))
+
+    expect(await service.resolveArticle('hello-world', { publicOnly: true, viewer: null })).toBeNull()
+    expect(await service.resolveArticle('hello-world', { publicOnly: true, viewer: reader })).toBeNull()
+    // Nor can the id route be used to get round it
+    expect(await service.resolveArticle('a1', { publicOnly: true, viewer: reader })).toBeNull()
+  })
+
+  it('hides scheduled articles until their publish time arrives', async () => {
+    storeArticle(articleRow({ status: 'scheduled', publishedAt: '2026-03-10T12:00:01.000Z' }))
+    expect(await service.resolveArticle('hello-world', { publicOnly: true, viewer: null })).toBeNull()
+
+    storeArticle(articleRow({ status: 'scheduled', publishedAt: '2026-03-10T12:00:00.000Z' }))
+    expect(await service.resolveArticle('hello-world', { publicOnly: true, viewer: null })).not.toBeNull()
+  })
+
+  it('hides duplicates that are only shown through their original', async () => {
+    storeArticle(articleRow({ duplicateOf: 'a0' }))
+
+    expect(await service.resolveArticle('hello-world', { publicOnly: true, viewer: null })).toBeNull()
+  })
+
+  it('lets those who could edit an article preview it', async () => {
+    storeArticle(articleRow({ status: 'draft' }))
+
+    expect(await service.resolveArticle('hello-world', { publicOnly: true, viewer: editor })).not.toBeNull()
+    expect(await service.resolveArticle('hello-world', { publicOnly: true, viewer: contributor })).not.toBeNull()
+    expect(await service.resolveArticle('hello-world', {
+      publicOnly: true,
+      viewer: { ...contributor, id: 'someone_else' }
+    })).toBeNull()
+  })
+
+  it('resolves any status without publicOnly, for internal callers', async () => {
+    storeArticle(articleRow({ status: 'draft' }))
+
+    expect(await service.resolveArticle('hello-world')).not.toBeNull()
+  })
+})
+
+describe('articleService.isPublished', () => {
+  it('follows the injected clock for scheduled articles', () => {
+    const scheduled = { status: 'scheduled', publishedAt: '2026-03-10T12:00:00.000Z' } as any
+
+    expect(new ArticleService(() => new Date('2026-03-10T11:59:59.999Z')).isPublished(scheduled)).toBe(false)
+    expect(new ArticleService(() => NOW).isPublished(scheduled)).toBe(true)
+    expect(new ArticleService(() => NOW).isPublished({ ...scheduled, publishedAt: '' })).toBe(false)
+    expect(new ArticleService(() => NOW).isPublished({ status: 'published' } as any)).toBe(true)
+  })
+})
+
+describe('articleService.restoreRevision', () => {
+  const service = new ArticleService(() => NOW)
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.clearAllMocks()
+  })
+
+  it('brings back fields that were empty in the revision', async () => {
+    storeArticle(articleRow({ excerpt: 'Added later', featuredImage: 'https://example.com/cover.png' }))
+    vi.spyOn(revisionService, 'recordBaseline').mockResolvedValue()
+    vi.spyOn(revisionService, 'recordRevision').mockResolvedValue(null)
+    vi.spyOn(tagService, 'resolveTags').mockResolvedValue([])
+    vi.spyOn(tagService, 'refreshUsage').mockResolvedValue()
+
+    const revision = {
+      articleId: 'a1',
+      createdAt: '2026-03-01T09:00:00.000Z',
+      snapshot: {
+        title: 'Hello world',
+        content: '<p>Hello</p>',
+        excerpt: '',
+        featuredImage: '',
+        tags: [],
+        status: 'published',
+        publishedAt: '2026-03-01T09:00:00.000Z'
+      }
+    } as unknown as ArticleRevision
+
+    await service.restoreRevision(revision, editor)
+
+    expect(blink.db.articles.update).toHaveBeenCalledWith('a1', expect.objectContaining({
+      excerpt: '',
+      featuredImage: ''
+    }))
+    // Status and publish time stay as they are now
+    expect(vi.mocked(blink.db.articles.update).mock.calls[0][1]).not.toHaveProperty('status')
+  })
+})
+
+describe('articleService.countArticles by status', () => {
+  const service = new ArticleService(() => NOW)
+
+  it('counts due scheduled articles as published, not scheduled', async () => {
+    vi.mocked(blink.db.articles.count).mockResolvedValue(0)
+
+    await service.countArticles({ status: 'scheduled' })
+    await service.countArticles({ status: 'published' })
+
+    const [scheduled, published] = vi.mocked(blink.db.articles.count).mock.calls.map(([query]: any) => query.where.AND)
+    expect(scheduled).toContainEqual({
+      AND: [{ status: 'scheduled' }, { publishedAt: { gt: NOW.toISOString() } }]
+    })
+    expect(published).toContainEqual({
+      OR: [
+        { status: 'published' },
+        { status: { is: null } },
+        { AND: [{ status: 'scheduled' }, { publishedAt: { lte: NOW.toISOString() } }] }
+      ]
+    })
+  })
+})
+
+describe('articleService.getArticlesByIds', () => {
+  const service = new ArticleService(() => NOW)
+
+  it('fetches the ids in batched `in` lookups and skips ones that no longer exist', async () => {
+    vi.mocked(blink.db.articles.list).mockClear()
+    vi.mocked(blink.db.articles.list).mockImplementation(async ({ where }: any) =>
+      where.id.in.filter((id: string) => id !== 'a7').map((id: string) => articleRow({ id, slug: id }))
+    )
+    const ids = Array.from({ length: 150 }, (_, i) => `a${i}`)
+
+    const articles = await service.getArticlesByIds([...ids, 'a1'])
+
+    expect(blink.db.articles.list).toHaveBeenCalledTimes(2)
+    expect(vi.mocked(blink.db.articles.list).mock.calls.map(([query]: any) => query.where.id.in.length)).toEqual([100, 50])
+    expect(articles.size).toBe(149)
+    expect(articles.has('a7')).toBe(false)
+    expect(articles.get('a149')?.slug).toBe('a149')
+  })
+})
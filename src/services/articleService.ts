@@ -1,90 +1,305 @@
 import { blink } from '../blink/client'
+import { normalizeUrl, simhash, hammingDistance } from '../lib/dedupe'
+import { systemClock, type Clock } from '../lib/clock'
+import { renderMarkdown, type ContentFormat } from '../lib/articleRenderer'
+import { sanitizeHtml } from '../lib/sanitizeHtml'
+import { slugify, uniqueSlug } from '../lib/slugify'
+import {
+  canChangeStatus,
+  canDeleteArticle,
+  canEditArticle,
+  creatableStatuses,
+  type Actor
+} from '../lib/permissions'
+import { DEFAULT_TRENDING_SETTINGS, trendingScore, type EngagementCounts, type TrendingSettings } from '../lib/trending'
+import { analyticsService } from './analyticsService'
+import { categoryService, type Category } from './categoryService'
+import { revisionService, type ArticleRevision } from './revisionService'
+import { settingsService } from './settingsService'
+import { parseTagSlugs, tagService, tagSlugCondition, tagSlugsColumn } from './tagService'
+
+export type ArticleStatus = 'draft' | 'in_review' | 'scheduled' | 'published' | 'archived'
+
+export const ARTICLE_STATUSES: ArticleStatus[] = ['draft', 'in_review', 'scheduled', 'published', 'archived']
+
+export const STATUS_LABELS: Record<ArticleStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived'
+}
+
+export const STATUS_TRANSITIONS: Record<ArticleStatus, ArticleStatus[]> = {
+  draft: ['in_review', 'scheduled', 'published', 'archived'],
+  in_review: ['draft', 'scheduled', 'published', 'archived'],
+  scheduled: ['draft', 'published', 'archived'],
+  published: ['draft', 'archived'],
+  archived: ['draft']
+}
+
+export function canTransition(from: ArticleStatus, to: ArticleStatus): boolean {
+  return from === to || STATUS_TRANSITIONS[from].includes(to)
+}
 
 export interface Article {
   id: string
   title: string
+  // URL slug; rows created before slugs existed have none until backfillSlugs runs
+  slug: string
   content: string
+  contentFormat: ContentFormat
+  contentMarkdown?: string
   excerpt: string
+  // Display name; kept in sync with the linked author profile when there is one
   author: string
+  authorId?: string
   category: string
+  // Copies of the category's name and color; categoryService.syncArticleFields keeps them current
   categoryName: string
   categoryColor: string
   featuredImage: string
   publishedAt: string
   readTime: string
+  status: ArticleStatus
+  autoPublishedAt?: string
   isAggregated: boolean
   sourceName?: string
   sourceUrl?: string
+  canonicalUrl?: string
+  fingerprint?: string
+  duplicateOf?: string
   tags: string[]
+  // "|slug|slug|" column kept alongside `tags` for exact matching; see tagService
+  tagSlugs?: string
+  // Search and social overrides; empty means derive from the title, excerpt and featured image
+  seoTitle?: string
+  seoDescription?: string
+  ogImage?: string
+  // Keeps the article out of search engines and the sitemap
+  noindex?: boolean
   userId: string
   createdAt: string
   updatedAt: string
 }
 
-export interface Category {
-  id: string
-  name: string
-  color: string
-  description: string
-  userId: string
-  createdAt: string
+export type { Category }
+
+export type DuplicateAction = 'skip' | 'merge' | 'link'
+
+// Changes made from the dashboard pass the signed-in editor and are checked against their role.
+// Background jobs (feed ingestion, the publish scheduler) pass none.
+export interface CreateArticleOptions {
+  onDuplicate?: DuplicateAction
+  editor?: Actor
+}
+
+export interface UpdateArticleOptions {
+  editor?: Actor
+  note?: string
 }
 
+export interface CreateArticleResult {
+  status: 'created' | 'skipped' | 'merged' | 'linked'
+  article: Article
+  duplicateOf?: Article
+}
+
+export interface TrendingArticle {
+  article: Article
+  score: number
+  engagement: EngagementCounts
+}
+
+const TRENDING_SETTINGS_KEY = 'trending'
+const FEATURED_PIN_KEY = 'featured_article'
+const TRENDING_CANDIDATE_LIMIT = 200
+
+// Max differing SimHash bits for two articles to count as the same story
+const NEAR_DUPLICATE_DISTANCE = 3
+const DUPLICATE_SCAN_LIMIT = 200
+
+const SLUG_BACKFILL_LIMIT = 1000
+
+// Ids per `in` lookup when fetching many articles at once
+const ID_BATCH_SIZE = 100
+
 export interface ArticleFilters {
-  category?: string
+  // A category id, or a category and its subcategories
+  category?: string | string[]
+  // Tag slug
+  tag?: string
   search?: string
   isAggregated?: boolean
+  // Only articles owned by this user
+  userId?: string
+  authorId?: string
+  status?: ArticleStatus | 'all'
   limit?: number
   offset?: number
+  // Opaque cursor from a previous ArticlePage; takes precedence over offset
+  cursor?: string
 }
 
-class ArticleService {
+export interface ArticlePage {
+  articles: Article[]
+  total: number
+  nextCursor: string | null
+}
+
+// Newest first, with id as a tiebreaker so articles sharing a publish time keep a stable order across pages
+const LISTING_ORDER = { publishedAt: 'desc', id: 'desc' } as const
+
+function encodeCursor(article: Pick<Article, 'publishedAt' | 'id'>): string {
+  return btoa(JSON.stringify([article.publishedAt || '', article.id]))
+}
+
+function decodeCursor(cursor: string): { publishedAt: string, id: string } | null {
+  try {
+    const [publishedAt, id] = JSON.parse(atob(cursor))
+    return typeof publishedAt === 'string' && typeof id === 'string' ? { publishedAt, id } : null
+  } catch {
+    return null
+  }
+}
+
+export class ArticleService {
+  private clock: Clock
+  
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock
+  }
+  
   async getArticles(filters: ArticleFilters = {}): Promise<Article[]> {
     try {
-      const { category, search, isAggregated, limit = 20, offset = 0 } = filters
-      
-      const whereConditions: any[] = []
-      
-      // Category filter
-      if (category && category !== 'all') {
-        whereConditions.push({ category })
-      }
-      
-      // Search filter (title, excerpt, author, tags)
-      if (search) {
-        whereConditions.push({
-          OR: [
-            { title: { contains: search } },
-            { excerpt: { contains: search } },
-            { author: { contains: search } },
-            { tags: { contains: search } }
-          ]
-        })
-      }
-      
-      // Aggregated filter
-      if (typeof isAggregated === 'boolean') {
-        whereConditions.push({ isAggregated: isAggregated ? "1" : "0" })
-      }
-      
-      const whereClause = whereConditions.length > 0 
-        ? { AND: whereConditions }
-        : {}
+      const { limit = 20, offset = 0, cursor } = filters
       
       const articles = await blink.db.articles.list({
-        where: whereClause,
-        orderBy: { publishedAt: 'desc' },
+        where: this.listingCondition(filters, cursor),
+        orderBy: LISTING_ORDER,
         limit,
-        // offset // Note: offset might not be supported, using limit for now
+        offset: cursor ? 0 : offset
       })
       
-      return articles.map(this.transformArticle)
+      return articles.map((article: any) => this.transformArticle(article))
     } catch (error) {
       console.error('Error fetching articles:', error)
       return []
     }
   }
   
+  // One page of a listing plus the total across all pages. Pass nextCursor back as `cursor` for the following page.
+  async getArticlesPage(filters: ArticleFilters = {}): Promise<ArticlePage> {
+    try {
+      const { limit = 20, offset = 0, cursor } = filters
+      
+      const [rows, total] = await Promise.all([
+        blink.db.articles.list({
+          where: this.listingCondition(filters, cursor),
+          orderBy: LISTING_ORDER,
+          limit: limit + 1, // One extra row tells us whether another page exists
+          offset: cursor ? 0 : offset
+        }),
+        blink.db.articles.count({ where: this.listingCondition(filters) })
+      ])
+      
+      const articles = rows.slice(0, limit).map((article: any) => this.transformArticle(article))
+      const last = articles[articles.length - 1]
+      
+      return {
+        articles,
+        total,
+        nextCursor: rows.length > limit && last ? encodeCursor(last) : null
+      }
+    } catch (error) {
+      console.error('Error fetching article page:', error)
+      return { articles: [], total: 0, nextCursor: null }
+    }
+  }
+  
+  async countArticles(filters: ArticleFilters = {}): Promise<number> {
+    try {
+      return await blink.db.articles.count({ where: this.listingCondition(filters) })
+    } catch (error) {
+      console.error('Error counting articles:', error)
+      return 0
+    }
+  }
+  
+  private listingCondition(filters: ArticleFilters, cursor?: string) {
+    const { category, tag, search, isAggregated, userId, authorId, status = 'published' } = filters
+    
+    const whereConditions: any[] = [
+      // Syndicated copies linked to an earlier story stay out of listings
+      { duplicateOf: { is: null } }
+    ]
+    
+    // Status filter (public listings only ever see published articles)
+    if (status === 'published') {
+      whereConditions.push(this.publishedCondition())
+    } else if (status === 'scheduled') {
+      // Once due, a scheduled article is live and counted as published, even before the
+      // scheduler has flipped its status
+      whereConditions.push({
+        AND: [
+          { status: 'scheduled' },
+          { publishedAt: { gt: this.clock().toISOString() } }
+        ]
+      })
+    } else if (status !== 'all') {
+      whereConditions.push({ status })
+    }
+    
+    // Category filter
+    if (Array.isArray(category)) {
+      whereConditions.push({ OR: category.map(id => ({ category: id })) })
+    } else if (category && category !== 'all') {
+      whereConditions.push({ category })
+    }
+    
+    if (tag) {
+      whereConditions.push(tagSlugCondition(tag))
+    }
+    
+    // Search filter (title, excerpt, author, and tags matched whole)
+    if (search) {
+      whereConditions.push({
+        OR: [
+          { title: { contains: search } },
+          { excerpt: { contains: search } },
+          { author: { contains: search } },
+          ...(slugify(search) ? [tagSlugCondition(slugify(search))] : [])
+        ]
+      })
+    }
+    
+    // Aggregated filter
+    if (typeof isAggregated === 'boolean') {
+      whereConditions.push({ isAggregated: isAggregated ? "1" : "0" })
+    }
+    
+    if (userId) {
+      whereConditions.push({ userId })
+    }
+    
+    if (authorId) {
+      whereConditions.push({ authorId })
+    }
+    
+    // Keyset pagination: everything that sorts after the cursor row
+    const position = cursor ? decodeCursor(cursor) : null
+    if (position) {
+      whereConditions.push({
+        OR: [
+          { publishedAt: { lt: position.publishedAt } },
+          { AND: [{ publishedAt: position.publishedAt }, { id: { lt: position.id } }] }
+        ]
+      })
+    }
+    
+    return { AND: whereConditions }
+  }
+  
   async getArticleById(id: string): Promise<Article | null> {
     try {
       const articles = await blink.db.articles.list({
@@ -103,9 +318,133 @@ class ArticleService {
     }
   }
   
+  // Looks articles up in a few `in` queries instead of one per id; missing ids are left out
+  async getArticlesByIds(ids: string[]): Promise<Map<string, Article>> {
+    const found = new Map<string, Article>()
+    const unique = [...new Set(ids)]
+    try {
+      for (let start = 0; start < unique.length; start += ID_BATCH_SIZE) {
+        const batch = unique.slice(start, start + ID_BATCH_SIZE)
+        const articles = await blink.db.articles.list({
+          where: { id: { in: batch } },
+          limit: batch.length
+        })
+        for (const article of articles) {
+          found.set(article.id, this.transformArticle(article))
+        }
+      }
+      return found
+    } catch (error) {
+      console.error('Error fetching articles by id:', error)
+      return found
+    }
+  }
+
+  async getArticleBySlug(slug: string): Promise<Article | null> {
+    try {
+      const articles = await blink.db.articles.list({
+        where: { slug },
+        limit: 1
+      })
+      
+      return articles.length > 0 ? this.transformArticle(articles[0]) : null
+    } catch (error) {
+      console.error('Error fetching article by slug:', error)
+      return null
+    }
+  }
+  
+  // Finds the article a URL segment points at: its current slug, an old slug kept in the
+  // redirect table, or the raw id from links made before slugs. Anything but the current
+  // slug comes back with `redirect` set so the page can replace the URL. With `publicOnly`,
+  // articles readers can't see resolve to null unless the viewer could edit them.
+  async resolveArticle(
+    slugOrId: string,
+    options: { publicOnly?: boolean, viewer?: Actor | null } = {}
+  ): Promise<{ article: Article, redirect: boolean } | null> {
+    try {
+      const visible = (article: Article) =>
+        !options.publicOnly || this.isPublic(article) || canEditArticle(options.viewer, article)
+      
+      const bySlug = await this.getArticleBySlug(slugOrId)
+      if (bySlug) {
+        return visible(bySlug) ? { article: bySlug, redirect: false } : null
+      }
+      
+      const redirect = await blink.db.articleRedirects.get(slugOrId)
+      const article = await this.getArticleById(redirect ? redirect.articleId || redirect.article_id : slugOrId)
+      if (!article || !visible(article)) {
+        return null
+      }
+      return { article, redirect: !!article.slug }
+    } catch (error) {
+      console.error('Error resolving article:', error)
+      return null
+    }
+  }
+  
+  // The same test as public listings, for a single article already loaded
+  isPublished(article: Article): boolean {
+    if (article.status === 'published') return true
+    return article.status === 'scheduled'
+      && !!article.publishedAt
+      && new Date(article.publishedAt).getTime() <= this.clock().getTime()
+  }
+  
+  // Whether readers may open the article: published, and not a duplicate shown only through
+  // its original
+  isPublic(article: Article): boolean {
+    return this.isPublished(article) && !article.duplicateOf
+  }
+  
+  // Old slugs that still redirect to this article
+  async getRedirectSlugs(articleId: string): Promise<string[]> {
+    try {
+      const redirects = await blink.db.articleRedirects.list({ where: { articleId } })
+      return redirects.map((redirect: any) => redirect.id)
+    } catch (error) {
+      console.error('Error fetching article redirects:', error)
+      return []
+    }
+  }
+  
+  // Gives slugs to articles written before they existed. Safe to re-run; returns how many were filled in.
+  async backfillSlugs(): Promise<number> {
+    let filled = 0
+    try {
+      const articles = await blink.db.articles.list({
+        where: { OR: [{ slug: { is: null } }, { slug: '' }] },
+        limit: SLUG_BACKFILL_LIMIT
+      })
+      
+      for (const article of articles) {
+        const slug = await this.claimSlug(article.title || '', article.id)
+        await blink.db.articles.update(article.id, { slug })
+        filled++
+      }
+      return filled
+    } catch (error) {
+      console.error('Error backfilling slugs:', error)
+      return filled
+    }
+  }
+  
+  // An editor-pinned article wins while it is still published; otherwise the newest article is featured
   async getFeaturedArticle(): Promise<Article | null> {
     try {
+      const pinnedId = await this.getPinnedFeaturedId()
+      if (pinnedId) {
+        const pinned = await blink.db.articles.list({
+          where: { AND: [{ id: pinnedId }, { duplicateOf: { is: null } }, this.publishedCondition()] },
+          limit: 1
+        })
+        if (pinned.length > 0) {
+          return this.transformArticle(pinned[0])
+        }
+      }
+      
       const articles = await blink.db.articles.list({
+        where: { AND: [{ duplicateOf: { is: null } }, this.publishedCondition()] },
         orderBy: { publishedAt: 'desc' },
         limit: 1
       })
@@ -121,35 +460,89 @@ class ArticleService {
     }
   }
   
+  async getPinnedFeaturedId(): Promise<string | null> {
+    const pin = await settingsService.getSetting<{ articleId: string | null }>(FEATURED_PIN_KEY, { articleId: null })
+    return pin.articleId
+  }
+  
+  async pinFeaturedArticle(articleId: string | null): Promise<boolean> {
+    return settingsService.saveSetting(FEATURED_PIN_KEY, { articleId })
+  }
+  
+  // Ranked by weighted engagement with time decay; the featured article is left out since it is shown separately
   async getTrendingArticles(limit: number = 3): Promise<Article[]> {
     try {
-      const articles = await blink.db.articles.list({
-        orderBy: { publishedAt: 'desc' },
-        limit: limit + 1 // Get one extra to skip the featured article
-      })
+      const [ranking, featured] = await Promise.all([
+        this.getTrendingRanking(),
+        this.getFeaturedArticle()
+      ])
       
-      // Skip the first article (featured) and return the rest
-      return articles.slice(1).map(this.transformArticle)
+      return ranking
+        .filter(({ article }) => article.id !== featured?.id)
+        .slice(0, limit)
+        .map(({ article }) => article)
     } catch (error) {
       console.error('Error fetching trending articles:', error)
       return []
     }
   }
   
+  // Scores recent published articles; pass settings to preview weights before saving them
+  async getTrendingRanking(settings?: TrendingSettings): Promise<TrendingArticle[]> {
+    try {
+      const activeSettings = settings || await this.getTrendingSettings()
+      const [candidates, engagement] = await Promise.all([
+        this.getArticles({ limit: TRENDING_CANDIDATE_LIMIT }),
+        analyticsService.getEngagement(activeSettings.windowDays)
+      ])
+      const now = this.clock()
+      
+      return candidates
+        .map(article => {
+          const counts = engagement.get(article.id) || { views: 0, likes: 0, bookmarks: 0, shares: 0 }
+          return {
+            article,
+            engagement: counts,
+            score: trendingScore(counts, article.publishedAt, now, activeSettings)
+          }
+        })
+        // Articles without any engagement keep their recency order behind the scored ones
+        .sort((a, b) => b.score - a.score)
+    } catch (error) {
+      console.error('Error ranking trending articles:', error)
+      return []
+    }
+  }
+  
+  async getTrendingSettings(): Promise<TrendingSettings> {
+    const saved = await settingsService.getSetting<Partial<TrendingSettings>>(TRENDING_SETTINGS_KEY, {})
+    return {
+      ...DEFAULT_TRENDING_SETTINGS,
+      ...saved,
+      weights: { ...DEFAULT_TRENDING_SETTINGS.weights, ...saved.weights }
+    }
+  }
+  
+  async saveTrendingSettings(settings: TrendingSettings): Promise<boolean> {
+    return settingsService.saveSetting(TRENDING_SETTINGS_KEY, settings)
+  }
+  
   async getRelatedArticles(articleId: string, category: string, limit: number = 3): Promise<Article[]> {
     try {
       const articles = await blink.db.articles.list({
         where: { 
           AND: [
             { category },
-            { id: { not: articleId } }
+            { id: { not: articleId } },
+            { duplicateOf: { is: null } },
+            this.publishedCondition()
           ]
         },
         orderBy: { publishedAt: 'desc' },
         limit
       })
       
-      return articles.map(this.transformArticle)
+      return articles.map((article: any) => this.transformArticle(article))
     } catch (error) {
       console.error('Error fetching related articles:', error)
       return []
@@ -157,90 +550,318 @@ class ArticleService {
   }
   
   async getCategories(): Promise<Category[]> {
-    try {
-      const categories = await blink.db.categories.list({
-        orderBy: { name: 'asc' }
-      })
-      
-      return categories.map(cat => ({
-        id: cat.id,
-        name: cat.name,
-        color: cat.color,
-        description: cat.description || '',
-        userId: cat.userId || cat.user_id,
-        createdAt: cat.createdAt || cat.created_at
-      }))
-    } catch (error) {
-      console.error('Error fetching categories:', error)
-      return []
-    }
+    return categoryService.getCategories()
   }
   
-  async createArticle(articleData: Partial<Article>): Promise<Article | null> {
+  async createArticle(
+    articleData: Partial<Article>,
+    options: CreateArticleOptions = {}
+  ): Promise<CreateArticleResult | null> {
     try {
-      const id = `article_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      
-      const article = await blink.db.articles.create({
-        id,
-        title: articleData.title || '',
-        content: articleData.content || '',
-        excerpt: articleData.excerpt || '',
-        author: articleData.author || '',
-        category: articleData.category || '',
-        categoryName: articleData.categoryName || '',
-        categoryColor: articleData.categoryColor || '#2563eb',
-        featuredImage: articleData.featuredImage || '',
-        publishedAt: articleData.publishedAt || new Date().toISOString().split('T')[0],
-        readTime: articleData.readTime || '5 min read',
-        isAggregated: articleData.isAggregated ? "1" : "0",
-        sourceName: articleData.sourceName || null,
-        sourceUrl: articleData.sourceUrl || null,
-        tags: JSON.stringify(articleData.tags || []),
-        userId: articleData.userId || 'user',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      })
-      
-      return this.transformArticle(article)
+      const { onDuplicate = 'skip', editor } = options
+      if (editor) {
+        const status = articleData.status || 'draft'
+        if (!creatableStatuses(editor).includes(status)) {
+          throw new Error(`${editor.role} cannot create ${status} articles`)
+        }
+      }
+      articleData = {
+        ...articleData,
+        // Authorship always comes from whoever is signed in, never from the form
+        userId: editor ? editor.id : articleData.userId,
+        content: sanitizeHtml(
+          articleData.contentFormat === 'markdown'
+            ? renderMarkdown(articleData.contentMarkdown || '')
+            : articleData.content || ''
+        )
+      }
+      const canonicalUrl = articleData.sourceUrl ? normalizeUrl(articleData.sourceUrl) : null
+      const fingerprint = simhash(`${articleData.title || ''} ${articleData.content || ''}`)
+
+      if (articleData.isAggregated) {
+        const match = await this.findDuplicate(canonicalUrl, fingerprint)
+
+        if (match) {
+          // Linking a story to itself is meaningless, so a same-URL match is skipped instead
+          const action = onDuplicate === 'link' && match.reason === 'url' ? 'skip' : onDuplicate
+
+          if (action === 'skip') {
+            return { status: 'skipped', article: match.article, duplicateOf: match.article }
+          }
+
+          if (action === 'merge') {
+            const merged = await this.mergeInto(match.article, articleData)
+            return merged ? { status: 'merged', article: merged, duplicateOf: match.article } : null
+          }
+
+          const linked = await this.insertArticle(articleData, canonicalUrl, fingerprint, match.article.id)
+          await revisionService.recordRevision(linked, options.editor, 'Created')
+          return { status: 'linked', article: linked, duplicateOf: match.article }
+        }
+      }
+
+      const article = await this.insertArticle(articleData, canonicalUrl, fingerprint, null)
+      await revisionService.recordRevision(article, options.editor, 'Created')
+      return { status: 'created', article }
     } catch (error) {
       console.error('Error creating article:', error)
       return null
     }
   }
   
-  async updateArticle(id: string, articleData: Partial<Article>): Promise<Article | null> {
+  private async insertArticle(
+    articleData: Partial<Article>,
+    canonicalUrl: string | null,
+    fingerprint: string,
+    duplicateOf: string | null
+  ): Promise<Article> {
+    const id = `article_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    const status = articleData.status || 'draft'
+    this.assertSchedulable(status, articleData.publishedAt)
+    const tags = await tagService.resolveTags(articleData.tags || [])
+    const slug = await this.claimSlug(articleData.slug || articleData.title || '', id)
+    
+    const article = await blink.db.articles.create({
+      id,
+      title: articleData.title || '',
+      slug,
+      content: articleData.content || '',
+      contentFormat: articleData.contentFormat || 'html',
+      contentMarkdown: articleData.contentFormat === 'markdown' ? articleData.contentMarkdown || '' : null,
+      excerpt: articleData.excerpt || '',
+      author: articleData.author || '',
+      authorId: articleData.authorId || null,
+      category: articleData.category || '',
+      categoryName: articleData.categoryName || '',
+      categoryColor: articleData.categoryColor || '#2563eb',
+      featuredImage: articleData.featuredImage || '',
+      publishedAt: articleData.publishedAt || (status === 'published' ? this.clock().toISOString() : ''),
+      readTime: articleData.readTime || '5 min read',
+      status,
+      isAggregated: articleData.isAggregated ? "1" : "0",
+      sourceName: articleData.sourceName || null,
+      sourceUrl: articleData.sourceUrl || null,
+      canonicalUrl,
+      fingerprint,
+      duplicateOf,
+      tags: JSON.stringify(tags.map(tag => tag.name)),
+      tagSlugs: tagSlugsColumn(tags.map(tag => tag.slug)),
+      seoTitle: articleData.seoTitle || '',
+      seoDescription: articleData.seoDescription || '',
+      ogImage: articleData.ogImage || '',
+      noindex: articleData.noindex ? "1" : "0",
+      userId: articleData.userId || 'user',
+      createdAt: this.clock().toISOString(),
+      updatedAt: this.clock().toISOString()
+    })
+    
+    await tagService.refreshUsage(tags.map(tag => tag.slug))
+    return this.transformArticle(article)
+  }
+  
+  private async findDuplicate(
+    canonicalUrl: string | null,
+    fingerprint: string
+  ): Promise<{ article: Article, reason: 'url' | 'fingerprint' } | null> {
+    if (canonicalUrl) {
+      const sameUrl = await blink.db.articles.list({
+        where: { canonicalUrl },
+        limit: 1
+      })
+      if (sameUrl.length > 0) {
+        return { article: this.transformArticle(sameUrl[0]), reason: 'url' }
+      }
+    }
+    
+    const recent = await blink.db.articles.list({
+      where: { duplicateOf: { is: null } },
+      orderBy: { createdAt: 'desc' },
+      limit: DUPLICATE_SCAN_LIMIT
+    })
+    const nearMatch = recent.find((candidate: any) =>
+      candidate.fingerprint && hammingDistance(candidate.fingerprint, fingerprint) <= NEAR_DUPLICATE_DISTANCE
+    )
+    
+    return nearMatch ? { article: this.transformArticle(nearMatch), reason: 'fingerprint' } : null
+  }
+  
+  private async mergeInto(existing: Article, incoming: Partial<Article>): Promise<Article | null> {
+    const incomingContent = incoming.content || ''
+    
+    return this.updateArticle(existing.id, {
+      content: incomingContent.length > existing.content.length ? incomingContent : undefined,
+      excerpt: existing.excerpt ? undefined : incoming.excerpt,
+      featuredImage: existing.featuredImage ? undefined : incoming.featuredImage,
+      tags: Array.from(new Set([...existing.tags, ...(incoming.tags || [])]))
+    })
+  }
+  
+  async updateArticle(
+    id: string,
+    articleData: Partial<Article>,
+    options: UpdateArticleOptions = {}
+  ): Promise<Article | null> {
     try {
+      const current = await this.getArticleById(id)
+      if (!current) {
+        throw new Error(`Article ${id} not found`)
+      }
+      if (options.editor) {
+        this.assertCanUpdate(options.editor, current, articleData)
+      }
+      
       const updateData: any = {
-        updatedAt: new Date().toISOString()
+        updatedAt: this.clock().toISOString()
       }
       
       if (articleData.title) updateData.title = articleData.title
-      if (articleData.content) updateData.content = articleData.content
-      if (articleData.excerpt) updateData.excerpt = articleData.excerpt
+      if (articleData.slug && slugify(articleData.slug) !== current.slug) {
+        updateData.slug = await this.claimSlug(articleData.slug, id)
+      }
+      if (articleData.content) updateData.content = sanitizeHtml(articleData.content)
+      if (articleData.contentFormat) updateData.contentFormat = articleData.contentFormat
+      if ((articleData.contentFormat || current.contentFormat) === 'markdown' && articleData.contentMarkdown) {
+        // Markdown stays the source of truth; the stored HTML is always re-rendered from it
+        updateData.contentMarkdown = articleData.contentMarkdown
+        updateData.content = sanitizeHtml(renderMarkdown(articleData.contentMarkdown))
+      }
+      // Optional fields can be emptied (or restored to empty), so only undefined means "unchanged"
+      if (articleData.excerpt !== undefined) updateData.excerpt = articleData.excerpt
       if (articleData.author) updateData.author = articleData.author
+      if (articleData.authorId !== undefined) updateData.authorId = articleData.authorId || null
       if (articleData.category) updateData.category = articleData.category
       if (articleData.categoryName) updateData.categoryName = articleData.categoryName
       if (articleData.categoryColor) updateData.categoryColor = articleData.categoryColor
-      if (articleData.featuredImage) updateData.featuredImage = articleData.featuredImage
+      if (articleData.featuredImage !== undefined) updateData.featuredImage = articleData.featuredImage
       if (articleData.publishedAt) updateData.publishedAt = articleData.publishedAt
-      if (articleData.readTime) updateData.readTime = articleData.readTime
+      if (articleData.readTime !== undefined) updateData.readTime = articleData.readTime
+      if (articleData.status) {
+        if (!canTransition(current.status, articleData.status)) {
+          throw new Error(`Cannot move article from ${current.status} to ${articleData.status}`)
+        }
+        this.assertSchedulable(articleData.status, articleData.publishedAt || current.publishedAt)
+        updateData.status = articleData.status
+        if (articleData.status === 'published' && !current.publishedAt && !articleData.publishedAt) {
+          updateData.publishedAt = this.clock().toISOString()
+        }
+      }
       if (typeof articleData.isAggregated === 'boolean') updateData.isAggregated = articleData.isAggregated ? "1" : "0"
-      if (articleData.sourceName) updateData.sourceName = articleData.sourceName
-      if (articleData.sourceUrl) updateData.sourceUrl = articleData.sourceUrl
-      if (articleData.tags) updateData.tags = JSON.stringify(articleData.tags)
+      if (articleData.sourceName !== undefined) updateData.sourceName = articleData.sourceName
+      if (articleData.sourceUrl !== undefined) {
+        updateData.sourceUrl = articleData.sourceUrl
+        updateData.canonicalUrl = articleData.sourceUrl ? normalizeUrl(articleData.sourceUrl) : null
+      }
+      // Overrides can be cleared, so an empty string is a real value here
+      if (articleData.seoTitle !== undefined) updateData.seoTitle = articleData.seoTitle
+      if (articleData.seoDescription !== undefined) updateData.seoDescription = articleData.seoDescription
+      if (articleData.ogImage !== undefined) updateData.ogImage = articleData.ogImage
+      if (typeof articleData.noindex === 'boolean') updateData.noindex = articleData.noindex ? "1" : "0"
+      // Tags are stored as canonical names plus a slug column for exact filtering
+      let retagged: string[] = []
+      if (articleData.tags) {
+        const tags = await tagService.resolveTags(articleData.tags)
+        updateData.tags = JSON.stringify(tags.map(tag => tag.name))
+        updateData.tagSlugs = tagSlugsColumn(tags.map(tag => tag.slug))
+        retagged = [...parseTagSlugs(current.tagSlugs), ...tags.map(tag => tag.slug)]
+      }
+      // Tag usage counts live articles, so going live or being taken down changes it too
+      if (updateData.status || updateData.publishedAt) {
+        retagged.push(...parseTagSlugs(current.tagSlugs))
+      }
+      
+      if (updateData.title || updateData.content) {
+        updateData.fingerprint = simhash(
+          `${updateData.title || current.title} ${updateData.content || current.content}`
+        )
+      }
       
+      await revisionService.recordBaseline(current)
       await blink.db.articles.update(id, updateData)
+      await tagService.refreshUsage(retagged)
+      if (updateData.slug && current.slug) {
+        await this.recordRedirect(current.slug, id)
+      }
       
-      return this.getArticleById(id)
+      const updated = await this.getArticleById(id)
+      if (updated) {
+        await revisionService.recordRevision(updated, options.editor, options.note)
+      }
+      return updated
     } catch (error) {
       console.error('Error updating article:', error)
       return null
     }
   }
   
-  async deleteArticle(id: string): Promise<boolean> {
+  async getDueScheduledArticles(): Promise<Article[]> {
+    try {
+      const articles = await blink.db.articles.list({
+        where: {
+          AND: [
+            { status: 'scheduled' },
+            { publishedAt: { lte: this.clock().toISOString() } }
+          ]
+        },
+        orderBy: { publishedAt: 'asc' }
+      })
+      
+      return articles.map((article: any) => this.transformArticle(article))
+    } catch (error) {
+      console.error('Error fetching due scheduled articles:', error)
+      return []
+    }
+  }
+  
+  async markScheduledPublished(id: string): Promise<Article | null> {
+    try {
+      const now = this.clock().toISOString()
+      const current = await this.getArticleById(id)
+      if (current) {
+        await revisionService.recordBaseline(current)
+      }
+      await blink.db.articles.update(id, {
+        status: 'published',
+        autoPublishedAt: now,
+        updatedAt: now
+      })
+      
+      const published = await this.getArticleById(id)
+      if (published) {
+        await revisionService.recordRevision(published, { id: 'scheduler', name: 'Scheduler' }, 'Published on schedule')
+        await tagService.refreshUsage(parseTagSlugs(published.tagSlugs))
+      }
+      return published
+    } catch (error) {
+      console.error('Error publishing scheduled article:', error)
+      return null
+    }
+  }
+  
+  async transitionArticle(id: string, status: ArticleStatus, editor?: Actor): Promise<Article | null> {
+    return this.updateArticle(id, { status }, { editor, note: `Moved to ${STATUS_LABELS[status]}` })
+  }
+  
+  // Workflow state and publish date are left alone so a restore can never bypass the transition rules
+  async restoreRevision(revision: ArticleRevision, editor?: Actor): Promise<Article | null> {
+    const { status: _status, publishedAt: _publishedAt, ...fields } = revision.snapshot
+    return this.updateArticle(revision.articleId, fields, {
+      editor,
+      note: `Restored revision from ${new Date(revision.createdAt).toLocaleString()}`
+    })
+  }
+  
+  async deleteArticle(id: string, editor?: Actor): Promise<boolean> {
     try {
+      const current = await this.getArticleById(id)
+      if (editor && current && !canDeleteArticle(editor, current)) {
+        throw new Error(`${editor.role} cannot delete article ${id}`)
+      }
       await blink.db.articles.delete(id)
+      const redirects = await blink.db.articleRedirects.list({ where: { articleId: id } })
+      await Promise.all(redirects.map((redirect: any) => blink.db.articleRedirects.delete(redirect.id)))
+      if (current) {
+        await tagService.refreshUsage(parseTagSlugs(current.tagSlugs))
+      }
       return true
     } catch (error) {
       console.error('Error deleting article:', error)
@@ -248,23 +869,98 @@ class ArticleService {
     }
   }
   
+  // Status changes and content edits are checked separately so a contributor can withdraw a draft from review
+  private assertCanUpdate(editor: Actor, current: Article, articleData: Partial<Article>) {
+    const { status, userId: _userId, ...fields } = articleData
+    const editsContent = Object.values(fields).some(value => value !== undefined)
+
+    if (editsContent && !canEditArticle(editor, current)) {
+      throw new Error(`${editor.role} cannot edit article ${current.id}`)
+    }
+    if (status && !canChangeStatus(editor, current, status)) {
+      throw new Error(`${editor.role} cannot move article ${current.id} to ${status}`)
+    }
+  }
+  
+  // Old slugs point at the article id, so a chain of renames always lands on the current slug
+  private async recordRedirect(oldSlug: string, articleId: string) {
+    await blink.db.articleRedirects.upsert({
+      id: oldSlug,
+      articleId,
+      createdAt: this.clock().toISOString()
+    })
+  }
+  
+  private async isSlugTaken(slug: string, exceptId: string): Promise<boolean> {
+    const matches = await blink.db.articles.list({ where: { slug }, limit: 2 })
+    return matches.some((article: any) => article.id !== exceptId)
+  }
+  
+  // A slug still held by a redirect is free to take; the live article wins over the old link
+  private async claimSlug(base: string, articleId: string): Promise<string> {
+    const slug = await uniqueSlug(base, candidate => this.isSlugTaken(candidate, articleId), 'article')
+    const redirect = await blink.db.articleRedirects.get(slug)
+    if (redirect) {
+      await blink.db.articleRedirects.delete(slug)
+    }
+    return slug
+  }
+  
+  private assertSchedulable(status: ArticleStatus, publishedAt?: string) {
+    if (status !== 'scheduled') return
+    if (!publishedAt || new Date(publishedAt).getTime() <= this.clock().getTime()) {
+      throw new Error('Scheduled articles need a publish time in the future')
+    }
+  }
+  
+  // Rows written before the workflow existed have no status and were live, so they count as published.
+  // Scheduled rows whose time has passed are shown even if the scheduler has not flipped them yet.
+  publishedCondition() {
+    return {
+      OR: [
+        { status: 'published' },
+        { status: { is: null } },
+        {
+          AND: [
+            { status: 'scheduled' },
+            { publishedAt: { lte: this.clock().toISOString() } }
+          ]
+        }
+      ]
+    }
+  }
+  
   private transformArticle(dbArticle: any): Article {
     return {
       id: dbArticle.id,
       title: dbArticle.title,
+      slug: dbArticle.slug || '',
       content: dbArticle.content,
+      contentFormat: dbArticle.contentFormat || dbArticle.content_format || 'html',
+      contentMarkdown: dbArticle.contentMarkdown || dbArticle.content_markdown || undefined,
       excerpt: dbArticle.excerpt,
       author: dbArticle.author,
+      authorId: dbArticle.authorId || dbArticle.author_id || undefined,
       category: dbArticle.category,
       categoryName: dbArticle.categoryName || dbArticle.category_name,
       categoryColor: dbArticle.categoryColor || dbArticle.category_color,
       featuredImage: dbArticle.featuredImage || dbArticle.featured_image,
       publishedAt: dbArticle.publishedAt || dbArticle.published_at,
       readTime: dbArticle.readTime || dbArticle.read_time,
+      status: dbArticle.status || 'published',
+      autoPublishedAt: dbArticle.autoPublishedAt || dbArticle.auto_published_at || undefined,
       isAggregated: Number(dbArticle.isAggregated || dbArticle.is_aggregated) > 0,
       sourceName: dbArticle.sourceName || dbArticle.source_name,
       sourceUrl: dbArticle.sourceUrl || dbArticle.source_url,
+      canonicalUrl: dbArticle.canonicalUrl || dbArticle.canonical_url || undefined,
+      fingerprint: dbArticle.fingerprint || undefined,
+      duplicateOf: dbArticle.duplicateOf || dbArticle.duplicate_of || undefined,
       tags: this.parseTags(dbArticle.tags),
+      tagSlugs: dbArticle.tagSlugs || dbArticle.tag_slugs || '',
+      seoTitle: dbArticle.seoTitle || dbArticle.seo_title || '',
+      seoDescription: dbArticle.seoDescription || dbArticle.seo_description || '',
+      ogImage: dbArticle.ogImage || dbArticle.og_image || '',
+      noindex: Number(dbArticle.noindex) > 0,
       userId: dbArticle.userId || dbArticle.user_id,
       createdAt: dbArticle.createdAt || dbArticle.created_at,
       updatedAt: dbArticle.updatedAt || dbArticle.updated_at
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { blink } from '../blink/client'
+import { authorService, isWebUrl } from './authorService'
+
+vi.mock('../blink/client', () => ({
+  blink: {
+    db: {
+      authors: { get: vi.fn(), update: vi.fn() }
+    }
+  }
+}))
+
+describe('isWebUrl', () => {
+  it('accepts only absolute http and https URLs', () => {
+    expect(isWebUrl('https://github.com/ada')).toBe(true)
+    expect(isWebUrl(' http://example.com ')).toBe(true)
+    expect(isWebUrl('javascript:alert(1)')).toBe(false)
+    expect(isWebUrl('JaVaScRiPt:alert(1)')).toBe(false)
+    expect(isWebUrl('data:text/html,<script>alert(1)</script>')).toBe(false)
+    expect(isWebUrl('mailto:ada@example.com')).toBe(false)
+    expect(isWebUrl('/relative')).toBe(false)
+    expect(isWebUrl('')).toBe(false)
+  })
+})
+
+describe('authorService socials', () => {
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const row = {
+    id: 'author_1',
+    slug: 'ada',
+    name: 'Ada',
+    socials: JSON.stringify({ website: 'https://ada.example.com', twitter: 'javascript:alert(1)' })
+  }
+
+  it('drops links with other schemes from stored profiles', async () => {
+    vi.mocked(blink.db.authors.get).mockResolvedValue(row)
+
+    expect((await authorService.getAuthorById('author_1'))?.socials).toEqual({ website: 'https://ada.example.com' })
+  })
+
+  it('never saves links with other schemes', async () => {
+    vi.mocked(blink.db.authors.get).mockResolvedValue(row)
+
+    await authorService.updateAuthor('author_1', {
+      socials: { github: 'https://github.com/ada', mastodon: 'data:text/html,x' }
+    })
+
+    expect(JSON.parse(vi.mocked(blink.db.authors.update).mock.calls[0][1].socials)).toEqual({
+      github: 'https://github.com/ada'
+    })
+  })
+})
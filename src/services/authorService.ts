@@ -0,0 +1,267 @@
+import { blink } from '../blink/client'
+import { slugify, uniqueSlug } from '../lib/slugify'
+import type { Actor } from '../lib/permissions'
+
+export const SOCIAL_NETWORKS = ['website', 'twitter', 'github', 'linkedin', 'mastodon'] as const
+
+export type SocialNetwork = typeof SOCIAL_NETWORKS[number]
+
+export type AuthorSocials = Partial<Record<SocialNetwork, string>>
+
+// Profile links are rendered as hrefs, so anything but an absolute http(s) URL is refused;
+// javascript: and data: links would otherwise run on the author page
+export function isWebUrl(url: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(url.trim()).protocol)
+  } catch {
+    return false
+  }
+}
+
+export interface Author {
+  id: string
+  slug: string
+  name: string
+  bio: string
+  avatarUrl: string
+  socials: AuthorSocials
+  // The account that writes as this author, if any
+  userId: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AuthorMigrationResult {
+  authorsCreated: number
+  articlesLinked: number
+}
+
+const MIGRATION_SCAN_LIMIT = 5000
+
+class AuthorService {
+  async getAuthors(): Promise<Author[]> {
+    try {
+      const authors = await blink.db.authors.list({ orderBy: { name: 'asc' } })
+      return authors.map((author: any) => this.transformAuthor(author))
+    } catch (error) {
+      console.error('Error fetching authors:', error)
+      return []
+    }
+  }
+
+  async getAuthorById(id: string): Promise<Author | null> {
+    try {
+      const author = await blink.db.authors.get(id)
+      return author ? this.transformAuthor(author) : null
+    } catch (error) {
+      console.error('Error fetching author:', error)
+      return null
+    }
+  }
+
+  async getAuthorBySlug(slug: string): Promise<Author | null> {
+    try {
+      const authors = await blink.db.authors.list({ where: { slug }, limit: 1 })
+      return authors.length > 0 ? this.transformAuthor(authors[0]) : null
+    } catch (error) {
+      console.error('Error fetching author:', error)
+      return null
+    }
+  }
+
+  async getAuthorForUser(userId: string): Promise<Author | null> {
+    try {
+      const authors = await blink.db.authors.list({ where: { userId }, limit: 1 })
+      return authors.length > 0 ? this.transformAuthor(authors[0]) : null
+    } catch (error) {
+      console.error('Error fetching author for user:', error)
+      return null
+    }
+  }
+
+  // Contributors write as themselves, so their profile is created the first time they need one
+  async getOrCreateAuthorForUser(actor: Actor): Promise<Author | null> {
+    const existing = await this.getAuthorForUser(actor.id)
+    if (existing) return existing
+    return this.createAuthor({ name: actor.name, userId: actor.id })
+  }
+
+  async createAuthor(authorData: Partial<Author>): Promise<Author | null> {
+    try {
+      const name = (authorData.name || '').trim()
+      if (!name) {
+        throw new Error('Authors need a name')
+      }
+      if (authorData.userId) {
+        await this.assertUserUnlinked(authorData.userId)
+      }
+
+      const now = new Date().toISOString()
+      const author = await blink.db.authors.create({
+        id: `author_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        slug: await uniqueSlug(authorData.slug || name, slug => this.isSlugTaken(slug), 'author'),
+        name,
+        bio: authorData.bio || '',
+        avatarUrl: authorData.avatarUrl || '',
+        socials: JSON.stringify(this.cleanSocials(authorData.socials)),
+        userId: authorData.userId || null,
+        createdAt: now,
+        updatedAt: now
+      })
+
+      return this.transformAuthor(author)
+    } catch (error) {
+      console.error('Error creating author:', error)
+      return null
+    }
+  }
+
+  async updateAuthor(id: string, authorData: Partial<Author>): Promise<Author | null> {
+    try {
+      const current = await this.getAuthorById(id)
+      if (!current) {
+        throw new Error(`Author ${id} not found`)
+      }
+
+      const updateData: any = {
+        updatedAt: new Date().toISOString()
+      }
+
+      if (authorData.name?.trim()) updateData.name = authorData.name.trim()
+      if (authorData.slug && slugify(authorData.slug) !== current.slug) {
+        updateData.slug = await uniqueSlug(authorData.slug, slug => this.isSlugTaken(slug, id), 'author')
+      }
+      if (authorData.bio !== undefined) updateData.bio = authorData.bio
+      if (authorData.avatarUrl !== undefined) updateData.avatarUrl = authorData.avatarUrl
+      if (authorData.socials) updateData.socials = JSON.stringify(this.cleanSocials(authorData.socials))
+      if (authorData.userId !== undefined && authorData.userId !== current.userId) {
+        if (authorData.userId) {
+          await this.assertUserUnlinked(authorData.userId)
+        }
+        updateData.userId = authorData.userId || null
+      }
+
+      await blink.db.authors.update(id, updateData)
+
+      // Articles keep a copy of the name for listings and search
+      if (updateData.name && updateData.name !== current.name) {
+        const articles = await blink.db.articles.list({ where: { authorId: id }, limit: MIGRATION_SCAN_LIMIT })
+        await Promise.all(articles.map((article: any) =>
+          blink.db.articles.update(article.id, { author: updateData.name })
+        ))
+      }
+
+      return this.getAuthorById(id)
+    } catch (error) {
+      console.error('Error updating author:', error)
+      return null
+    }
+  }
+
+  // Authors still credited on articles can't be removed; reassign those articles first
+  async deleteAuthor(id: string): Promise<boolean> {
+    try {
+      const credited = await blink.db.articles.count({ where: { authorId: id } })
+      if (credited > 0) {
+        throw new Error(`Author ${id} is credited on ${credited} articles`)
+      }
+      await blink.db.authors.delete(id)
+      return true
+    } catch (error) {
+      console.error('Error deleting author:', error)
+      return false
+    }
+  }
+
+  async countArticles(authorId: string): Promise<number> {
+    try {
+      return await blink.db.articles.count({ where: { authorId } })
+    } catch (error) {
+      console.error('Error counting author articles:', error)
+      return 0
+    }
+  }
+
+  // Links articles written before author profiles existed to a profile with the same name,
+  // creating profiles as needed. Aggregated articles keep their free-text byline since those
+  // writers belong to the source, not to this site. Safe to run repeatedly.
+  async migrateFreeTextAuthors(): Promise<AuthorMigrationResult> {
+    const result: AuthorMigrationResult = { authorsCreated: 0, articlesLinked: 0 }
+    try {
+      const articles = await blink.db.articles.list({
+        where: { AND: [{ authorId: { is: null } }, { isAggregated: '0' }] },
+        limit: MIGRATION_SCAN_LIMIT
+      })
+
+      const authors = await this.getAuthors()
+      const bySlug = new Map(authors.map(author => [slugify(author.name), author]))
+
+      for (const article of articles) {
+        const name = (article.author || '').trim()
+        if (!name) continue
+
+        const key = slugify(name)
+        let author = bySlug.get(key)
+        if (!author) {
+          const created = await this.createAuthor({ name })
+          if (!created) continue
+          author = created
+          bySlug.set(key, created)
+          result.authorsCreated++
+        }
+
+        await blink.db.articles.update(article.id, { authorId: author.id, author: author.name })
+        result.articlesLinked++
+      }
+
+      return result
+    } catch (error) {
+      console.error('Error migrating authors:', error)
+      return result
+    }
+  }
+
+  private async isSlugTaken(slug: string, exceptId?: string): Promise<boolean> {
+    const matches = await blink.db.authors.list({ where: { slug }, limit: 2 })
+    return matches.some((author: any) => author.id !== exceptId)
+  }
+
+  private async assertUserUnlinked(userId: string) {
+    const linked = await this.getAuthorForUser(userId)
+    if (linked) {
+      throw new Error(`User ${userId} is already linked to author ${linked.name}`)
+    }
+  }
+
+  private cleanSocials(socials: AuthorSocials = {}): AuthorSocials {
+    return Object.fromEntries(
+      SOCIAL_NETWORKS
+        .map(network => [network, (socials[network] || '').trim()])
+        .filter(([, url]) => url && isWebUrl(url))
+    )
+  }
+
+  private transformAuthor(dbAuthor: any): Author {
+    let socials: AuthorSocials = {}
+    try {
+      // Rows saved before links were checked may hold other schemes
+      socials = this.cleanSocials(JSON.parse(dbAuthor.socials || '{}'))
+    } catch {
+      socials = {}
+    }
+
+    return {
+      id: dbAuthor.id,
+      slug: dbAuthor.slug,
+      name: dbAuthor.name,
+      bio: dbAuthor.bio || '',
+      avatarUrl: dbAuthor.avatarUrl || dbAuthor.avatar_url || '',
+      socials,
+      userId: dbAuthor.userId || dbAuthor.user_id || null,
+      createdAt: dbAuthor.createdAt || dbAuthor.created_at,
+      updatedAt: dbAuthor.updatedAt || dbAuthor.updated_at
+    }
+  }
+}
+
+export const authorService = new AuthorService()
@@ -0,0 +1,319 @@
+import { blink } from '../blink/client'
+import { slugify, uniqueSlug } from '../lib/slugify'
+
+export interface Category {
+  id: string
+  name: string
+  slug: string
+  color: string
+  description: string
+  parentId: string | null
+  // Sort order among siblings
+  position: number
+  userId: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CategoryNode extends Category {
+  children: CategoryNode[]
+}
+
+export interface CategorySyncResult {
+  articlesChecked: number
+  articlesUpdated: number
+}
+
+export const DEFAULT_CATEGORY_COLOR = '#2563eb'
+
+const SYNC_BATCH_SIZE = 200
+
+export function isValidColor(color: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(color)
+}
+
+// Nests categories under their parents, siblings sorted by position. Categories whose parent
+// is missing are treated as top-level so nothing disappears from the navigation.
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>(categories.map(cat => [cat.id, { ...cat, children: [] }]))
+  const roots: CategoryNode[] = []
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  const sortNodes = (list: CategoryNode[]) => {
+    list.sort((a, b) => a.position - b.position || a.name.localeCompare(b.name))
+    list.forEach(node => sortNodes(node.children))
+  }
+  sortNodes(roots)
+  return roots
+}
+
+// Depth-first list of the tree, for selects and indented lists
+export function flattenCategoryTree(nodes: CategoryNode[], depth: number = 0): Array<{ category: Category, depth: number }> {
+  return nodes.flatMap(({ children, ...category }) => [
+    { category, depth },
+    ...flattenCategoryTree(children, depth + 1)
+  ])
+}
+
+// The category and everything nested below it, so a parent's listing includes its children
+export function getDescendantIds(categories: Category[], id: string): string[] {
+  const ids = [id]
+  for (let i = 0; i < ids.length; i++) {
+    categories.filter(cat => cat.parentId === ids[i]).forEach(cat => ids.push(cat.id))
+  }
+  return ids
+}
+
+class CategoryService {
+  async getCategories(): Promise<Category[]> {
+    try {
+      const categories = await blink.db.categories.list({
+        orderBy: { name: 'asc' }
+      })
+
+      return categories.map((cat: any) => this.transformCategory(cat))
+    } catch (error) {
+      console.error('Error fetching categories:', error)
+      return []
+    }
+  }
+
+  async getCategoryTree(): Promise<CategoryNode[]> {
+    return buildCategoryTree(await this.getCategories())
+  }
+
+  async getCategoryById(id: string): Promise<Category | null> {
+    try {
+      const category = await blink.db.categories.get(id)
+      return category ? this.transformCategory(category) : null
+    } catch (error) {
+      console.error('Error fetching category:', error)
+      return null
+    }
+  }
+
+  // Older links used the category id, so fall back to it when no slug matches
+  async getCategoryBySlug(slug: string): Promise<Category | null> {
+    const categories = await this.getCategories()
+    return categories.find(cat => cat.slug === slug) || categories.find(cat => cat.id === slug) || null
+  }
+
+  // Listings filter by a category and everything nested below it. Unknown slugs are passed
+  // through as-is so the listing simply comes back empty.
+  async resolveListingFilter(slug: string): Promise<string | string[]> {
+    const categories = await this.getCategories()
+    const match = categories.find(cat => cat.slug === slug) || categories.find(cat => cat.id === slug)
+    return match ? getDescendantIds(categories, match.id) : slug
+  }
+
+  async createCategory(categoryData: Partial<Category>): Promise<Category | null> {
+    try {
+      const name = (categoryData.name || '').trim()
+      if (!name) {
+        throw new Error('Categories need a name')
+      }
+
+      const color = categoryData.color || DEFAULT_CATEGORY_COLOR
+      if (!isValidColor(color)) {
+        throw new Error(`Invalid category color ${color}`)
+      }
+
+      const parentId = categoryData.parentId || null
+      if (parentId && !(await this.getCategoryById(parentId))) {
+        throw new Error(`Parent category ${parentId} not found`)
+      }
+
+      const siblings = await this.getSiblings(parentId)
+      const now = new Date().toISOString()
+      const category = await blink.db.categories.create({
+        id: `cat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        name,
+        slug: await uniqueSlug(categoryData.slug || name, slug => this.isSlugTaken(slug), 'category'),
+        color: color.toLowerCase(),
+        description: categoryData.description || '',
+        parentId,
+        position: siblings.length,
+        userId: categoryData.userId || 'admin',
+        createdAt: now,
+        updatedAt: now
+      })
+
+      return this.transformCategory(category)
+    } catch (error) {
+      console.error('Error creating category:', error)
+      return null
+    }
+  }
+
+  async updateCategory(id: string, categoryData: Partial<Category>): Promise<Category | null> {
+    try {
+      const categories = await this.getCategories()
+      const current = categories.find(cat => cat.id === id)
+      if (!current) {
+        throw new Error(`Category ${id} not found`)
+      }
+
+      const updateData: any = {
+        updatedAt: new Date().toISOString()
+      }
+
+      if (categoryData.name?.trim()) updateData.name = categoryData.name.trim()
+      if (categoryData.slug && slugify(categoryData.slug) !== current.slug) {
+        updateData.slug = await uniqueSlug(categoryData.slug, slug => this.isSlugTaken(slug, id), 'category')
+      }
+      if (categoryData.color) {
+        if (!isValidColor(categoryData.color)) {
+          throw new Error(`Invalid category color ${categoryData.color}`)
+        }
+        updateData.color = categoryData.color.toLowerCase()
+      }
+      if (categoryData.description !== undefined) updateData.description = categoryData.description
+
+      if (categoryData.parentId !== undefined && (categoryData.parentId || null) !== current.parentId) {
+        const parentId = categoryData.parentId || null
+        // A category can't move under itself or one of its own children
+        if (parentId && getDescendantIds(categories, id).includes(parentId)) {
+          throw new Error(`Category ${id} can't be nested under ${parentId}`)
+        }
+        if (parentId && !categories.some(cat => cat.id === parentId)) {
+          throw new Error(`Parent category ${parentId} not found`)
+        }
+        updateData.parentId = parentId
+        updateData.position = categories.filter(cat => cat.parentId === parentId).length
+      }
+
+      await blink.db.categories.update(id, updateData)
+
+      const updated = await this.getCategoryById(id)
+      if (updated && (updated.name !== current.name || updated.color !== current.color)) {
+        await this.syncArticleFields(updated)
+      }
+      return updated
+    } catch (error) {
+      console.error('Error updating category:', error)
+      return null
+    }
+  }
+
+  // Categories with articles or subcategories can't be removed; move those first
+  async deleteCategory(id: string): Promise<boolean> {
+    try {
+      const articles = await blink.db.articles.count({ where: { category: id } })
+      if (articles > 0) {
+        throw new Error(`Category ${id} has ${articles} articles`)
+      }
+      const children = await blink.db.categories.count({ where: { parentId: id } })
+      if (children > 0) {
+        throw new Error(`Category ${id} has ${children} subcategories`)
+      }
+
+      await blink.db.categories.delete(id)
+      return true
+    } catch (error) {
+      console.error('Error deleting category:', error)
+      return false
+    }
+  }
+
+  // Saves the order of one level of the tree; `orderedIds` are the siblings in their new order
+  async reorderCategories(parentId: string | null, orderedIds: string[]): Promise<boolean> {
+    try {
+      const siblings = await this.getSiblings(parentId)
+      const siblingIds = new Set(siblings.map(cat => cat.id))
+      if (orderedIds.length !== siblings.length || orderedIds.some(id => !siblingIds.has(id))) {
+        throw new Error('Reorder must list every category at that level exactly once')
+      }
+
+      await Promise.all(orderedIds.map((id, position) =>
+        blink.db.categories.update(id, { position })
+      ))
+      return true
+    } catch (error) {
+      console.error('Error reordering categories:', error)
+      return false
+    }
+  }
+
+  // Articles carry a copy of their category's name and color for listings. This rewrites the
+  // copies that no longer match; rows already in sync are left alone, so it is safe to re-run.
+  async syncArticleFields(category?: Category): Promise<CategorySyncResult> {
+    const result: CategorySyncResult = { articlesChecked: 0, articlesUpdated: 0 }
+    try {
+      const categories = category ? [category] : await this.getCategories()
+
+      for (const cat of categories) {
+        for (let offset = 0; ; offset += SYNC_BATCH_SIZE) {
+          const articles = await blink.db.articles.list({
+            where: { category: cat.id },
+            orderBy: { id: 'asc' },
+            limit: SYNC_BATCH_SIZE,
+            offset
+          })
+
+          const stale = articles.filter((article: any) =>
+            (article.categoryName || article.category_name) !== cat.name
+            || (article.categoryColor || article.category_color) !== cat.color
+          )
+          await Promise.all(stale.map((article: any) =>
+            blink.db.articles.update(article.id, { categoryName: cat.name, categoryColor: cat.color })
+          ))
+
+          result.articlesChecked += articles.length
+          result.articlesUpdated += stale.length
+          if (articles.length < SYNC_BATCH_SIZE) break
+        }
+      }
+
+      return result
+    } catch (error) {
+      console.error('Error syncing article categories:', error)
+      return result
+    }
+  }
+
+  async countArticles(categoryId: string): Promise<number> {
+    try {
+      return await blink.db.articles.count({ where: { category: categoryId } })
+    } catch (error) {
+      console.error('Error counting category articles:', error)
+      return 0
+    }
+  }
+
+  private async getSiblings(parentId: string | null): Promise<Category[]> {
+    const categories = await this.getCategories()
+    return categories.filter(cat => cat.parentId === parentId)
+  }
+
+  private async isSlugTaken(slug: string, exceptId?: string): Promise<boolean> {
+    const categories = await this.getCategories()
+    // Ids double as slugs for categories created before slugs existed
+    return categories.some(cat => cat.id !== exceptId && (cat.slug === slug || cat.id === slug))
+  }
+
+  private transformCategory(dbCategory: any): Category {
+    const position = Number(dbCategory.position)
+    return {
+      id: dbCategory.id,
+      name: dbCategory.name,
+      slug: dbCategory.slug || dbCategory.id,
+      color: dbCategory.color || DEFAULT_CATEGORY_COLOR,
+      description: dbCategory.description || '',
+      parentId: dbCategory.parentId || dbCategory.parent_id || null,
+      position: Number.isFinite(position) ? position : 0,
+      userId: dbCategory.userId || dbCategory.user_id,
+      createdAt: dbCategory.createdAt || dbCategory.created_at,
+      updatedAt: dbCategory.updatedAt || dbCategory.updated_at || dbCategory.createdAt || dbCategory.created_at
+    }
+  }
+}
+
+export const categoryService = new CategoryService()
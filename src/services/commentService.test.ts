@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { blink } from '../blink/client'
+import type { Actor } from '../lib/permissions'
+import { commentService, DEFAULT_COMMENT_SETTINGS } from './commentService'
+import { settingsService } from './settingsService'
+
+vi.mock('../blink/client', () => ({
+  blink: {
+    db: {
+      comments: { get: vi.fn(), list: vi.fn(), update: vi.fn() },
+      commentBans: { upsert: vi.fn(), delete: vi.fn() }
+    }
+  }
+}))
+
+const reader: Actor = { id: 'reader_1', name: 'Reader', role: 'reader' }
+const contributor: Actor = { id: 'author_1', name: 'Contributor', role: 'contributor' }
+const editor: Actor = { id: 'editor_1', name: 'Editor', role: 'editor' }
+
+describe('commentService moderation', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(blink.db.comments.list).mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.clearAllMocks()
+  })
+
+  it.each([reader, contributor])('refuses every moderation write from a $role', async (actor) => {
+    const saveSetting = vi.spyOn(settingsService, 'saveSetting')
+
+    expect(await commentService.approveComment('c1', actor)).toBe(false)
+    expect(await commentService.rejectComment('c1', actor)).toBe(false)
+    expect(await commentService.banUser('user_2', 'Spammer', actor)).toBe(false)
+    expect(await commentService.unbanUser('user_2', actor)).toBe(false)
+    expect(await commentService.saveSettings(DEFAULT_COMMENT_SETTINGS, actor)).toBe(false)
+
+    expect(blink.db.comments.update).not.toHaveBeenCalled()
+    expect(blink.db.commentBans.upsert).not.toHaveBeenCalled()
+    expect(blink.db.commentBans.delete).not.toHaveBeenCalled()
+    expect(saveSetting).not.toHaveBeenCalled()
+  })
+
+  it('lets moderators reject, ban and change settings', async () => {
+    vi.spyOn(settingsService, 'saveSetting').mockResolvedValue(true)
+
+    expect(await commentService.rejectComment('c1', editor)).toBe(true)
+    expect(await commentService.banUser('user_2', 'Spammer', editor, 'links')).toBe(true)
+    expect(await commentService.unbanUser('user_2', editor)).toBe(true)
+    expect(await commentService.saveSettings(DEFAULT_COMMENT_SETTINGS, editor)).toBe(true)
+
+    expect(blink.db.comments.update).toHaveBeenCalledWith('c1', expect.objectContaining({ status: 'rejected' }))
+    expect(blink.db.commentBans.upsert).toHaveBeenCalledWith(expect.objectContaining({ id: 'user_2', reason: 'links' }))
+  })
+})
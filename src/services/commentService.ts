@@ -0,0 +1,438 @@
+import { blink } from '../blink/client'
+import { hasPermission, type Actor } from '../lib/permissions'
+import { checkSpam, DEFAULT_SPAM_SETTINGS, type SpamSettings } from '../lib/spamCheck'
+import { notificationService } from './notificationService'
+import { settingsService } from './settingsService'
+
+export type CommentStatus = 'pending' | 'approved' | 'rejected'
+
+export interface Comment {
+  id: string
+  articleId: string
+  parentId: string | null
+  userId: string
+  authorName: string
+  body: string
+  status: CommentStatus
+  spamReasons: string[]
+  createdAt: string
+  updatedAt: string
+  editedAt?: string
+  deletedAt?: string
+}
+
+export interface CommentNode extends Comment {
+  replies: CommentNode[]
+}
+
+export interface CommentSettings extends SpamSettings {
+  // Authors can change or remove their own comments for this long after posting
+  editWindowMinutes: number
+  deleteWindowMinutes: number
+}
+
+export const DEFAULT_COMMENT_SETTINGS: CommentSettings = {
+  ...DEFAULT_SPAM_SETTINGS,
+  editWindowMinutes: 15,
+  deleteWindowMinutes: 60
+}
+
+export interface CommentBan {
+  userId: string
+  userName: string
+  reason: string
+  createdAt: string
+}
+
+export interface CommentAuthor {
+  id: string
+  name: string
+}
+
+// Either the saved comment or the reason it was refused
+export type CommentResult =
+  | { comment: Comment, error?: undefined }
+  | { comment?: undefined, error: string }
+
+export const MAX_COMMENT_LENGTH = 5000
+// Replies deeper than this are attached to the deepest allowed level
+export const MAX_THREAD_DEPTH = 4
+
+const SETTINGS_KEY = 'comments'
+const COMMENT_LIMIT = 500
+
+// Nests a flat list of comments by parentId; replies to missing parents become top-level.
+// Deleted comments are only kept as placeholders when they still have replies.
+export function buildCommentTree(comments: Comment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>(comments.map(comment => [comment.id, { ...comment, replies: [] }]))
+  const roots: CommentNode[] = []
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined
+    if (parent) {
+      parent.replies.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  const byDate = (a: CommentNode, b: CommentNode) => a.createdAt.localeCompare(b.createdAt)
+  const prune = (list: CommentNode[]): CommentNode[] => list
+    .map(node => ({ ...node, replies: prune(node.replies) }))
+    .filter(node => !node.deletedAt || node.replies.length > 0)
+    .sort(byDate)
+  return prune(roots)
+}
+
+export function isWithinWindow(comment: Comment, minutes: number): boolean {
+  return Date.now() - new Date(comment.createdAt).getTime() <= minutes * 60 * 1000
+}
+
+class CommentService {
+  // Approved comments plus the viewer's own ones still waiting for moderation
+  async getComments(articleId: string, viewerId?: string | null): Promise<Comment[]> {
+    try {
+      const visible: any[] = [{ status: 'approved' }]
+      if (viewerId) {
+        visible.push({ AND: [{ userId: viewerId }, { status: 'pending' }] })
+      }
+
+      const comments = await blink.db.comments.list({
+        where: { AND: [{ articleId }, { OR: visible }] },
+        orderBy: { createdAt: 'asc' },
+        limit: COMMENT_LIMIT
+      })
+
+      return comments.map((comment: any) => this.transformComment(comment))
+    } catch (error) {
+      console.error('Error fetching comments:', error)
+      return []
+    }
+  }
+
+  async countComments(articleId: string): Promise<number> {
+    try {
+      return await blink.db.comments.count({
+        where: { AND: [{ articleId }, { status: 'approved' }, { deletedAt: { is: null } }] }
+      })
+    } catch (error) {
+      console.error('Error counting comments:', error)
+      return 0
+    }
+  }
+
+  async addComment(articleId: string, body: string, author: CommentAuthor, parentId: string | null = null): Promise<CommentResult> {
+    try {
+      const text = body.trim()
+      if (!text) return { error: 'Comment cannot be empty.' }
+      if (text.length > MAX_COMMENT_LENGTH) return { error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters.` }
+
+      if (await this.isBanned(author.id)) {
+        return { error: 'You are not allowed to comment.' }
+      }
+
+      const settings = await this.getSettings()
+      const spam = checkSpam(text, settings, await this.getSpamContext(author.id, settings))
+      if (spam.verdict === 'block') {
+        return { error: 'You are commenting too quickly. Please wait a few minutes.' }
+      }
+
+      const parent = parentId ? await this.getComment(parentId) : null
+      if (parentId && (!parent || parent.articleId !== articleId)) {
+        return { error: 'The comment you replied to no longer exists.' }
+      }
+
+      const now = new Date().toISOString()
+      const comment = await blink.db.comments.create({
+        id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        articleId,
+        parentId: parent ? await this.replyParentId(parent) : null,
+        userId: author.id,
+        authorName: author.name,
+        body: text,
+        status: spam.verdict === 'allow' ? 'approved' : 'pending',
+        spamReasons: JSON.stringify(spam.reasons),
+        createdAt: now,
+        updatedAt: now,
+        editedAt: null,
+        deletedAt: null
+      })
+
+      const saved = this.transformComment(comment)
+      if (saved.status === 'approved') {
+        await this.notifyParentAuthor(saved)
+      }
+      return { comment: saved }
+    } catch (error) {
+      console.error('Error adding comment:', error)
+      return { error: 'Failed to post comment. Please try again.' }
+    }
+  }
+
+  async editComment(commentId: string, body: string, userId: string): Promise<CommentResult> {
+    try {
+      const text = body.trim()
+      if (!text) return { error: 'Comment cannot be empty.' }
+      if (text.length > MAX_COMMENT_LENGTH) return { error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters.` }
+
+      const comment = await this.getComment(commentId)
+      if (!comment || comment.userId !== userId || comment.deletedAt) {
+        return { error: 'Comment not found.' }
+      }
+
+      const settings = await this.getSettings()
+      if (!isWithinWindow(comment, settings.editWindowMinutes)) {
+        return { error: `Comments can only be edited within ${settings.editWindowMinutes} minutes of posting.` }
+      }
+
+      // Edits go through the same content checks, so a clean comment can't be edited into spam
+      const spam = checkSpam(text, settings, { recentCommentCount: 0, hasApprovedComment: true })
+      const status: CommentStatus = comment.status === 'approved' && spam.verdict === 'allow' ? 'approved' : 'pending'
+      const now = new Date().toISOString()
+
+      await blink.db.comments.update(commentId, {
+        body: text,
+        status,
+        spamReasons: JSON.stringify(spam.reasons),
+        editedAt: now,
+        updatedAt: now
+      })
+
+      return { comment: { ...comment, body: text, status, spamReasons: spam.reasons, editedAt: now, updatedAt: now } }
+    } catch (error) {
+      console.error('Error editing comment:', error)
+      return { error: 'Failed to save comment. Please try again.' }
+    }
+  }
+
+  // Deleted comments keep their row so replies stay in place; the body is cleared
+  async deleteComment(commentId: string, userId: string): Promise<CommentResult> {
+    try {
+      const comment = await this.getComment(commentId)
+      if (!comment || comment.userId !== userId || comment.deletedAt) {
+        return { error: 'Comment not found.' }
+      }
+
+      const settings = await this.getSettings()
+      if (!isWithinWindow(comment, settings.deleteWindowMinutes)) {
+        return { error: `Comments can only be deleted within ${settings.deleteWindowMinutes} minutes of posting.` }
+      }
+
+      const now = new Date().toISOString()
+      await blink.db.comments.update(commentId, { body: '', deletedAt: now, updatedAt: now })
+      return { comment: { ...comment, body: '', deletedAt: now, updatedAt: now } }
+    } catch (error) {
+      console.error('Error deleting comment:', error)
+      return { error: 'Failed to delete comment. Please try again.' }
+    }
+  }
+
+  async getModerationQueue(): Promise<Comment[]> {
+    try {
+      const comments = await blink.db.comments.list({
+        where: { AND: [{ status: 'pending' }, { deletedAt: { is: null } }] },
+        orderBy: { createdAt: 'asc' },
+        limit: COMMENT_LIMIT
+      })
+
+      return comments.map((comment: any) => this.transformComment(comment))
+    } catch (error) {
+      console.error('Error fetching moderation queue:', error)
+      return []
+    }
+  }
+
+  async getPendingCount(): Promise<number> {
+    try {
+      return await blink.db.comments.count({
+        where: { AND: [{ status: 'pending' }, { deletedAt: { is: null } }] }
+      })
+    } catch (error) {
+      console.error('Error counting pending comments:', error)
+      return 0
+    }
+  }
+
+  async approveComment(commentId: string, actor: Actor): Promise<boolean> {
+    try {
+      this.assertCanModerate(actor)
+      const comment = await this.getComment(commentId)
+      if (!comment) return false
+
+      await blink.db.comments.update(commentId, { status: 'approved', updatedAt: new Date().toISOString() })
+      if (comment.status !== 'approved') {
+        await this.notifyParentAuthor(comment)
+      }
+      return true
+    } catch (error) {
+      console.error('Error approving comment:', error)
+      return false
+    }
+  }
+
+  async rejectComment(commentId: string, actor: Actor): Promise<boolean> {
+    try {
+      this.assertCanModerate(actor)
+      await blink.db.comments.update(commentId, { status: 'rejected', updatedAt: new Date().toISOString() })
+      return true
+    } catch (error) {
+      console.error('Error rejecting comment:', error)
+      return false
+    }
+  }
+
+  // Bans stop new comments and reject everything the user still has waiting in the queue
+  async banUser(userId: string, userName: string, actor: Actor, reason: string = ''): Promise<boolean> {
+    try {
+      this.assertCanModerate(actor)
+      await blink.db.commentBans.upsert({
+        id: userId,
+        userName,
+        reason,
+        createdAt: new Date().toISOString()
+      })
+
+      const pending = await blink.db.comments.list({
+        where: { AND: [{ userId }, { status: 'pending' }] }
+      })
+      const now = new Date().toISOString()
+      await Promise.all(pending.map((comment: any) =>
+        blink.db.comments.update(comment.id, { status: 'rejected', updatedAt: now })
+      ))
+      return true
+    } catch (error) {
+      console.error('Error banning user:', error)
+      return false
+    }
+  }
+
+  async unbanUser(userId: string, actor: Actor): Promise<boolean> {
+    try {
+      this.assertCanModerate(actor)
+      await blink.db.commentBans.delete(userId)
+      return true
+    } catch (error) {
+      console.error('Error unbanning user:', error)
+      return false
+    }
+  }
+
+  async getBannedUsers(): Promise<CommentBan[]> {
+    try {
+      const bans = await blink.db.commentBans.list({ orderBy: { createdAt: 'desc' } })
+      return bans.map((ban: any) => ({
+        userId: ban.id,
+        userName: ban.userName || ban.user_name || ban.id,
+        reason: ban.reason || '',
+        createdAt: ban.createdAt || ban.created_at
+      }))
+    } catch (error) {
+      console.error('Error fetching banned users:', error)
+      return []
+    }
+  }
+
+  async isBanned(userId: string): Promise<boolean> {
+    try {
+      return !!await blink.db.commentBans.get(userId)
+    } catch (error) {
+      console.error('Error checking ban:', error)
+      return false
+    }
+  }
+
+  async getSettings(): Promise<CommentSettings> {
+    const saved = await settingsService.getSetting<Partial<CommentSettings>>(SETTINGS_KEY, {})
+    return { ...DEFAULT_COMMENT_SETTINGS, ...saved }
+  }
+
+  async saveSettings(settings: CommentSettings, actor: Actor): Promise<boolean> {
+    try {
+      this.assertCanModerate(actor)
+      return await settingsService.saveSetting(SETTINGS_KEY, settings)
+    } catch (error) {
+      console.error('Error saving comment settings:', error)
+      return false
+    }
+  }
+
+  // Hiding the moderation panel is not enough; every moderation write checks the role itself
+  private assertCanModerate(actor: Actor) {
+    if (!hasPermission(actor, 'comments:moderate')) {
+      throw new Error(`${actor.role} cannot moderate comments`)
+    }
+  }
+
+  private async getComment(commentId: string): Promise<Comment | null> {
+    const comment = await blink.db.comments.get(commentId)
+    return comment ? this.transformComment(comment) : null
+  }
+
+  private async getSpamContext(userId: string, settings: CommentSettings) {
+    const since = new Date(Date.now() - settings.rateLimitMinutes * 60 * 1000).toISOString()
+    const [recentCommentCount, approved] = await Promise.all([
+      blink.db.comments.count({ where: { AND: [{ userId }, { createdAt: { gte: since } }] } }),
+      settings.holdFirstComment
+        ? blink.db.comments.count({ where: { AND: [{ userId }, { status: 'approved' }] } })
+        : Promise.resolve(1)
+    ])
+    return { recentCommentCount, hasApprovedComment: approved > 0 }
+  }
+
+  // Walks up from the replied-to comment so threads never nest deeper than MAX_THREAD_DEPTH
+  private async replyParentId(parent: Comment): Promise<string> {
+    const ancestors: Comment[] = [parent]
+    let current = parent
+    while (current.parentId && ancestors.length < COMMENT_LIMIT) {
+      const next = await this.getComment(current.parentId)
+      if (!next) break
+      ancestors.push(next)
+      current = next
+    }
+
+    const overflow = ancestors.length - (MAX_THREAD_DEPTH - 1)
+    return overflow > 0 ? ancestors[overflow].id : parent.id
+  }
+
+  private async notifyParentAuthor(comment: Comment) {
+    if (!comment.parentId) return
+
+    const parent = await this.getComment(comment.parentId)
+    if (!parent || parent.userId === comment.userId || parent.deletedAt) return
+
+    await notificationService.notify({
+      userId: parent.userId,
+      type: 'comment_reply',
+      articleId: comment.articleId,
+      commentId: comment.id,
+      actorName: comment.authorName,
+      message: comment.body.slice(0, 140)
+    })
+  }
+
+  private transformComment(dbComment: any): Comment {
+    let spamReasons: string[] = []
+    try {
+      spamReasons = JSON.parse(dbComment.spamReasons || dbComment.spam_reasons || '[]')
+    } catch {
+      spamReasons = []
+    }
+
+    return {
+      id: dbComment.id,
+      articleId: dbComment.articleId || dbComment.article_id,
+      parentId: dbComment.parentId || dbComment.parent_id || null,
+      userId: dbComment.userId || dbComment.user_id,
+      authorName: dbComment.authorName || dbComment.author_name || 'Anonymous',
+      body: dbComment.body || '',
+      status: dbComment.status,
+      spamReasons,
+      createdAt: dbComment.createdAt || dbComment.created_at,
+      updatedAt: dbComment.updatedAt || dbComment.updated_at,
+      editedAt: dbComment.editedAt || dbComment.edited_at || undefined,
+      deletedAt: dbComment.deletedAt || dbComment.deleted_at || undefined
+    }
+  }
+}
+
+export const commentService = new CommentService()
@@ -0,0 +1,172 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import rssFixture from '../test/fixtures/rss.xml?raw'
+import atomFixture from '../test/fixtures/atom.xml?raw'
+import jsonFixture from '../test/fixtures/feed.json?raw'
+import { blink } from '../blink/client'
+import { articleService, type Article, type Category } from './articleService'
+import { feedIngestionService } from './feedIngestionService'
+import { feedSourceService, type FeedSource } from './feedSourceService'
+
+// Ingestion never reaches the network or the database in these tests
+vi.mock('../blink/client', () => ({
+  blink: { db: {}, data: { fetch: vi.fn() } }
+}))
+
+const source: FeedSource = {
+  id: 'feed_1',
+  name: 'Example Source',
+  url: 'https://engineering.example.com/feed.xml',
+  category: 'cat_general',
+  isActive: true,
+  pollIntervalMinutes: 60,
+  autoPublish: false,
+  itemCount: 0,
+  lastCreatedCount: 0,
+  lastSkippedCount: 0,
+  userId: 'user_1',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+}
+
+const categories: Category[] = [
+  {
+    id: 'cat_general',
+    name: 'General',
+    slug: 'general',
+    color: '#2563eb',
+    description: '',
+    parentId: null,
+    position: 0,
+    userId: 'user_1',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  },
+  {
+    id: 'cat_db',
+    name: 'Databases',
+    slug: 'databases',
+    color: '#16a34a',
+    description: '',
+    parentId: null,
+    position: 1,
+    userId: 'user_1',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  }
+]
+
+describe('feedIngestionService.ingestFromString', () => {
+  let created: Partial<Article>[]
+
+  beforeEach(() => {
+    created = []
+    vi.spyOn(articleService, 'getCategories').mockResolvedValue(categories)
+    vi.spyOn(articleService, 'createArticle').mockImplementation(async (data) => {
+      created.push(data)
+      return { status: 'created', article: { ...data, id: `a${created.length}` } as Article }
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('imports every RSS item as an aggregated article linked back to its source', async () => {
+    const result = await feedIngestionService.ingestFromString(source, rssFixture)
+
+    expect(result).toEqual({ sourceId: 'feed_1', fetched: 2, created: 2, skipped: 0, linked: 0, failed: 0 })
+    expect(articleService.createArticle).toHaveBeenCalledWith(expect.anything(), { onDuplicate: 'link' })
+
+    const [first, second] = created
+    expect(first).toMatchObject({
+      title: 'Scaling Postgres & keeping it boring',
+      excerpt: 'How we sharded without downtime.',
+      author: 'Ada Lovelace',
+      category: 'cat_db',
+      categoryName: 'Databases',
+      featuredImage: 'https://engineering.example.com/img/postgres.png',
+      publishedAt: '2026-03-03T14:30:15.000Z',
+      status: 'in_review',
+      isAggregated: true,
+      sourceName: 'Example Source',
+      sourceUrl: 'https://engineering.example.com/posts/scaling-postgres',
+      tags: ['Databases', 'Postgres'],
+      userId: 'user_1'
+    })
+
+    // Items matching no category land in the source's default one
+    expect(second.category).toBe('cat_general')
+    expect(second.publishedAt).toBe('2026-03-02T08:05:00.000Z')
+  })
+
+  it('imports Atom and JSON Feed fixtures with full timestamps', async () => {
+    await feedIngestionService.ingestFromString({ ...source, autoPublish: true }, atomFixture)
+    await feedIngestionService.ingestFromString(source, jsonFixture)
+
+    expect(created.map(article => article.publishedAt)).toEqual([
+      '2026-03-05T17:45:30.000Z',
+      '2026-03-01T06:00:00.000Z',
+      '2026-03-04T11:22:33.456Z',
+      '2026-03-03T07:00:00.000Z'
+    ])
+    expect(created[0]).toMatchObject({ title: 'CSS :has() in practice', status: 'published', tags: ['CSS', 'frontend'] })
+    expect(created[3]).toMatchObject({
+      author: 'Systems Weekly Staff',
+      content: 'A round-up of io_uring reading.',
+      sourceUrl: 'https://elsewhere.example.com/io-uring'
+    })
+  })
+
+  it('counts duplicates and failures separately from new articles', async () => {
+    vi.mocked(articleService.createArticle)
+      .mockResolvedValueOnce({ status: 'skipped', article: { id: 'existing' } as Article })
+      .mockResolvedValueOnce({ status: 'linked', article: { id: 'copy' } as Article })
+
+    const result = await feedIngestionService.ingestFromString(source, jsonFixture)
+    expect(result).toMatchObject({ fetched: 2, created: 0, skipped: 1, linked: 1, failed: 0 })
+
+    vi.mocked(articleService.createArticle).mockResolvedValue(null)
+    const failed = await feedIngestionService.ingestFromString(source, atomFixture)
+    expect(failed).toMatchObject({ fetched: 2, created: 0, failed: 2 })
+  })
+
+  it('fails on a document that is not a feed', async () => {
+    await expect(feedIngestionService.ingestFromString(source, '<html />')).rejects.toThrow('Unsupported feed format')
+    expect(articleService.createArticle).not.toHaveBeenCalled()
+  })
+})
+
+describe('feedIngestionService.ingestSource', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('records how many items were created and skipped rather than fetched', async () => {
+    vi.mocked(blink.data.fetch).mockResolvedValue({ status: 200, body: rssFixture } as any)
+    vi.spyOn(articleService, 'getCategories').mockResolvedValue(categories)
+    vi.spyOn(articleService, 'createArticle')
+      .mockResolvedValueOnce({ status: 'created', article: { id: 'a1' } as Article })
+      .mockResolvedValueOnce({ status: 'skipped', article: { id: 'a0' } as Article })
+    const recordFetch = vi.spyOn(feedSourceService, 'recordFetch').mockResolvedValue()
+
+    await feedIngestionService.ingestSource(source)
+
+    expect(recordFetch).toHaveBeenCalledWith('feed_1', { created: 1, skipped: 1, error: undefined })
+  })
+
+  it('records the error when the feed cannot be fetched', async () => {
+    vi.mocked(blink.data.fetch).mockResolvedValue({ status: 503, body: '' } as any)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const recordFetch = vi.spyOn(feedSourceService, 'recordFetch').mockResolvedValue()
+
+    const result = await feedIngestionService.ingestSource(source)
+
+    expect(result.error).toBe('Feed request failed with status 503')
+    expect(recordFetch).toHaveBeenCalledWith('feed_1', {
+      created: 0,
+      skipped: 0,
+      error: 'Feed request failed with status 503'
+    })
+  })
+})
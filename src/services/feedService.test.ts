@@ -0,0 +1,157 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { articleService, type Article } from './articleService'
+import { authorService, type Author } from './authorService'
+import { articleToFeedEntry, DEFAULT_FEED_SETTINGS, feedService } from './feedService'
+
+vi.mock('../blink/client', () => ({
+  blink: { db: {} }
+}))
+
+function article(overrides: Partial<Article>): Article {
+  return {
+    id: 'a1',
+    title: 'Hooks in depth',
+    slug: 'hooks-in-depth',
+    content: '<p>Effects <strong>run</strong> after paint.</p><script>alert(1)</script>',
+    contentFormat: 'html',
+    excerpt: 'Effects run after paint.',
+    author: 'Ada',
+    authorId: 'author_1',
+    category: 'cat_web',
+    categoryName: 'Web',
+    categoryColor: '#2563eb',
+    featuredImage: '/img/hooks.png',
+    publishedAt: '2026-03-03T14:30:15.000Z',
+    readTime: '3 min read',
+    status: 'published',
+    isAggregated: false,
+    tags: ['React'],
+    userId: 'user_1',
+    createdAt: '2026-03-03T14:30:15.000Z',
+    updatedAt: '2026-03-04T08:00:00.000Z',
+    ...overrides
+  }
+}
+
+const aggregated = article({
+  id: 'a2',
+  slug: 'from-elsewhere',
+  title: 'From elsewhere',
+  content: '<p>The whole story, which is not ours to republish.</p>',
+  excerpt: 'A short excerpt.',
+  authorId: undefined,
+  isAggregated: true,
+  sourceName: 'News & Views',
+  sourceUrl: 'https://news.example.org/story?id=1'
+})
+
+beforeEach(() => {
+  vi.stubEnv('VITE_SITE_URL', 'https://blog.example.com/')
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+describe('articleToFeedEntry', () => {
+  it('carries the sanitized article body in full mode', () => {
+    const entry = articleToFeedEntry(article({}), 'full', 'ada')
+
+    expect(entry).toMatchObject({
+      id: 'https://blog.example.com/article/hooks-in-depth',
+      url: 'https://blog.example.com/article/hooks-in-depth',
+      title: 'Hooks in depth',
+      summary: 'Effects run after paint.',
+      author: { name: 'Ada', url: 'https://blog.example.com/author/ada' },
+      categories: ['Web', 'React'],
+      image: 'https://blog.example.com/img/hooks.png'
+    })
+    expect(entry.externalUrl).toBeUndefined()
+    expect(entry.contentHtml).toContain('<strong>run</strong>')
+    expect(entry.contentHtml).not.toContain('<script')
+  })
+
+  it('leaves the body out in excerpt mode', () => {
+    const entry = articleToFeedEntry(article({}), 'excerpt')
+
+    expect(entry.contentHtml).toBeUndefined()
+    expect(entry.summary).toBe('Effects run after paint.')
+    expect(entry.author.url).toBeUndefined()
+  })
+
+  it('falls back to the opening text when there is no excerpt', () => {
+    const entry = articleToFeedEntry(article({ excerpt: '', content: `<p>${'word '.repeat(100)}</p>` }), 'excerpt')
+
+    expect(entry.summary).toHaveLength(300)
+    expect(entry.summary).not.toContain('<')
+  })
+
+  it('never republishes aggregated articles, even in full mode', () => {
+    const full = articleToFeedEntry(aggregated, 'full')
+
+    expect(full).toMatchObject({
+      id: 'https://blog.example.com/article/from-elsewhere',
+      url: 'https://news.example.org/story?id=1',
+      externalUrl: 'https://news.example.org/story?id=1'
+    })
+    expect(full.contentHtml).toBe(
+      '<p>A short excerpt.</p>\n<p>Originally published at <a href="https://news.example.org/story?id=1">News &amp; Views</a>.</p>'
+    )
+    expect(full.contentHtml).not.toContain('whole story')
+    expect(articleToFeedEntry(aggregated, 'excerpt').contentHtml).toBeUndefined()
+  })
+
+  it('treats aggregated articles without a source URL as our own', () => {
+    const entry = articleToFeedEntry({ ...aggregated, sourceUrl: undefined }, 'full')
+
+    expect(entry.url).toBe('https://blog.example.com/article/from-elsewhere')
+    expect(entry.contentHtml).toContain('whole story')
+  })
+})
+
+describe('feedService.generateFeed', () => {
+  beforeEach(() => {
+    vi.spyOn(authorService, 'getAuthors').mockResolvedValue([{ id: 'author_1', slug: 'ada' } as Author])
+    vi.spyOn(articleService, 'getArticles').mockResolvedValue([article({}), aggregated])
+  })
+
+  it('renders the site feed in each format from the live articles', async () => {
+    const settings = { ...DEFAULT_FEED_SETTINGS, itemLimit: 10 }
+
+    const rss = await feedService.generateFeed({ type: 'site' }, 'rss', settings)
+    const atom = await feedService.generateFeed({ type: 'site' }, 'atom', settings)
+    const json = JSON.parse(await feedService.generateFeed({ type: 'site' }, 'json', settings))
+
+    expect(articleService.getArticles).toHaveBeenCalledWith({
+      category: undefined,
+      tag: undefined,
+      isAggregated: undefined,
+      limit: 10
+    })
+    expect(rss).toContain('<atom:link href="https://blog.example.com/feed.xml" rel="self"')
+    expect(rss).toContain('<content:encoded>&lt;p&gt;Effects &lt;strong&gt;run&lt;/strong&gt;')
+    expect(atom).toContain('<link rel="related" type="text/html" href="https://blog.example.com/article/from-elsewhere"/>')
+    expect(json.feed_url).toBe('https://blog.example.com/feed.json')
+    expect(json.items.map((item: any) => item.url)).toEqual([
+      'https://blog.example.com/article/hooks-in-depth',
+      'https://news.example.org/story?id=1'
+    ])
+    expect(json.items[0].authors[0].url).toBe('https://blog.example.com/author/ada')
+  })
+
+  it('leaves aggregated articles out when the settings exclude them', async () => {
+    await feedService.generateFeed({ type: 'site' }, 'rss', { ...DEFAULT_FEED_SETTINGS, includeAggregated: false })
+
+    expect(articleService.getArticles).toHaveBeenCalledWith(expect.objectContaining({ isAggregated: false }))
+  })
+
+  it('carries no article bodies in excerpt mode', async () => {
+    const rss = await feedService.generateFeed({ type: 'site' }, 'rss', { ...DEFAULT_FEED_SETTINGS, mode: 'excerpt' })
+    const json = JSON.parse(await feedService.generateFeed({ type: 'site' }, 'json', { ...DEFAULT_FEED_SETTINGS, mode: 'excerpt' }))
+
+    expect(rss).not.toContain('<content:encoded>')
+    expect(json.items.map((item: any) => item.content_text)).toEqual(['Effects run after paint.', 'A short excerpt.'])
+  })
+})
@@ -0,0 +1,205 @@
+import { articlePath, categoryPath } from '../lib/articleUrl'
+import { escapeHtml, renderArticleHtml } from '../lib/articleRenderer'
+import type { FeedFormat } from '../lib/feedParser'
+import { FEED_CONTENT_TYPES, renderFeed, type FeedDocument, type FeedEntry } from '../lib/feedWriter'
+import { htmlToText } from '../lib/searchIndex'
+import { SITE_DESCRIPTION, SITE_NAME, absoluteUrl } from '../lib/site'
+import { articleService, type Article } from './articleService'
+import { authorService } from './authorService'
+import { categoryService, getDescendantIds, type Category } from './categoryService'
+import { settingsService } from './settingsService'
+import { tagService, type Tag } from './tagService'
+
+export const FEED_FORMATS: FeedFormat[] = ['rss', 'atom', 'json']
+
+// Full mode carries the whole article body; excerpt mode only the summary and a link
+export type FeedMode = 'full' | 'excerpt'
+
+export interface FeedSettings {
+  mode: FeedMode
+  itemLimit: number
+  includeAggregated: boolean
+}
+
+export const DEFAULT_FEED_SETTINGS: FeedSettings = {
+  mode: 'full',
+  itemLimit: 30,
+  includeAggregated: true
+}
+
+export type FeedScope =
+  | { type: 'site' }
+  | { type: 'category', category: Category }
+  | { type: 'tag', tag: Tag }
+
+export interface FeedFile {
+  path: string
+  contentType: string
+  body: string
+}
+
+const FEED_SETTINGS_KEY = 'feeds'
+
+const FEED_FILE_NAMES: Record<FeedFormat, string> = {
+  rss: 'feed.xml',
+  atom: 'atom.xml',
+  json: 'feed.json'
+}
+
+// Feeds sit beside the page they follow: /feed.xml, /category/ai/feed.xml, /tag/react/atom.xml
+export function feedPath(scope: FeedScope, format: FeedFormat): string {
+  switch (scope.type) {
+    case 'site':
+      return `/${FEED_FILE_NAMES[format]}`
+    case 'category':
+      return `/category/${scope.category.slug}/${FEED_FILE_NAMES[format]}`
+    case 'tag':
+      return `/tag/${scope.tag.slug}/${FEED_FILE_NAMES[format]}`
+  }
+}
+
+// Aggregated posts belong to their original publishers: the entry links there and never
+// carries more than our excerpt, whatever the feed's mode
+export function articleToFeedEntry(article: Article, mode: FeedMode, authorSlug?: string): FeedEntry {
+  const permalink = absoluteUrl(articlePath(article))
+  const summary = article.excerpt || htmlToText(article.content).slice(0, 300)
+  const original = article.isAggregated && article.sourceUrl ? article.sourceUrl : undefined
+
+  let contentHtml: string | undefined
+  if (mode === 'full') {
+    contentHtml = original
+      ? `<p>${escapeHtml(summary)}</p>\n<p>Originally published at <a href="${escapeHtml(original)}">${escapeHtml(article.sourceName || original)}</a>.</p>`
+      : renderArticleHtml(article)
+  }
+
+  return {
+    id: permalink,
+    url: original || permalink,
+    externalUrl: original,
+    title: article.title,
+    summary,
+    contentHtml,
+    author: {
+      name: article.author,
+      url: authorSlug ? absoluteUrl(`/author/${authorSlug}`) : undefined
+    },
+    publishedAt: article.publishedAt,
+    updatedAt: article.updatedAt || article.publishedAt,
+    categories: [article.categoryName, ...article.tags].filter(Boolean),
+    image: article.featuredImage ? absoluteUrl(article.featuredImage) : undefined
+  }
+}
+
+class FeedService {
+  async getFeedSettings(): Promise<FeedSettings> {
+    const saved = await settingsService.getSetting<Partial<FeedSettings>>(FEED_SETTINGS_KEY, {})
+    return { ...DEFAULT_FEED_SETTINGS, ...saved }
+  }
+
+  async saveFeedSettings(settings: FeedSettings): Promise<boolean> {
+    return settingsService.saveSetting(FEED_SETTINGS_KEY, settings)
+  }
+
+  async buildFeed(scope: FeedScope, settings?: FeedSettings): Promise<FeedDocument> {
+    const activeSettings = settings || await this.getFeedSettings()
+    const [categories, authorSlugs] = await Promise.all([
+      scope.type === 'category' ? categoryService.getCategories() : Promise.resolve([]),
+      this.getAuthorSlugs()
+    ])
+    return this.assembleFeed(scope, activeSettings, categories, authorSlugs)
+  }
+
+  async generateFeed(scope: FeedScope, format: FeedFormat, settings?: FeedSettings): Promise<string> {
+    return renderFeed(await this.buildFeed(scope, settings), format)
+  }
+
+  // Every feed the site publishes, for the build step to write out as static files.
+  // Tags nobody uses any more get no feed.
+  async generateAllFeeds(): Promise<FeedFile[]> {
+    const [settings, categories, tags, authorSlugs] = await Promise.all([
+      this.getFeedSettings(),
+      categoryService.getCategories(),
+      tagService.getTags(),
+      this.getAuthorSlugs()
+    ])
+
+    const scopes: FeedScope[] = [
+      { type: 'site' },
+      ...categories.map(category => ({ type: 'category' as const, category })),
+      ...tags.filter(tag => tag.usageCount > 0).map(tag => ({ type: 'tag' as const, tag }))
+    ]
+
+    const files: FeedFile[] = []
+    for (const scope of scopes) {
+      const feed = await this.assembleFeed(scope, settings, categories, authorSlugs)
+      for (const format of FEED_FORMATS) {
+        files.push({
+          path: feedPath(scope, format),
+          contentType: FEED_CONTENT_TYPES[format],
+          body: renderFeed(feed, format)
+        })
+      }
+    }
+    return files
+  }
+
+  private async assembleFeed(
+    scope: FeedScope,
+    settings: FeedSettings,
+    categories: Category[],
+    authorSlugs: Map<string, string>
+  ): Promise<FeedDocument> {
+    const articles = await articleService.getArticles({
+      category: scope.type === 'category' ? getDescendantIds(categories, scope.category.id) : undefined,
+      tag: scope.type === 'tag' ? scope.tag.slug : undefined,
+      isAggregated: settings.includeAggregated ? undefined : false,
+      limit: settings.itemLimit
+    })
+    const entries = articles.map(article =>
+      articleToFeedEntry(article, settings.mode, article.authorId ? authorSlugs.get(article.authorId) : undefined)
+    )
+
+    const { title, description, homePath } = this.describeScope(scope)
+    const newest = entries.map(entry => entry.updatedAt).sort().pop()
+
+    return {
+      title,
+      description,
+      homePageUrl: absoluteUrl(homePath),
+      feedUrls: {
+        rss: absoluteUrl(feedPath(scope, 'rss')),
+        atom: absoluteUrl(feedPath(scope, 'atom')),
+        json: absoluteUrl(feedPath(scope, 'json'))
+      },
+      language: 'en',
+      updatedAt: newest || new Date().toISOString(),
+      entries
+    }
+  }
+
+  private describeScope(scope: FeedScope): { title: string, description: string, homePath: string } {
+    switch (scope.type) {
+      case 'site':
+        return { title: SITE_NAME, description: SITE_DESCRIPTION, homePath: '/' }
+      case 'category':
+        return {
+          title: `${scope.category.name} | ${SITE_NAME}`,
+          description: scope.category.description || `The latest ${scope.category.name} articles on ${SITE_NAME}.`,
+          homePath: categoryPath(scope.category)
+        }
+      case 'tag':
+        return {
+          title: `#${scope.tag.name} | ${SITE_NAME}`,
+          description: `Articles tagged ${scope.tag.name} on ${SITE_NAME}.`,
+          homePath: `/tag/${scope.tag.slug}`
+        }
+    }
+  }
+
+  private async getAuthorSlugs(): Promise<Map<string, string>> {
+    const authors = await authorService.getAuthors()
+    return new Map(authors.map(author => [author.id, author.slug]))
+  }
+}
+
+export const feedService = new FeedService()
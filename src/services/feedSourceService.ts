@@ -0,0 +1,162 @@
+import { blink } from '../blink/client'
+
+export interface FeedSource {
+  id: string
+  name: string
+  url: string
+  category: string
+  isActive: boolean
+  pollIntervalMinutes: number
+  autoPublish: boolean
+  lastFetchedAt?: string
+  lastError?: string
+  // Articles created from this source over all fetches
+  itemCount: number
+  // What the last fetch did with its items: new articles, and duplicates that were not listed
+  lastCreatedCount: number
+  lastSkippedCount: number
+  userId: string
+  createdAt: string
+  updatedAt: string
+}
+
+class FeedSourceService {
+  async getFeedSources(): Promise<FeedSource[]> {
+    try {
+      const sources = await blink.db.feedSources.list({
+        orderBy: { name: 'asc' }
+      })
+
+      return sources.map(this.transformFeedSource)
+    } catch (error) {
+      console.error('Error fetching feed sources:', error)
+      return []
+    }
+  }
+
+  async getFeedSourceById(id: string): Promise<FeedSource | null> {
+    try {
+      const sources = await blink.db.feedSources.list({
+        where: { id },
+        limit: 1
+      })
+
+      if (sources.length === 0) {
+        return null
+      }
+
+      return this.transformFeedSource(sources[0])
+    } catch (error) {
+      console.error('Error fetching feed source:', error)
+      return null
+    }
+  }
+
+  async createFeedSource(sourceData: Partial<FeedSource>): Promise<FeedSource | null> {
+    try {
+      const id = `feed_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+      const source = await blink.db.feedSources.create({
+        id,
+        name: sourceData.name || '',
+        url: sourceData.url || '',
+        category: sourceData.category || '',
+        isActive: sourceData.isActive === false ? "0" : "1",
+        pollIntervalMinutes: sourceData.pollIntervalMinutes || 60,
+        autoPublish: sourceData.autoPublish ? "1" : "0",
+        lastFetchedAt: null,
+        lastError: null,
+        itemCount: 0,
+        lastCreatedCount: 0,
+        lastSkippedCount: 0,
+        userId: sourceData.userId || 'user',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      })
+
+      return this.transformFeedSource(source)
+    } catch (error) {
+      console.error('Error creating feed source:', error)
+      return null
+    }
+  }
+
+  async updateFeedSource(id: string, sourceData: Partial<FeedSource>): Promise<FeedSource | null> {
+    try {
+      const updateData: any = {
+        updatedAt: new Date().toISOString()
+      }
+
+      if (sourceData.name) updateData.name = sourceData.name
+      if (sourceData.url) updateData.url = sourceData.url
+      if (sourceData.category) updateData.category = sourceData.category
+      if (typeof sourceData.isActive === 'boolean') updateData.isActive = sourceData.isActive ? "1" : "0"
+      if (sourceData.pollIntervalMinutes) updateData.pollIntervalMinutes = sourceData.pollIntervalMinutes
+      if (typeof sourceData.autoPublish === 'boolean') updateData.autoPublish = sourceData.autoPublish ? "1" : "0"
+
+      await blink.db.feedSources.update(id, updateData)
+
+      return this.getFeedSourceById(id)
+    } catch (error) {
+      console.error('Error updating feed source:', error)
+      return null
+    }
+  }
+
+  async recordFetch(id: string, result: { created: number, skipped: number, error?: string }): Promise<void> {
+    try {
+      const now = new Date().toISOString()
+      const source = await this.getFeedSourceById(id)
+      await blink.db.feedSources.update(id, {
+        lastFetchedAt: now,
+        lastError: result.error || null,
+        itemCount: (source?.itemCount || 0) + result.created,
+        lastCreatedCount: result.created,
+        lastSkippedCount: result.skipped,
+        updatedAt: now
+      })
+    } catch (error) {
+      console.error('Error recording feed fetch:', error)
+    }
+  }
+
+  isDue(source: FeedSource, now: Date = new Date()): boolean {
+    if (!source.isActive) return false
+    if (!source.lastFetchedAt) return true
+
+    const nextFetch = new Date(source.lastFetchedAt).getTime() + source.pollIntervalMinutes * 60 * 1000
+    return now.getTime() >= nextFetch
+  }
+
+  async deleteFeedSource(id: string): Promise<boolean> {
+    try {
+      await blink.db.feedSources.delete(id)
+      return true
+    } catch (error) {
+      console.error('Error deleting feed source:', error)
+      return false
+    }
+  }
+
+  private transformFeedSource(dbSource: any): FeedSource {
+    return {
+      id: dbSource.id,
+      name: dbSource.name,
+      url: dbSource.url,
+      category: dbSource.category,
+      isActive: Number(dbSource.isActive ?? dbSource.is_active ?? 1) > 0,
+      pollIntervalMinutes: Number(dbSource.pollIntervalMinutes || dbSource.poll_interval_minutes) || 60,
+      autoPublish: Number(dbSource.autoPublish || dbSource.auto_publish) > 0,
+      lastFetchedAt: dbSource.lastFetchedAt || dbSource.last_fetched_at || undefined,
+      lastError: dbSource.lastError || dbSource.last_error || undefined,
+      itemCount: Number(dbSource.itemCount || dbSource.item_count) || 0,
+      lastCreatedCount: Number(dbSource.lastCreatedCount || dbSource.last_created_count) || 0,
+      lastSkippedCount: Number(dbSource.lastSkippedCount || dbSource.last_skipped_count) || 0,
+      userId: dbSource.userId || dbSource.user_id,
+      createdAt: dbSource.createdAt || dbSource.created_at,
+      updatedAt: dbSource.updatedAt || dbSource.updated_at
+    }
+  }
+}
+
+export const feedSourceService = new FeedSourceService()
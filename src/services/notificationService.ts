@@ -0,0 +1,80 @@
+import { blink } from '../blink/client'
+
+export type NotificationType = 'comment_reply'
+
+export interface Notification {
+  id: string
+  userId: string
+  type: NotificationType
+  articleId: string
+  commentId: string
+  actorName: string
+  message: string
+  readAt?: string
+  createdAt: string
+}
+
+class NotificationService {
+  async getNotifications(userId: string, limit: number = 20): Promise<Notification[]> {
+    try {
+      const notifications = await blink.db.notifications.list({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        limit
+      })
+
+      return notifications.map((notification: any) => this.transformNotification(notification))
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+      return []
+    }
+  }
+
+  async notify(data: Omit<Notification, 'id' | 'readAt' | 'createdAt'>): Promise<Notification | null> {
+    try {
+      const notification = await blink.db.notifications.create({
+        id: `notification_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        ...data,
+        readAt: null,
+        createdAt: new Date().toISOString()
+      })
+
+      return this.transformNotification(notification)
+    } catch (error) {
+      console.error('Error creating notification:', error)
+      return null
+    }
+  }
+
+  async markAllRead(userId: string): Promise<boolean> {
+    try {
+      const unread = await blink.db.notifications.list({
+        where: { AND: [{ userId }, { readAt: { is: null } }] }
+      })
+      const readAt = new Date().toISOString()
+      await Promise.all(unread.map((notification: any) =>
+        blink.db.notifications.update(notification.id, { readAt })
+      ))
+      return true
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+      return false
+    }
+  }
+
+  private transformNotification(dbNotification: any): Notification {
+    return {
+      id: dbNotification.id,
+      userId: dbNotification.userId || dbNotification.user_id,
+      type: dbNotification.type,
+      articleId: dbNotification.articleId || dbNotification.article_id,
+      commentId: dbNotification.commentId || dbNotification.comment_id,
+      actorName: dbNotification.actorName || dbNotification.actor_name || '',
+      message: dbNotification.message || '',
+      readAt: dbNotification.readAt || dbNotification.read_at || undefined,
+      createdAt: dbNotification.createdAt || dbNotification.created_at
+    }
+  }
+}
+
+export const notificationService = new NotificationService()
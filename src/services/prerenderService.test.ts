@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { articleService, type Article, type Category } from './articleService'
+import { categoryService } from './categoryService'
+import { prerenderService } from './prerenderService'
+
+vi.mock('../blink/client', () => ({
+  blink: { db: {} }
+}))
+
+function category(id: string, slug: string, parentId: string | null = null): Category {
+  return {
+    id,
+    name: slug,
+    slug,
+    color: '#2563eb',
+    description: '',
+    parentId,
+    position: 0,
+    userId: 'user_1',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  }
+}
+
+const categories = [category('cat_web', 'web'), category('cat_react', 'react', 'cat_web'), category('cat_ai', 'ai')]
+
+const article = {
+  id: 'a1',
+  slug: 'hooks-in-depth',
+  title: 'Hooks in depth',
+  content: '<p>Hi</p>',
+  excerpt: 'Hi',
+  author: 'Ada',
+  category: 'cat_react',
+  categoryName: 'react',
+  publishedAt: '2026-03-03T14:30:15.000Z',
+  status: 'published',
+  tags: []
+} as unknown as Article
+
+describe('prerenderService.buildArticleUpdate', () => {
+  beforeEach(() => {
+    vi.stubEnv('VITE_SITE_URL', 'https://blog.example.com')
+    vi.spyOn(categoryService, 'getCategories').mockResolvedValue(categories)
+    vi.spyOn(articleService, 'getFeaturedArticle').mockResolvedValue(null)
+    vi.spyOn(articleService, 'getTrendingArticles').mockResolvedValue([])
+    vi.spyOn(articleService, 'getArticlesPage').mockResolvedValue({ articles: [article], total: 1, nextCursor: null })
+    vi.spyOn(articleService, 'getRelatedArticles').mockResolvedValue([])
+    vi.spyOn(articleService, 'getRedirectSlugs').mockResolvedValue(['old-hooks'])
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('rebuilds every listing so the category an article moved out of drops it', async () => {
+    vi.spyOn(articleService, 'resolveArticle').mockResolvedValue({ article, redirect: false })
+
+    const update = await prerenderService.buildArticleUpdate('hooks-in-depth')
+
+    expect(update.pages.map(page => page.path)).toEqual([
+      '/',
+      '/category/web',
+      '/category/react',
+      '/category/ai',
+      '/article/hooks-in-depth'
+    ])
+    expect(update.stalePaths).toEqual(['/article/old-hooks'])
+  })
+
+  it('drops the page of an article that is no longer public', async () => {
+    vi.spyOn(articleService, 'resolveArticle').mockResolvedValue({ article: { ...article, status: 'draft' }, redirect: false })
+
+    const update = await prerenderService.buildArticleUpdate('hooks-in-depth')
+
+    expect(update.pages.map(page => page.path)).not.toContain('/article/hooks-in-depth')
+    expect(update.stalePaths).toEqual(['/article/old-hooks', '/article/hooks-in-depth'])
+  })
+})
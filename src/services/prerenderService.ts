@@ -0,0 +1,157 @@
+import { articlePath, categoryPath } from '../lib/articleUrl'
+import type { HomeSnapshot, PrerenderData } from '../lib/prerender'
+import { buildArticleMeta, buildListingMeta, type PageMeta } from '../lib/seo'
+import { articleService, type Article } from './articleService'
+import { authorService } from './authorService'
+import { buildCategoryTree, categoryService, getDescendantIds, type Category } from './categoryService'
+
+// A page ready to render: where it lives, its head tags and the data the app renders it from
+export interface PrerenderPage {
+  path: string
+  meta: PageMeta
+  data: PrerenderData
+}
+
+// What to write and what to delete after a single article changed
+export interface PrerenderUpdate {
+  pages: PrerenderPage[]
+  stalePaths: string[]
+}
+
+// Must match HomePage's PAGE_SIZE or the first "load more" after hydration skips or repeats articles
+const HOME_PAGE_SIZE = 10
+const TRENDING_LIMIT = 3
+const RELATED_LIMIT = 3
+const SCAN_BATCH_SIZE = 500
+
+// Loaded once per build and shared by every listing page
+interface ListingContext {
+  categories: Category[]
+  featured: Article | null
+  trending: Article[]
+}
+
+class PrerenderService {
+  // The home page, every category listing and every published article
+  async buildAllPages(): Promise<PrerenderPage[]> {
+    const context = await this.loadListingContext()
+    const pages = await this.buildListingPages(context, context.categories)
+
+    for (const article of await this.getPublishedArticles()) {
+      const page = await this.buildArticlePage(context, article)
+      if (page) pages.push(page)
+    }
+
+    return pages
+  }
+
+  // Rebuilds what one article appears on: its own page, the home page and every category listing.
+  // Listings are all rebuilt because the article may have moved category, or appear on others
+  // through the featured and trending sections. Old slugs are returned as stale so their copies
+  // are removed and the app's redirect takes over. An article that is gone or no longer
+  // published drops its page.
+  async buildArticleUpdate(slugOrId: string): Promise<PrerenderUpdate> {
+    const [context, resolved] = await Promise.all([
+      this.loadListingContext(),
+      articleService.resolveArticle(slugOrId)
+    ])
+
+    if (!resolved) {
+      return {
+        pages: await this.buildListingPages(context, context.categories),
+        stalePaths: [articlePath({ id: slugOrId })]
+      }
+    }
+
+    const { article } = resolved
+    const stalePaths = (await articleService.getRedirectSlugs(article.id)).map(slug => articlePath({ id: article.id, slug }))
+    if (!articleService.isPublic(article)) {
+      stalePaths.push(articlePath(article))
+      return {
+        pages: await this.buildListingPages(context, context.categories),
+        stalePaths
+      }
+    }
+
+    const pages = await this.buildListingPages(context, context.categories)
+    const page = await this.buildArticlePage(context, article)
+    if (page) pages.push(page)
+
+    return { pages, stalePaths }
+  }
+
+  private async loadListingContext(): Promise<ListingContext> {
+    const [categories, featured, trending] = await Promise.all([
+      categoryService.getCategories(),
+      articleService.getFeaturedArticle(),
+      articleService.getTrendingArticles(TRENDING_LIMIT)
+    ])
+    return { categories, featured, trending }
+  }
+
+  // The home page followed by the given category listings
+  private async buildListingPages(context: ListingContext, categories: Category[]): Promise<PrerenderPage[]> {
+    const pages = [await this.buildListingPage(context, null)]
+    for (const category of categories) {
+      pages.push(await this.buildListingPage(context, category))
+    }
+    return pages
+  }
+
+  // Loads what HomePage loads on mount for "/" or a category, with no search or type filter
+  private async buildListingPage(context: ListingContext, category: Category | null): Promise<PrerenderPage> {
+    const path = category ? categoryPath(category) : '/'
+    const filters = category ? { category: getDescendantIds(context.categories, category.id) } : {}
+    const page = await articleService.getArticlesPage({ ...filters, limit: HOME_PAGE_SIZE })
+
+    const home: HomeSnapshot = {
+      categorySlug: category ? category.slug : 'all',
+      filters,
+      featured: context.featured,
+      trending: context.trending,
+      page
+    }
+
+    return {
+      path,
+      meta: buildListingMeta(category),
+      data: { path, categories: buildCategoryTree(context.categories), home }
+    }
+  }
+
+  // Loads what ArticlePage loads for an article; null for articles only reachable by id, which
+  // the app redirects as soon as they get a slug
+  private async buildArticlePage(context: ListingContext, article: Article): Promise<PrerenderPage | null> {
+    if (!article.slug) return null
+
+    const [author, related] = await Promise.all([
+      article.authorId ? authorService.getAuthorById(article.authorId) : Promise.resolve(null),
+      articleService.getRelatedArticles(article.id, article.category, RELATED_LIMIT)
+    ])
+    const path = articlePath(article)
+
+    return {
+      path,
+      meta: buildArticleMeta(article, author),
+      data: {
+        path,
+        categories: buildCategoryTree(context.categories),
+        article: { slug: article.slug, article, author, related }
+      }
+    }
+  }
+
+  // Walks every published article page by page, as the sitemap does
+  private async getPublishedArticles(): Promise<Article[]> {
+    const articles: Article[] = []
+    let cursor: string | undefined
+    do {
+      const page = await articleService.getArticlesPage({ limit: SCAN_BATCH_SIZE, cursor })
+      articles.push(...page.articles)
+      cursor = page.nextCursor || undefined
+    } while (cursor)
+    return articles
+  }
+}
+
+export const prerenderService = new PrerenderService()
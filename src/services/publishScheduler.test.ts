@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { Article, ArticleService } from './articleService'
+import { PublishScheduler } from './publishScheduler'
+
+vi.mock('../blink/client', () => ({ blink: { db: {} } }))
+
+function scheduled(id: string, publishedAt: string): Article {
+  return { id, publishedAt, status: 'scheduled' } as Article
+}
+
+// Stands in for the database: hands back whatever is "due" and records what gets published
+function fakeArticles(due: Article[]) {
+  return {
+    getDueScheduledArticles: vi.fn(async () => due),
+    markScheduledPublished: vi.fn(async (id: string) => ({ ...due.find(article => article.id === id)!, status: 'published' }))
+  }
+}
+
+describe('PublishScheduler.runDue', () => {
+  it('publishes only the articles whose time has come by the injected clock', async () => {
+    const articles = fakeArticles([
+      scheduled('early', '2026-03-10T08:00:00.000Z'),
+      scheduled('exact', '2026-03-10T12:00:00.000Z'),
+      scheduled('later', '2026-03-10T12:00:00.001Z')
+    ])
+    const scheduler = new PublishScheduler(articles as unknown as ArticleService, () => new Date('2026-03-10T12:00:00.000Z'))
+
+    const published = await scheduler.runDue()
+
+    expect(published.map(article => article.id)).toEqual(['early', 'exact'])
+    expect(articles.markScheduledPublished).toHaveBeenCalledTimes(2)
+    expect(articles.markScheduledPublished).not.toHaveBeenCalledWith('later')
+  })
+
+  it('picks up an article on the first run after its time passes', async () => {
+    let now = new Date('2026-03-10T11:00:00.000Z')
+    const articles = fakeArticles([scheduled('post', '2026-03-10T11:30:00.000Z')])
+    const scheduler = new PublishScheduler(articles as unknown as ArticleService, () => now)
+
+    expect(await scheduler.runDue()).toEqual([])
+
+    now = new Date('2026-03-10T11:30:00.000Z')
+    expect((await scheduler.runDue()).map(article => article.id)).toEqual(['post'])
+  })
+
+  it('leaves out articles that fail to publish', async () => {
+    const articles = fakeArticles([scheduled('broken', '2026-03-10T08:00:00.000Z')])
+    articles.markScheduledPublished.mockResolvedValueOnce(null as any)
+    const scheduler = new PublishScheduler(articles as unknown as ArticleService, () => new Date('2026-03-10T12:00:00.000Z'))
+
+    expect(await scheduler.runDue()).toEqual([])
+  })
+})
+
+describe('PublishScheduler.start', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('skips a tick while the previous run is still pending', async () => {
+    vi.useFakeTimers()
+    const articles = fakeArticles([scheduled('post', '2026-03-10T08:00:00.000Z')])
+    let finish!: () => void
+    articles.markScheduledPublished.mockImplementationOnce(async (id: string) => {
+      await new Promise<void>(resolve => { finish = resolve })
+      return { id, status: 'published' } as Article
+    })
+    const scheduler = new PublishScheduler(articles as unknown as ArticleService, () => new Date('2026-03-10T12:00:00.000Z'))
+
+    scheduler.start(1000)
+    await vi.advanceTimersByTimeAsync(3000)
+    expect(articles.getDueScheduledArticles).toHaveBeenCalledTimes(1)
+    expect(articles.markScheduledPublished).toHaveBeenCalledTimes(1)
+
+    // Once the slow run finishes, the next tick runs again
+    finish()
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(articles.getDueScheduledArticles).toHaveBeenCalledTimes(2)
+    scheduler.stop()
+  })
+})
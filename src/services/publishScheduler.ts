@@ -0,0 +1,61 @@
+import { systemClock, type Clock } from '../lib/clock'
+import { ArticleService, articleService, type Article } from './articleService'
+
+const DEFAULT_CHECK_INTERVAL_MS = 60 * 1000
+
+export class PublishScheduler {
+  private articles: ArticleService
+  private clock: Clock
+  private timer: ReturnType<typeof setInterval> | null = null
+  // Set while a run is in flight, so a slow run is never overlapped by the next tick
+  private running = false
+
+  constructor(articles: ArticleService = articleService, clock: Clock = systemClock) {
+    this.articles = articles
+    this.clock = clock
+  }
+
+  // Flips every scheduled article whose publish time has arrived and returns the ones it published
+  async runDue(): Promise<Article[]> {
+    const due = await this.articles.getDueScheduledArticles()
+    const published: Article[] = []
+
+    for (const article of due) {
+      if (new Date(article.publishedAt).getTime() > this.clock().getTime()) continue
+
+      const result = await this.articles.markScheduledPublished(article.id)
+      if (result) {
+        published.push(result)
+      }
+    }
+
+    return published
+  }
+
+  start(intervalMs: number = DEFAULT_CHECK_INTERVAL_MS) {
+    if (this.timer) return
+    this.tick()
+    this.timer = setInterval(() => this.tick(), intervalMs)
+  }
+
+  private async tick() {
+    if (this.running) return
+    this.running = true
+    try {
+      await this.runDue()
+    } catch (error) {
+      console.error('Error publishing scheduled articles:', error)
+    } finally {
+      this.running = false
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+export const publishScheduler = new PublishScheduler()
@@ -0,0 +1,235 @@
+import { blink } from '../blink/client'
+import { articleService, type Article } from './articleService'
+
+export type ReactionType = 'like' | 'bookmark'
+
+export interface Reaction {
+  id: string
+  userId: string
+  articleId: string
+  type: ReactionType
+  readAt?: string
+  createdAt: string
+}
+
+export interface ReactionState {
+  liked: boolean
+  bookmarked: boolean
+  likes: number
+  bookmarks: number
+}
+
+export interface ReadingListItem {
+  article: Article
+  savedAt: string
+  readAt?: string
+}
+
+// Anonymous readers keep their reactions in localStorage until they sign in
+interface LocalReactions {
+  likes: string[]
+  bookmarks: { articleId: string, savedAt: string, readAt?: string }[]
+}
+
+const LOCAL_STORAGE_KEY = 'reactions'
+const READING_LIST_LIMIT = 200
+
+class ReactionService {
+  async getReactionState(articleId: string, userId?: string | null): Promise<ReactionState> {
+    try {
+      const [likes, bookmarks] = await Promise.all([
+        blink.db.articleReactions.count({ where: { AND: [{ articleId }, { type: 'like' }] } }),
+        blink.db.articleReactions.count({ where: { AND: [{ articleId }, { type: 'bookmark' }] } })
+      ])
+
+      if (userId) {
+        const [liked, bookmarked] = await Promise.all([
+          blink.db.articleReactions.get(this.reactionId(userId, articleId, 'like')),
+          blink.db.articleReactions.get(this.reactionId(userId, articleId, 'bookmark'))
+        ])
+        return { liked: !!liked, bookmarked: !!bookmarked, likes, bookmarks }
+      }
+
+      // Local reactions are not in the shared counts yet, so the reader's own one is added on top
+      const local = this.readLocal()
+      const liked = local.likes.includes(articleId)
+      const bookmarked = local.bookmarks.some(b => b.articleId === articleId)
+      return {
+        liked,
+        bookmarked,
+        likes: likes + (liked ? 1 : 0),
+        bookmarks: bookmarks + (bookmarked ? 1 : 0)
+      }
+    } catch (error) {
+      console.error('Error fetching reactions:', error)
+      return { liked: false, bookmarked: false, likes: 0, bookmarks: 0 }
+    }
+  }
+
+  // Returns whether the reaction is now on, or null when saving failed
+  async toggleReaction(articleId: string, type: ReactionType, userId?: string | null): Promise<boolean | null> {
+    try {
+      if (!userId) {
+        return this.toggleLocal(articleId, type)
+      }
+
+      const id = this.reactionId(userId, articleId, type)
+      const existing = await blink.db.articleReactions.get(id)
+      if (existing) {
+        await blink.db.articleReactions.delete(id)
+        return false
+      }
+
+      await blink.db.articleReactions.create({
+        id,
+        userId,
+        articleId,
+        type,
+        readAt: null,
+        createdAt: new Date().toISOString()
+      })
+      return true
+    } catch (error) {
+      console.error('Error toggling reaction:', error)
+      return null
+    }
+  }
+
+  async getReadingList(userId?: string | null): Promise<ReadingListItem[]> {
+    try {
+      const saved: Pick<Reaction, 'articleId' | 'createdAt' | 'readAt'>[] = userId
+        ? (await blink.db.articleReactions.list({
+            where: { AND: [{ userId }, { type: 'bookmark' }] },
+            orderBy: { createdAt: 'desc' },
+            limit: READING_LIST_LIMIT
+          })).map((reaction: any) => this.transformReaction(reaction))
+        : this.readLocal().bookmarks
+            .map(b => ({ articleId: b.articleId, createdAt: b.savedAt, readAt: b.readAt }))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+      const articles = await articleService.getArticlesByIds(saved.map(s => s.articleId))
+
+      // Bookmarks of articles that were deleted, unpublished or merged into another since are
+      // skipped; scheduled articles count once their publish time has passed
+      return saved.flatMap(s => {
+        const article = articles.get(s.articleId)
+        if (!article || !articleService.isPublic(article)) return []
+        return [{ article, savedAt: s.createdAt, readAt: s.readAt }]
+      })
+    } catch (error) {
+      console.error('Error fetching reading list:', error)
+      return []
+    }
+  }
+
+  async setRead(articleId: string, read: boolean, userId?: string | null): Promise<boolean> {
+    try {
+      const readAt = read ? new Date().toISOString() : null
+
+      if (!userId) {
+        const local = this.readLocal()
+        const bookmark = local.bookmarks.find(b => b.articleId === articleId)
+        if (!bookmark) return false
+        bookmark.readAt = readAt || undefined
+        this.writeLocal(local)
+        return true
+      }
+
+      const id = this.reactionId(userId, articleId, 'bookmark')
+      if (!await blink.db.articleReactions.get(id)) return false
+      await blink.db.articleReactions.update(id, { readAt })
+      return true
+    } catch (error) {
+      console.error('Error updating read state:', error)
+      return false
+    }
+  }
+
+  // Moves reactions made while signed out onto the account; safe to call on every sign-in
+  async mergeLocalReactions(userId: string): Promise<number> {
+    try {
+      const local = this.readLocal()
+      const rows = [
+        ...local.likes.map(articleId => ({
+          id: this.reactionId(userId, articleId, 'like'),
+          userId,
+          articleId,
+          type: 'like' as const,
+          readAt: null,
+          createdAt: new Date().toISOString()
+        })),
+        ...local.bookmarks.map(b => ({
+          id: this.reactionId(userId, b.articleId, 'bookmark'),
+          userId,
+          articleId: b.articleId,
+          type: 'bookmark' as const,
+          readAt: b.readAt || null,
+          createdAt: b.savedAt
+        }))
+      ]
+
+      // Deterministic ids tell us what the account already has; those rows are left untouched
+      let merged = 0
+      for (const row of rows) {
+        if (await blink.db.articleReactions.get(row.id)) continue
+        await blink.db.articleReactions.create(row)
+        merged++
+      }
+
+      localStorage.removeItem(LOCAL_STORAGE_KEY)
+      return merged
+    } catch (error) {
+      console.error('Error merging local reactions:', error)
+      return 0
+    }
+  }
+
+  private toggleLocal(articleId: string, type: ReactionType): boolean {
+    const local = this.readLocal()
+    let active: boolean
+
+    if (type === 'like') {
+      active = !local.likes.includes(articleId)
+      local.likes = active ? [...local.likes, articleId] : local.likes.filter(id => id !== articleId)
+    } else {
+      active = !local.bookmarks.some(b => b.articleId === articleId)
+      local.bookmarks = active
+        ? [...local.bookmarks, { articleId, savedAt: new Date().toISOString() }]
+        : local.bookmarks.filter(b => b.articleId !== articleId)
+    }
+
+    this.writeLocal(local)
+    return active
+  }
+
+  private readLocal(): LocalReactions {
+    try {
+      const stored = JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) || '{}')
+      return { likes: stored.likes || [], bookmarks: stored.bookmarks || [] }
+    } catch {
+      return { likes: [], bookmarks: [] }
+    }
+  }
+
+  private writeLocal(reactions: LocalReactions) {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(reactions))
+  }
+
+  // One row per user, article and reaction type
+  private reactionId(userId: string, articleId: string, type: ReactionType): string {
+    return `${type}_${userId}_${articleId}`
+  }
+
+  private transformReaction(dbReaction: any): Reaction {
+    return {
+      id: dbReaction.id,
+      userId: dbReaction.userId || dbReaction.user_id,
+      articleId: dbReaction.articleId || dbReaction.article_id,
+      type: dbReaction.type,
+      readAt: dbReaction.readAt || dbReaction.read_at || undefined,
+      createdAt: dbReaction.createdAt || dbReaction.created_at
+    }
+  }
+}
+
+export const reactionService = new ReactionService()
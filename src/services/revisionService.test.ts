@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { blink } from '../blink/client'
+import type { Article } from './articleService'
+import { REVISIONED_FIELDS, revisionService } from './revisionService'
+
+vi.mock('../blink/client', () => ({
+  blink: {
+    db: {
+      articleRevisions: { list: vi.fn(), create: vi.fn() }
+    }
+  }
+}))
+
+const article = {
+  id: 'a1',
+  title: 'Written before revisions',
+  excerpt: '',
+  content: '<p>Original</p>',
+  author: 'Ada',
+  userId: 'user_1',
+  status: 'published',
+  tags: [],
+  createdAt: '2025-06-01T08:00:00.000Z',
+  updatedAt: '2025-07-01T08:00:00.000Z'
+} as unknown as Article
+
+describe('revisionService.recordBaseline', () => {
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('snapshots an article that has no revisions yet, dated when it was last saved', async () => {
+    vi.mocked(blink.db.articleRevisions.list).mockResolvedValue([])
+
+    await revisionService.recordBaseline(article)
+
+    const created = vi.mocked(blink.db.articleRevisions.create).mock.calls[0][0]
+    expect(created).toMatchObject({
+      articleId: 'a1',
+      editorId: 'user_1',
+      createdAt: '2025-07-01T08:00:00.000Z',
+      changedFields: JSON.stringify(REVISIONED_FIELDS)
+    })
+    expect(JSON.parse(created.snapshot)).toMatchObject({ title: 'Written before revisions', excerpt: '' })
+  })
+
+  it('leaves articles that already have a history alone', async () => {
+    vi.mocked(blink.db.articleRevisions.list).mockResolvedValue([{ id: 'revision_1' }])
+
+    await revisionService.recordBaseline(article)
+
+    expect(blink.db.articleRevisions.create).not.toHaveBeenCalled()
+  })
+})
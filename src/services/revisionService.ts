@@ -0,0 +1,158 @@
+import { blink } from '../blink/client'
+import type { Article } from './articleService'
+
+export const REVISIONED_FIELDS = [
+  'title',
+  'excerpt',
+  'content',
+  'contentFormat',
+  'contentMarkdown',
+  'author',
+  'authorId',
+  'category',
+  'categoryName',
+  'categoryColor',
+  'featuredImage',
+  'readTime',
+  'status',
+  'publishedAt',
+  'isAggregated',
+  'sourceName',
+  'sourceUrl',
+  'tags',
+  'seoTitle',
+  'seoDescription',
+  'ogImage',
+  'noindex'
+] as const
+
+export type RevisionedField = typeof REVISIONED_FIELDS[number]
+
+export type ArticleSnapshot = Pick<Article, RevisionedField>
+
+export interface RevisionEditor {
+  id: string
+  name: string
+}
+
+export interface ArticleRevision {
+  id: string
+  articleId: string
+  snapshot: ArticleSnapshot
+  changedFields: RevisionedField[]
+  editorId: string
+  editorName: string
+  note: string
+  createdAt: string
+}
+
+class RevisionService {
+  async getRevisions(articleId: string): Promise<ArticleRevision[]> {
+    try {
+      const revisions = await blink.db.articleRevisions.list({
+        where: { articleId },
+        orderBy: { createdAt: 'desc' }
+      })
+
+      return revisions.map((revision: any) => this.transformRevision(revision))
+    } catch (error) {
+      console.error('Error fetching revisions:', error)
+      return []
+    }
+  }
+
+  async recordRevision(article: Article, editor?: RevisionEditor, note: string = ''): Promise<ArticleRevision | null> {
+    try {
+      const snapshot = this.takeSnapshot(article)
+      const [previous] = await blink.db.articleRevisions.list({
+        where: { articleId: article.id },
+        orderBy: { createdAt: 'desc' },
+        limit: 1
+      })
+      const previousSnapshot = previous ? this.parseSnapshot(previous.snapshot) : null
+      const changedFields = REVISIONED_FIELDS.filter(field =>
+        !previousSnapshot || JSON.stringify(previousSnapshot[field]) !== JSON.stringify(snapshot[field])
+      )
+
+      const revision = await blink.db.articleRevisions.create({
+        id: this.newRevisionId(),
+        articleId: article.id,
+        snapshot: JSON.stringify(snapshot),
+        changedFields: JSON.stringify(changedFields),
+        editorId: editor?.id || article.userId || 'user',
+        editorName: editor?.name || article.author || '',
+        note,
+        createdAt: new Date().toISOString()
+      })
+
+      return this.transformRevision(revision)
+    } catch (error) {
+      console.error('Error recording revision:', error)
+      return null
+    }
+  }
+
+  // Articles saved before revisions were recorded have nothing to diff or restore against, so
+  // their current state is kept as a first revision, dated when it was last saved
+  async recordBaseline(article: Article): Promise<void> {
+    try {
+      const [existing] = await blink.db.articleRevisions.list({
+        where: { articleId: article.id },
+        limit: 1
+      })
+      if (existing) return
+
+      await blink.db.articleRevisions.create({
+        id: this.newRevisionId(),
+        articleId: article.id,
+        snapshot: JSON.stringify(this.takeSnapshot(article)),
+        changedFields: JSON.stringify(REVISIONED_FIELDS),
+        editorId: article.userId || 'user',
+        editorName: article.author || '',
+        note: 'Before revision history',
+        createdAt: article.updatedAt || article.createdAt || new Date().toISOString()
+      })
+    } catch (error) {
+      console.error('Error recording baseline revision:', error)
+    }
+  }
+
+  takeSnapshot(article: Article): ArticleSnapshot {
+    const snapshot = {} as Record<RevisionedField, unknown>
+    for (const field of REVISIONED_FIELDS) {
+      snapshot[field] = article[field]
+    }
+    return snapshot as ArticleSnapshot
+  }
+
+  private newRevisionId(): string {
+    return `revision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  private transformRevision(dbRevision: any): ArticleRevision {
+    return {
+      id: dbRevision.id,
+      articleId: dbRevision.articleId || dbRevision.article_id,
+      snapshot: this.parseSnapshot(dbRevision.snapshot),
+      changedFields: this.parseJson(dbRevision.changedFields || dbRevision.changed_fields, []),
+      editorId: dbRevision.editorId || dbRevision.editor_id,
+      editorName: dbRevision.editorName || dbRevision.editor_name || '',
+      note: dbRevision.note || '',
+      createdAt: dbRevision.createdAt || dbRevision.created_at
+    }
+  }
+
+  private parseSnapshot(snapshotString: string): ArticleSnapshot {
+    return this.parseJson(snapshotString, {} as ArticleSnapshot)
+  }
+
+  private parseJson<T>(value: string, fallback: T): T {
+    try {
+      return value ? JSON.parse(value) : fallback
+    } catch {
+      return fallback
+    }
+  }
+}
+
+export const revisionService = new RevisionService()
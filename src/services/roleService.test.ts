@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { blink } from '../blink/client'
+import { roleService } from './roleService'
+
+vi.mock('../blink/client', () => ({
+  blink: {
+    db: {
+      userRoles: { get: vi.fn(), count: vi.fn(), create: vi.fn(), update: vi.fn() }
+    }
+  }
+}))
+
+const admin = { id: 'user_admin', name: 'Admin', role: 'admin' as const }
+
+describe('roleService admin bootstrap', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.clearAllMocks()
+  })
+
+  it('registers the first account on a fresh site as a reader', async () => {
+    vi.mocked(blink.db.userRoles.get).mockResolvedValue(null)
+    vi.mocked(blink.db.userRoles.count).mockResolvedValue(0)
+
+    const actor = await roleService.resolveActor({ id: 'user_first' })
+
+    expect(actor.role).toBe('reader')
+    expect(blink.db.userRoles.create).toHaveBeenCalledWith(expect.objectContaining({ role: 'reader' }))
+  })
+
+  it('registers and promotes the configured admins', async () => {
+    vi.stubEnv('VITE_ADMIN_USER_IDS', 'user_other, user_admin')
+    vi.mocked(blink.db.userRoles.get).mockResolvedValueOnce(null)
+
+    expect((await roleService.resolveActor({ id: 'user_admin' })).role).toBe('admin')
+    expect(blink.db.userRoles.create).toHaveBeenCalledWith(expect.objectContaining({ role: 'admin' }))
+
+    vi.mocked(blink.db.userRoles.get).mockResolvedValueOnce({ id: 'user_other', role: 'reader' })
+    expect((await roleService.resolveActor({ id: 'user_other' })).role).toBe('admin')
+    expect(blink.db.userRoles.update).toHaveBeenCalledWith('user_other', expect.objectContaining({ role: 'admin' }))
+  })
+
+  it('will not demote a configured admin', async () => {
+    vi.stubEnv('VITE_ADMIN_USER_IDS', 'user_admin,user_other')
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(await roleService.setRole('user_other', 'editor', admin)).toBe(false)
+    expect(blink.db.userRoles.update).not.toHaveBeenCalled()
+    vi.mocked(console.error).mockRestore()
+  })
+})
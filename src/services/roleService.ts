@@ -0,0 +1,108 @@
+import { blink } from '../blink/client'
+import { ROLES, type Actor, type Role } from '../lib/permissions'
+
+export interface UserRole {
+  userId: string
+  email: string
+  displayName: string
+  role: Role
+  createdAt: string
+  updatedAt: string
+}
+
+const DEFAULT_ROLE: Role = 'reader'
+
+// Admins are named in configuration, e.g. VITE_ADMIN_USER_IDS=user_abc,user_def, rather than
+// being whoever happens to sign in first on a fresh site
+export function configuredAdminIds(): string[] {
+  const configured = import.meta.env?.VITE_ADMIN_USER_IDS as string | undefined
+  return (configured || '').split(',').map(id => id.trim()).filter(Boolean)
+}
+
+function actorName(user: { id: string, email?: string, displayName?: string }): string {
+  return user.displayName || user.email || user.id
+}
+
+class RoleService {
+  // Looks up the signed-in user's role, registering them as a reader on first sign-in.
+  // Configured admins are registered, or promoted, as admins so someone can hand out roles.
+  async resolveActor(user: { id: string, email?: string, displayName?: string }): Promise<Actor> {
+    const name = actorName(user)
+    const configuredAdmin = configuredAdminIds().includes(user.id)
+    try {
+      const existing = await blink.db.userRoles.get(user.id)
+      if (existing) {
+        const { role } = this.transformUserRole(existing)
+        if (configuredAdmin && role !== 'admin') {
+          await blink.db.userRoles.update(user.id, { role: 'admin', updatedAt: new Date().toISOString() })
+          return { id: user.id, name, role: 'admin' }
+        }
+        return { id: user.id, name, role }
+      }
+
+      const role: Role = configuredAdmin ? 'admin' : DEFAULT_ROLE
+      const now = new Date().toISOString()
+      await blink.db.userRoles.create({
+        id: user.id,
+        email: user.email || '',
+        displayName: user.displayName || '',
+        role,
+        createdAt: now,
+        updatedAt: now
+      })
+      return { id: user.id, name, role }
+    } catch (error) {
+      console.error('Error resolving user role:', error)
+      return { id: user.id, name, role: DEFAULT_ROLE }
+    }
+  }
+
+  async getUsers(): Promise<UserRole[]> {
+    try {
+      const users = await blink.db.userRoles.list({ orderBy: { createdAt: 'asc' } })
+      return users.map((user: any) => this.transformUserRole(user))
+    } catch (error) {
+      console.error('Error fetching user roles:', error)
+      return []
+    }
+  }
+
+  async setRole(userId: string, role: Role, actor: Actor): Promise<boolean> {
+    try {
+      if (actor.role !== 'admin') {
+        throw new Error('Only admins can change roles')
+      }
+      // They would be promoted again on their next sign-in
+      if (role !== 'admin' && configuredAdminIds().includes(userId)) {
+        throw new Error('Admins named in VITE_ADMIN_USER_IDS cannot be demoted here')
+      }
+      // Keeps at least one admin around, otherwise nobody could manage roles any more
+      if (userId === actor.id && role !== 'admin') {
+        const admins = await blink.db.userRoles.count({ where: { role: 'admin' } })
+        if (admins <= 1) {
+          throw new Error('The last admin cannot be demoted')
+        }
+      }
+
+      await blink.db.userRoles.update(userId, { role, updatedAt: new Date().toISOString() })
+      return true
+    } catch (error) {
+      console.error('Error updating user role:', error)
+      return false
+    }
+  }
+
+  private transformUserRole(dbUserRole: any): UserRole {
+    const role = ROLES.includes(dbUserRole.role) ? dbUserRole.role : DEFAULT_ROLE
+    return {
+      userId: dbUserRole.id,
+      email: dbUserRole.email || '',
+      displayName: dbUserRole.displayName || dbUserRole.display_name || '',
+      role,
+      createdAt: dbUserRole.createdAt || dbUserRole.created_at,
+      updatedAt: dbUserRole.updatedAt || dbUserRole.updated_at
+    }
+  }
+}
+
+export const roleService = new RoleService()
@@ -0,0 +1,112 @@
+import { SearchIndex, buildSnippet, highlightText, htmlToText, type HighlightSegment } from '../lib/searchIndex'
+import { articleService, type Article } from './articleService'
+
+export interface SearchFilters {
+  category?: string | string[]
+  isAggregated?: boolean
+  limit?: number
+  offset?: number
+}
+
+export interface SearchResult {
+  article: Article
+  score: number
+  titleSegments: HighlightSegment[]
+  snippet: HighlightSegment[]
+}
+
+export interface SearchResultPage {
+  results: SearchResult[]
+  // Every article matching the query, not just this page
+  total: number
+}
+
+// The index is built in the browser from published articles and rebuilt once it is this old
+const INDEX_TTL_MS = 5 * 60 * 1000
+const INDEX_ARTICLE_LIMIT = 1000
+
+class SearchService {
+  private index = new SearchIndex()
+  private articles = new Map<string, Article>()
+  private bodies = new Map<string, string>()
+  private builtAt = 0
+  private building: Promise<void> | null = null
+
+  async search(query: string, filters: SearchFilters = {}): Promise<SearchResultPage> {
+    try {
+      await this.ensureIndex()
+
+      const { category, isAggregated, limit = 50, offset = 0 } = filters
+      const { hits, total } = this.index.search(query, {
+        limit,
+        offset,
+        filter: (id) => {
+          const article = this.articles.get(id)
+          if (!article) return false
+          if (Array.isArray(category) && !category.includes(article.category)) return false
+          if (category && typeof category === 'string' && category !== 'all' && article.category !== category) return false
+          if (typeof isAggregated === 'boolean' && article.isAggregated !== isAggregated) return false
+          return true
+        }
+      })
+
+      const results = hits.map(hit => {
+        const article = this.articles.get(hit.id)!
+        const bodySnippet = buildSnippet(this.bodies.get(hit.id) || '', hit.matchedTerms)
+        return {
+          article,
+          score: hit.score,
+          titleSegments: highlightText(article.title, hit.matchedTerms),
+          snippet: bodySnippet.length > 0 ? bodySnippet : buildSnippet(article.excerpt || '', hit.matchedTerms)
+        }
+      })
+      return { results, total }
+    } catch (error) {
+      console.error('Error searching articles:', error)
+      return { results: [], total: 0 }
+    }
+  }
+
+  // Forces the next search to rebuild the index, e.g. after articles were published or edited
+  invalidate() {
+    this.builtAt = 0
+  }
+
+  private async ensureIndex() {
+    if (Date.now() - this.builtAt < INDEX_TTL_MS) return
+    if (!this.building) {
+      this.building = this.buildIndex().finally(() => {
+        this.building = null
+      })
+    }
+    await this.building
+  }
+
+  private async buildIndex() {
+    const articles = await articleService.getArticles({ limit: INDEX_ARTICLE_LIMIT })
+    const index = new SearchIndex()
+    const bodies = new Map<string, string>()
+
+    for (const article of articles) {
+      const body = htmlToText(article.content || '')
+      bodies.set(article.id, body)
+      index.add({
+        id: article.id,
+        fields: {
+          title: article.title,
+          tags: article.tags.join(' '),
+          author: article.author,
+          excerpt: article.excerpt,
+          body
+        }
+      })
+    }
+
+    this.index = index
+    this.bodies = bodies
+    this.articles = new Map(articles.map(article => [article.id, article]))
+    this.builtAt = Date.now()
+  }
+}
+
+export const searchService = new SearchService()
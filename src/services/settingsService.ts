@@ -0,0 +1,31 @@
+import { blink } from '../blink/client'
+
+// Site-wide settings editors can change from the dashboard, stored as one JSON row per key
+class SettingsService {
+  async getSetting<T>(key: string, fallback: T): Promise<T> {
+    try {
+      const setting = await blink.db.siteSettings.get(key)
+      if (!setting?.value) return fallback
+      return JSON.parse(setting.value) as T
+    } catch (error) {
+      console.error('Error fetching setting:', error)
+      return fallback
+    }
+  }
+
+  async saveSetting<T>(key: string, value: T): Promise<boolean> {
+    try {
+      await blink.db.siteSettings.upsert({
+        id: key,
+        value: JSON.stringify(value),
+        updatedAt: new Date().toISOString()
+      })
+      return true
+    } catch (error) {
+      console.error('Error saving setting:', error)
+      return false
+    }
+  }
+}
+
+export const settingsService = new SettingsService()
@@ -0,0 +1,130 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { articleService, type Article, type Category } from './articleService'
+import { authorService, type Author } from './authorService'
+import { categoryService } from './categoryService'
+import { isIndexable, sitemapService } from './sitemapService'
+
+vi.mock('../blink/client', () => ({
+  blink: { db: {} }
+}))
+
+function article(overrides: Partial<Article>): Article {
+  return {
+    id: 'a1',
+    slug: 'hello',
+    category: 'cat_react',
+    authorId: 'author_1',
+    isAggregated: false,
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    ...overrides
+  } as Article
+}
+
+function category(id: string, slug: string, parentId: string | null, updatedAt: string): Category {
+  return { id, slug, name: slug, parentId, updatedAt } as Category
+}
+
+function serveArticles(articles: Article[]) {
+  vi.spyOn(articleService, 'getArticlesPage').mockResolvedValue({ articles, total: articles.length, nextCursor: null })
+}
+
+function locs(xml: string): string[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0)
+  return Array.from(doc.getElementsByTagName('loc'), loc => loc.textContent || '')
+}
+
+function lastmods(xml: string): string[] {
+  return Array.from(new DOMParser().parseFromString(xml, 'application/xml').getElementsByTagName('lastmod'), el => el.textContent || '')
+}
+
+beforeEach(() => {
+  vi.stubEnv('VITE_SITE_URL', 'https://blog.example.com')
+  vi.spyOn(categoryService, 'getCategories').mockResolvedValue([
+    category('cat_web', 'web', null, '2026-01-01T00:00:00.000Z'),
+    category('cat_react', 'react', 'cat_web', '2026-01-01T00:00:00.000Z'),
+    category('cat_empty', 'empty', null, '2026-05-01T00:00:00.000Z')
+  ])
+  vi.spyOn(authorService, 'getAuthors').mockResolvedValue([
+    { id: 'author_1', slug: 'ada', updatedAt: '2026-02-01T00:00:00.000Z' } as Author,
+    { id: 'author_2', slug: 'nobody', updatedAt: '2026-02-01T00:00:00.000Z' } as Author
+  ])
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+describe('isIndexable', () => {
+  it('excludes noindex articles and aggregated copies of an original', () => {
+    expect(isIndexable(article({}))).toBe(true)
+    expect(isIndexable(article({ noindex: true }))).toBe(false)
+    expect(isIndexable(article({ isAggregated: true, sourceUrl: 'https://news.example.org/story' }))).toBe(false)
+    // Without a source there is no other canonical page
+    expect(isIndexable(article({ isAggregated: true }))).toBe(true)
+  })
+})
+
+describe('sitemapService.generateSitemaps', () => {
+  it('lists the home page and indexable articles, and robots.txt points at every sitemap', async () => {
+    serveArticles([
+      article({ id: 'a1', slug: 'kept', updatedAt: '2026-03-02T00:00:00.000Z' }),
+      article({ id: 'a2', slug: 'hidden', noindex: true, updatedAt: '2026-03-09T00:00:00.000Z' }),
+      article({ id: 'a3', slug: 'copied', isAggregated: true, sourceUrl: 'https://news.example.org/x' })
+    ])
+
+    const files = await sitemapService.generateSitemaps()
+    const byPath = Object.fromEntries(files.map(file => [file.path, file]))
+
+    expect(files.map(file => file.path)).toEqual(['/sitemap.xml', '/sitemap-categories.xml', '/sitemap-authors.xml', '/robots.txt'])
+    expect(locs(byPath['/sitemap.xml'].body)).toEqual(['https://blog.example.com/', 'https://blog.example.com/article/kept'])
+    // The home page changes whenever its newest indexable article does
+    expect(lastmods(byPath['/sitemap.xml'].body)[0]).toBe('2026-03-02T00:00:00.000Z')
+    expect(byPath['/sitemap.xml'].contentType).toBe('application/xml; charset=utf-8')
+
+    expect(byPath['/robots.txt'].body).toContain('Disallow: /admin\n')
+    expect(byPath['/robots.txt'].body).toContain('Sitemap: https://blog.example.com/sitemap-categories.xml\n')
+  })
+
+  it('dates categories by their newest article, including subcategories, and authors by theirs', async () => {
+    serveArticles([
+      article({ id: 'a1', category: 'cat_react', updatedAt: '2026-03-05T00:00:00.000Z' }),
+      article({ id: 'a2', category: 'cat_web', authorId: 'author_1', updatedAt: '2026-03-01T00:00:00.000Z' })
+    ])
+
+    const files = await sitemapService.generateSitemaps()
+    const categories = files.find(file => file.path === '/sitemap-categories.xml')!.body
+    const authors = files.find(file => file.path === '/sitemap-authors.xml')!.body
+
+    // Empty categories and authors without articles are left out
+    expect(locs(categories)).toEqual(['https://blog.example.com/category/web', 'https://blog.example.com/category/react'])
+    expect(lastmods(categories)).toEqual(['2026-03-05T00:00:00.000Z', '2026-03-05T00:00:00.000Z'])
+    expect(locs(authors)).toEqual(['https://blog.example.com/author/ada'])
+    expect(lastmods(authors)).toEqual(['2026-03-05T00:00:00.000Z'])
+  })
+
+  it('splits more than 50,000 URLs into numbered sitemaps behind an index', async () => {
+    // With the home page this is 50,001 URLs
+    serveArticles(Array.from({ length: 50000 }, (_, i) => article({
+      id: `a${i}`,
+      slug: `post-${i}`,
+      updatedAt: i === 0 ? '2026-04-01T00:00:00.000Z' : '2026-03-01T00:00:00.000Z'
+    })))
+
+    const files = await sitemapService.generateSitemaps()
+    const byPath = Object.fromEntries(files.map(file => [file.path, file.body]))
+
+    expect(files.map(file => file.path).slice(0, 3)).toEqual(['/sitemap-articles-1.xml', '/sitemap-articles-2.xml', '/sitemap.xml'])
+    expect(byPath['/sitemap.xml']).toContain('<sitemapindex')
+    expect(locs(byPath['/sitemap.xml'])).toEqual([
+      'https://blog.example.com/sitemap-articles-1.xml',
+      'https://blog.example.com/sitemap-articles-2.xml'
+    ])
+    // Each sitemap is dated by the newest URL it holds
+    expect(lastmods(byPath['/sitemap.xml'])).toEqual(['2026-04-01T00:00:00.000Z', '2026-03-01T00:00:00.000Z'])
+    expect(locs(byPath['/sitemap-articles-2.xml'])).toEqual(['https://blog.example.com/article/post-49999'])
+    expect(byPath['/sitemap-articles-1.xml'].match(/<url>/g)).toHaveLength(50000)
+  })
+})
@@ -0,0 +1,116 @@
+import { articlePath, categoryPath } from '../lib/articleUrl'
+import { absoluteUrl } from '../lib/site'
+import {
+  chunkUrls,
+  latestDate,
+  renderRobotsTxt,
+  renderSitemapIndex,
+  renderUrlset,
+  type SitemapUrl
+} from '../lib/sitemap'
+import { articleService, type Article } from './articleService'
+import { authorService } from './authorService'
+import { categoryService, getDescendantIds } from './categoryService'
+
+export interface SitemapFile {
+  path: string
+  contentType: string
+  body: string
+}
+
+const XML_CONTENT_TYPE = 'application/xml; charset=utf-8'
+const SCAN_BATCH_SIZE = 500
+
+// Pages that are per-user or behind a login
+const DISALLOWED_PATHS = ['/admin', '/reading-list']
+
+// Only articles search engines should index from us: published (the listing default), not
+// marked noindex, and not aggregated copies whose canonical URL is the original publisher's
+export function isIndexable(article: Article): boolean {
+  return !article.noindex && !(article.isAggregated && article.sourceUrl)
+}
+
+class SitemapService {
+  // sitemap.xml lists the home page and every indexable article. Past SITEMAP_URL_LIMIT it
+  // becomes an index of sitemap-articles-N.xml files instead. Categories and authors get their
+  // own sitemaps; robots.txt points at all three.
+  async generateSitemaps(): Promise<SitemapFile[]> {
+    const [articles, categories, authors] = await Promise.all([
+      this.getIndexableArticles(),
+      categoryService.getCategories(),
+      authorService.getAuthors()
+    ])
+
+    const pageUrls: SitemapUrl[] = [
+      { loc: absoluteUrl('/'), lastmod: latestDate(articles.map(article => article.updatedAt)) },
+      ...articles.map(article => ({ loc: absoluteUrl(articlePath(article)), lastmod: article.updatedAt }))
+    ]
+
+    // Categories list their subcategories' articles too, so those count towards lastmod
+    const categoryUrls: SitemapUrl[] = categories.flatMap(category => {
+      const ids = new Set(getDescendantIds(categories, category.id))
+      const listed = articles.filter(article => ids.has(article.category))
+      if (listed.length === 0) return []
+      return [{
+        loc: absoluteUrl(categoryPath(category)),
+        lastmod: latestDate([category.updatedAt, ...listed.map(article => article.updatedAt)])
+      }]
+    })
+
+    const authorUrls: SitemapUrl[] = authors.flatMap(author => {
+      const written = articles.filter(article => article.authorId === author.id)
+      if (written.length === 0) return []
+      return [{
+        loc: absoluteUrl(`/author/${author.slug}`),
+        lastmod: latestDate([author.updatedAt, ...written.map(article => article.updatedAt)])
+      }]
+    })
+
+    const files: SitemapFile[] = []
+    const pageChunks = chunkUrls(pageUrls)
+    if (pageChunks.length > 1) {
+      const parts = pageChunks.map((urls, index) => ({
+        path: `/sitemap-articles-${index + 1}.xml`,
+        urls
+      }))
+      parts.forEach(part => files.push(this.xmlFile(part.path, renderUrlset(part.urls))))
+      files.push(this.xmlFile('/sitemap.xml', renderSitemapIndex(parts.map(part => ({
+        loc: absoluteUrl(part.path),
+        lastmod: latestDate(part.urls.map(url => url.lastmod))
+      })))))
+    } else {
+      files.push(this.xmlFile('/sitemap.xml', renderUrlset(pageUrls)))
+    }
+
+    files.push(this.xmlFile('/sitemap-categories.xml', renderUrlset(categoryUrls)))
+    files.push(this.xmlFile('/sitemap-authors.xml', renderUrlset(authorUrls)))
+    files.push({
+      path: '/robots.txt',
+      contentType: 'text/plain; charset=utf-8',
+      body: renderRobotsTxt({
+        disallow: DISALLOWED_PATHS,
+        sitemaps: ['/sitemap.xml', '/sitemap-categories.xml', '/sitemap-authors.xml'].map(absoluteUrl)
+      })
+    })
+
+    return files
+  }
+
+  // Walks every published article page by page; newest first, as the listings order them
+  private async getIndexableArticles(): Promise<Article[]> {
+    const articles: Article[] = []
+    let cursor: string | undefined
+    do {
+      const page = await articleService.getArticlesPage({ limit: SCAN_BATCH_SIZE, cursor })
+      articles.push(...page.articles.filter(isIndexable))
+      cursor = page.nextCursor || undefined
+    } while (cursor)
+    return articles
+  }
+
+  private xmlFile(path: string, body: string): SitemapFile {
+    return { path, contentType: XML_CONTENT_TYPE, body }
+  }
+}
+
+export const sitemapService = new SitemapService()
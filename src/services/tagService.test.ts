@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { blink } from '../blink/client'
+import { articleService } from './articleService'
+import { tagService } from './tagService'
+
+vi.mock('../blink/client', () => ({
+  blink: {
+    db: {
+      tags: { list: vi.fn(), update: vi.fn() },
+      articles: { count: vi.fn() }
+    }
+  }
+}))
+
+describe('tagService.refreshUsage', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.clearAllMocks()
+  })
+
+  it('counts only live articles that are not duplicates', async () => {
+    vi.mocked(blink.db.tags.list).mockResolvedValue([{ id: 'tag_1', slug: 'react', name: 'React', usageCount: 5 }])
+    vi.mocked(blink.db.articles.count).mockResolvedValue(2)
+    const published = { status: 'published' }
+    vi.spyOn(articleService, 'publishedCondition').mockReturnValue(published as any)
+
+    await tagService.refreshUsage(['react', 'react'])
+
+    expect(blink.db.articles.count).toHaveBeenCalledTimes(1)
+    expect(blink.db.articles.count).toHaveBeenCalledWith({
+      where: {
+        AND: [
+          { tagSlugs: { contains: '|react|' } },
+          { duplicateOf: { is: null } },
+          published
+        ]
+      }
+    })
+    expect(blink.db.tags.update).toHaveBeenCalledWith('tag_1', { usageCount: 2 })
+  })
+})
@@ -0,0 +1,342 @@
+import { blink } from '../blink/client'
+import { slugify } from '../lib/slugify'
+import { articleService } from './articleService'
+
+export interface Tag {
+  id: string
+  slug: string
+  name: string
+  // Other slugs that resolve to this tag, e.g. "js" for "javascript" or a merged tag's old slug
+  aliases: string[]
+  // Live articles only, as readers see them; drafts and archived articles are not counted
+  usageCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface TagMigrationResult {
+  articlesUpdated: number
+  tagsCreated: number
+}
+
+// Articles also keep their tag slugs as "|go|react|" so a `contains` filter matches whole tags only
+export function tagSlugsColumn(slugs: string[]): string {
+  return slugs.length > 0 ? `|${slugs.join('|')}|` : ''
+}
+
+export function tagSlugCondition(slug: string) {
+  return { tagSlugs: { contains: `|${slug}|` } }
+}
+
+export function parseTagSlugs(column: string | null | undefined): string[] {
+  return (column || '').split('|').filter(Boolean)
+}
+
+export function tagMatchesSlug(tag: Tag, slug: string): boolean {
+  return tag.slug === slug || tag.aliases.includes(slug)
+}
+
+// Autocomplete ranking: prefix matches on the name, slug or an alias first, then
+// anything containing the query, with the most used tags first within each group
+export function matchTags(tags: Tag[], query: string, limit: number = 8): Tag[] {
+  const wanted = slugify(query)
+  if (!wanted) return []
+
+  const rank = (tag: Tag) => {
+    const keys = [tag.slug, slugify(tag.name), ...tag.aliases]
+    if (keys.some(key => key.startsWith(wanted))) return 0
+    if (keys.some(key => key.includes(wanted))) return 1
+    return -1
+  }
+
+  return tags
+    .map(tag => ({ tag, rank: rank(tag) }))
+    .filter(match => match.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || b.tag.usageCount - a.tag.usageCount || a.tag.name.localeCompare(b.tag.name))
+    .slice(0, limit)
+    .map(match => match.tag)
+}
+
+const ARTICLE_SCAN_LIMIT = 5000
+
+class TagService {
+  async getTags(): Promise<Tag[]> {
+    try {
+      const tags = await blink.db.tags.list({ orderBy: { name: 'asc' } })
+      return tags.map((tag: any) => this.transformTag(tag))
+    } catch (error) {
+      console.error('Error fetching tags:', error)
+      return []
+    }
+  }
+
+  async getTagById(id: string): Promise<Tag | null> {
+    try {
+      const tag = await blink.db.tags.get(id)
+      return tag ? this.transformTag(tag) : null
+    } catch (error) {
+      console.error('Error fetching tag:', error)
+      return null
+    }
+  }
+
+  // Aliases resolve to their tag, so callers should compare the result's slug to redirect
+  async getTagBySlug(slug: string): Promise<Tag | null> {
+    const tags = await this.getTags()
+    return tags.find(tag => tagMatchesSlug(tag, slug))
+      || tags.find(tag => slugify(tag.name) === slug)
+      || null
+  }
+
+  // Maps free-text tag names to tags, creating the ones that don't exist yet. Names that
+  // resolve to the same tag (aliases, case or spelling variants) collapse into one.
+  async resolveTags(names: string[]): Promise<Tag[]> {
+    const tags = await this.getTags()
+    const resolved: Tag[] = []
+
+    for (const name of names) {
+      const slug = slugify(name)
+      if (!slug) continue
+
+      let tag = tags.find(candidate => tagMatchesSlug(candidate, slug))
+      if (!tag) {
+        tag = await this.insertTag(name.trim(), slug)
+        tags.push(tag)
+      }
+      if (!resolved.some(existing => existing.id === tag!.id)) {
+        resolved.push(tag)
+      }
+    }
+
+    return resolved
+  }
+
+  async createTag(name: string): Promise<Tag | null> {
+    try {
+      const slug = slugify(name)
+      if (!slug) {
+        throw new Error('Tags need a name')
+      }
+      const existing = await this.getTagBySlug(slug)
+      if (existing) {
+        throw new Error(`Tag ${slug} already exists as ${existing.name}`)
+      }
+      return await this.insertTag(name.trim(), slug)
+    } catch (error) {
+      console.error('Error creating tag:', error)
+      return null
+    }
+  }
+
+  // Renaming keeps the old slug as an alias so existing /tag links keep working
+  async updateTag(id: string, tagData: Partial<Pick<Tag, 'name' | 'slug' | 'aliases'>>): Promise<Tag | null> {
+    try {
+      const tags = await this.getTags()
+      const current = tags.find(tag => tag.id === id)
+      if (!current) {
+        throw new Error(`Tag ${id} not found`)
+      }
+      const others = tags.filter(tag => tag.id !== id)
+
+      const name = tagData.name?.trim() || current.name
+      const slug = tagData.slug ? slugify(tagData.slug) : current.slug
+      if (!slug) {
+        throw new Error('Tags need a slug')
+      }
+
+      let aliases = (tagData.aliases || current.aliases).map(alias => slugify(alias)).filter(Boolean)
+      if (slug !== current.slug) aliases.push(current.slug)
+      aliases = Array.from(new Set(aliases)).filter(alias => alias !== slug)
+
+      const taken = [slug, ...aliases].find(key => others.some(tag => tagMatchesSlug(tag, key)))
+      if (taken) {
+        throw new Error(`Slug ${taken} already belongs to another tag`)
+      }
+
+      await blink.db.tags.update(id, {
+        name,
+        slug,
+        aliases: JSON.stringify(aliases),
+        updatedAt: new Date().toISOString()
+      })
+
+      const updated = { ...current, name, slug, aliases }
+      if (slug !== current.slug || name !== current.name) {
+        await this.rewriteArticles(current.slug, updated, [...others, updated])
+      }
+
+      return this.getTagById(id)
+    } catch (error) {
+      console.error('Error updating tag:', error)
+      return null
+    }
+  }
+
+  // Folds `sourceId` into `targetId`: articles are retagged and the source's slug and
+  // aliases become aliases of the target, so old links and future entries land on it
+  async mergeTags(sourceId: string, targetId: string): Promise<Tag | null> {
+    try {
+      if (sourceId === targetId) {
+        throw new Error('A tag cannot be merged into itself')
+      }
+
+      const tags = await this.getTags()
+      const source = tags.find(tag => tag.id === sourceId)
+      const target = tags.find(tag => tag.id === targetId)
+      if (!source || !target) {
+        throw new Error(`Tag ${source ? targetId : sourceId} not found`)
+      }
+
+      const aliases = Array.from(new Set([...target.aliases, source.slug, ...source.aliases]))
+        .filter(alias => alias !== target.slug)
+      await blink.db.tags.update(targetId, {
+        aliases: JSON.stringify(aliases),
+        updatedAt: new Date().toISOString()
+      })
+
+      const merged = { ...target, aliases }
+      await this.rewriteArticles(source.slug, merged, [...tags.filter(tag => tag.id !== sourceId && tag.id !== targetId), merged])
+      await blink.db.tags.delete(sourceId)
+      await this.refreshUsage([target.slug])
+
+      return this.getTagById(targetId)
+    } catch (error) {
+      console.error('Error merging tags:', error)
+      return null
+    }
+  }
+
+  // Tags still on articles can't be removed; merge them into another tag instead
+  async deleteTag(id: string): Promise<boolean> {
+    try {
+      const tag = await this.getTagById(id)
+      if (!tag) return true
+
+      const used = await blink.db.articles.count({ where: tagSlugCondition(tag.slug) })
+      if (used > 0) {
+        throw new Error(`Tag ${tag.slug} is used on ${used} articles`)
+      }
+
+      await blink.db.tags.delete(id)
+      return true
+    } catch (error) {
+      console.error('Error deleting tag:', error)
+      return false
+    }
+  }
+
+  // Recounts the live articles using each slug; called whenever articles gain or lose tags or go live
+  async refreshUsage(slugs: string[]): Promise<void> {
+    try {
+      if (slugs.length === 0) return
+
+      const tags = await this.getTags()
+      await Promise.all(Array.from(new Set(slugs)).map(async (slug) => {
+        const tag = tags.find(candidate => candidate.slug === slug)
+        if (!tag) return
+        const usageCount = await blink.db.articles.count({
+          where: { AND: [tagSlugCondition(slug), { duplicateOf: { is: null } }, articleService.publishedCondition()] }
+        })
+        if (usageCount !== tag.usageCount) {
+          await blink.db.tags.update(tag.id, { usageCount })
+        }
+      }))
+    } catch (error) {
+      console.error('Error refreshing tag usage:', error)
+    }
+  }
+
+  // Articles written before tags were normalized only have the JSON name list. This resolves
+  // those names to tags and fills in the slug column. Safe to run repeatedly.
+  async migrateLegacyTags(): Promise<TagMigrationResult> {
+    const result: TagMigrationResult = { articlesUpdated: 0, tagsCreated: 0 }
+    try {
+      const articles = await blink.db.articles.list({
+        where: { tagSlugs: { is: null } },
+        limit: ARTICLE_SCAN_LIMIT
+      })
+
+      const before = (await this.getTags()).length
+      const touched = new Set<string>()
+
+      for (const article of articles) {
+        let names: string[] = []
+        try {
+          names = JSON.parse(article.tags || '[]')
+        } catch {
+          names = []
+        }
+
+        const tags = await this.resolveTags(names)
+        await blink.db.articles.update(article.id, {
+          tags: JSON.stringify(tags.map(tag => tag.name)),
+          tagSlugs: tagSlugsColumn(tags.map(tag => tag.slug))
+        })
+        tags.forEach(tag => touched.add(tag.slug))
+        result.articlesUpdated++
+      }
+
+      result.tagsCreated = (await this.getTags()).length - before
+      await this.refreshUsage(Array.from(touched))
+      return result
+    } catch (error) {
+      console.error('Error migrating tags:', error)
+      return result
+    }
+  }
+
+  private async insertTag(name: string, slug: string): Promise<Tag> {
+    const now = new Date().toISOString()
+    const tag = await blink.db.tags.create({
+      id: `tag_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      slug,
+      name,
+      aliases: '[]',
+      usageCount: 0,
+      createdAt: now,
+      updatedAt: now
+    })
+    return this.transformTag(tag)
+  }
+
+  // Swaps `fromSlug` for `to` on every article carrying it, dropping the duplicate when
+  // an article already has `to`. Names are rebuilt from `tags` so renames show up too.
+  private async rewriteArticles(fromSlug: string, to: Tag, tags: Tag[]) {
+    const articles = await blink.db.articles.list({
+      where: tagSlugCondition(fromSlug),
+      limit: ARTICLE_SCAN_LIMIT
+    })
+
+    const bySlug = new Map(tags.map(tag => [tag.slug, tag]))
+    await Promise.all(articles.map((article: any) => {
+      const slugs = Array.from(new Set(
+        parseTagSlugs(article.tagSlugs || article.tag_slugs).map(slug => slug === fromSlug ? to.slug : slug)
+      ))
+      return blink.db.articles.update(article.id, {
+        tags: JSON.stringify(slugs.map(slug => bySlug.get(slug)?.name || slug)),
+        tagSlugs: tagSlugsColumn(slugs)
+      })
+    }))
+  }
+
+  private transformTag(dbTag: any): Tag {
+    let aliases: string[] = []
+    try {
+      aliases = JSON.parse(dbTag.aliases || '[]')
+    } catch {
+      aliases = []
+    }
+
+    return {
+      id: dbTag.id,
+      slug: dbTag.slug,
+      name: dbTag.name,
+      aliases,
+      usageCount: Number(dbTag.usageCount ?? dbTag.usage_count) || 0,
+      createdAt: dbTag.createdAt || dbTag.created_at,
+      updatedAt: dbTag.updatedAt || dbTag.updated_at
+    }
+  }
+}
+
+export const tagService = new TagService()